@@ -0,0 +1,148 @@
+import { Agent } from '@mastra/core';
+import { createWeatherTool, createFileTools, createRunCommandTool, timeTool, convertTimeTool, dateCalcTool, parseDurationTool, saveMemoryTool, readMemoryTool, searchMemoryTool, deleteMemoryTool, replaceMemoryTool, createSessionTools } from './tools';
+import type { AgentConfig } from './config-wizard';
+import type { ToolPermissions } from './permissions';
+import { SessionManager } from './session-manager';
+import type { McpManager } from './mcp';
+import type { PluginRegistry } from './plugins';
+import type { Guardrails } from './guardrails';
+import type { ConversationSummary } from './context-window';
+import { describeTime } from './time';
+import { adapterFor } from './providers';
+import { FailoverModel, endpointConfigs, type ProviderEvent } from './failover';
+
+// Used unless the profile sets its own systemPrompt
+const INSTRUCTIONS = 'You are a helpful AI assistant. You can think before answering using <think> tags. Always show your thinking steps. Connect to the user. Do not indent your responses with 4 spaces unless writing code blocks. You have access to a long-term memory. Use the search-memory tool to look up relevant past information and the save-memory tool to store important details. Every memory has an ID. When information changes (e.g. user preferences changing), use replace-memory with the old memory\'s ID instead of saving a conflicting entry, and use delete-memory with an ID to remove one. If memories still conflict, prioritize the most recently updated entry. To find an earlier conversation, use search-sessions with keywords and read-session with a returned session ID. You can read, list and search files in the user\'s workspace; read a file before changing it, prefer patch-file for small edits, and never claim a write succeeded unless the tool says so.';
+
+const TOOLS = { timeTool, convertTimeTool, dateCalcTool, parseDurationTool, saveMemoryTool, readMemoryTool, searchMemoryTool, deleteMemoryTool, replaceMemoryTool };
+
+export interface AgentOptions {
+    /** Policies and prompts applied to every tool call */
+    permissions?: ToolPermissions;
+    /** run-command calls are audited in its current session, and the session tools work on it */
+    sessionManager?: SessionManager;
+    /** Tools of connected MCP servers are added next to the built-ins */
+    mcp?: McpManager;
+    /** Tools loaded from plugin files */
+    plugins?: PluginRegistry;
+    /** Tool results are scanned for secrets, PII and prompt injection before the model sees them */
+    guardrails?: Guardrails;
+    /** Told about retries, failovers and which endpoint answered each model call */
+    onProviderEvent?: (event: ProviderEvent) => void;
+}
+
+// Tools whose behaviour depends on the profile are built per agent
+function toolsFor(config: AgentConfig, { permissions, sessionManager, mcp, plugins }: AgentOptions) {
+    const workspaceRoot = config.workspaceRoot ?? process.cwd();
+    return {
+        weatherTool: createWeatherTool(config.weather),
+        ...createFileTools(workspaceRoot, permissions),
+        // Opt-in: only offered when the profile has a command allowlist
+        ...(config.commands && {
+            runCommandTool: createRunCommandTool(config.commands, workspaceRoot, permissions, record => sessionManager?.logCommand(record) ?? Promise.resolve()),
+        }),
+        // Namespaced as mcp_<server>_<tool>, so they can't shadow a built-in
+        ...mcp?.tools(),
+        // Keyed plugin_<id>; their IDs were checked against builtInToolIds() when loaded
+        ...plugins?.tools,
+        ...TOOLS,
+        ...createSessionTools(sessionManager ?? new SessionManager()),
+    };
+}
+
+/** IDs of every built-in tool, including the opt-in ones, which plugins may not reuse */
+export function builtInToolIds(): string[] {
+    const tools = toolsFor({ provider: 'custom', baseUrl: '', modelId: '', commands: { allow: [] } }, {});
+    return Object.values(tools).map(tool => tool.id);
+}
+
+// Mastra retries every failed call twice by default; FailoverModel does the retrying instead
+const NO_SDK_RETRIES = { modelSettings: { maxRetries: 0 } };
+
+// The profile's endpoint with its fallbacks behind it
+function createModel(config: AgentConfig, onProviderEvent?: (event: ProviderEvent) => void) {
+    const endpoints = endpointConfigs(config).map(endpoint => ({
+        endpoint: { provider: endpoint.provider, baseUrl: endpoint.baseUrl, modelId: endpoint.modelId },
+        model: adapterFor(endpoint).createModel(endpoint),
+    }));
+    return new FailoverModel(endpoints, config.retry, onProviderEvent);
+}
+
+// Shared by the interactive chat loop and the non-interactive runner
+export function createAgent(config: AgentConfig, options: AgentOptions = {}): Agent {
+    const tools = options.guardrails ? options.guardrails.wrap(toolsFor(config, options)) : toolsFor(config, options);
+    return new Agent({
+        id: 'local-agent',
+        name: 'Local Agent',
+        instructions: config.systemPrompt ?? INSTRUCTIONS,
+        model: createModel(config, options.onProviderEvent),
+        defaultOptions: NO_SDK_RETRIES,
+        tools: options.permissions ? options.permissions.wrap(tools) : tools,
+    });
+}
+
+/**
+ * System prompt for a single turn: the profile's, or the built-in one.
+ * Passed as `instructions` on each call so it stays one system message;
+ * some local chat templates reject more. It carries the current date so
+ * "today" and memory timestamps line up.
+ */
+export function turnInstructions(config: Pick<AgentConfig, 'systemPrompt'>, summary?: ConversationSummary | null, now: Date = new Date()): string {
+    const time = describeTime(now);
+    const parts = [
+        config.systemPrompt ?? INSTRUCTIONS,
+        `Current date and time: ${time.weekday}, ${time.date} ${time.time.slice(0, 5)} (${time.timezone}, UTC${time.utcOffset}). Use the time tools for other timezones and date arithmetic.`,
+    ];
+    if (summary) {
+        parts.push(`Summary of the earlier part of this conversation (older messages are no longer shown):\n${summary.content}`);
+    }
+    return parts.join('\n\n');
+}
+
+/** Condenses messages (and an earlier summary, if any) with a tool-less agent on the same model */
+export async function summarizeConversation(config: AgentConfig, messages: any[], previousSummary?: string): Promise<string> {
+    const summarizer = new Agent({
+        id: 'summarizer',
+        name: 'Summarizer',
+        instructions: 'You condense chat transcripts. Keep facts, decisions, user preferences, names, numbers, open questions and anything needed to continue the conversation. Drop pleasantries. Write plain prose or short bullet points, no more than 250 words. Do not use <think> tags.',
+        model: createModel(config),
+        defaultOptions: NO_SDK_RETRIES,
+    });
+
+    const transcript = messages
+        .map(m => `${m.role.toUpperCase()}: ${typeof m.content === 'string' ? m.content : JSON.stringify(m.content)}`)
+        .join('\n\n');
+    const prompt = previousSummary
+        ? `Existing summary:\n${previousSummary}\n\nFold these newer messages into it:\n\n${transcript}`
+        : `Summarize this conversation:\n\n${transcript}`;
+
+    const result = await summarizer.generate(prompt);
+    return result.text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trim();
+}
+
+/** A short session title from the first exchange, using a tool-less agent on the same model */
+export async function generateTitle(config: AgentConfig, messages: any[]): Promise<string> {
+    const titler = new Agent({
+        id: 'titler',
+        name: 'Titler',
+        instructions: 'You name chat sessions. Reply with a title of at most six words describing the topic of the conversation. No quotes, no trailing punctuation, no <think> tags.',
+        model: createModel(config),
+        defaultOptions: NO_SDK_RETRIES,
+    });
+
+    const transcript = messages
+        .slice(0, 2)
+        .map(m => `${m.role.toUpperCase()}: ${String(m.content).slice(0, 1000)}`)
+        .join('\n\n');
+
+    const result = await titler.generate(`Title this conversation:\n\n${transcript}`);
+    const title = result.text
+        .replace(/<think>[\s\S]*?(<\/think>|$)/g, '')
+        .trim()
+        .split('\n')[0]
+        .replace(/^(title:\s*)/i, '')
+        .replace(/^["'*#\s]+|["'*.\s]+$/g, '')
+        .slice(0, 80);
+    if (!title) throw new Error('Empty title generated');
+    return title;
+}
@@ -1,4 +1,4 @@
-
+// Diagnoses a local LM Studio install (not part of the test suite): npx tsx src/check-lm-studio.ts
 import * as fs from 'fs/promises';
 import * as net from 'net';
 
@@ -0,0 +1,149 @@
+import { parseArgs } from 'util';
+import { parseExportArgs } from './session-export';
+
+export interface CliOptions {
+    /** Subcommand given as the first positional argument */
+    command?: 'export' | 'serve';
+    commandArgs: string[];
+    prompt?: string;
+    /** "-" was given: piped stdin is read and sent along with the prompt */
+    stdin: boolean;
+    json: boolean;
+    plain: boolean;
+    session?: string;
+    profile?: string;
+    /** Config file to use instead of the global and project ones */
+    config?: string;
+    /** Directory for sessions, memory, secrets and plugins */
+    dataDir?: string;
+    /** Address and port for "serve" */
+    host?: string;
+    port?: number;
+    /** Fixture file that real provider responses are appended to */
+    record?: string;
+    /** Open the chat REPL even when stdin is not a terminal */
+    interactive: boolean;
+    help: boolean;
+}
+
+export const USAGE = `Usage: safellm [options] [prompt...]
+       safellm export <session-id> [markdown|html|jsonl] [path]
+       safellm serve [--host <address>] [--port <n>]
+
+Without a prompt (and with a terminal on stdin) safellm starts the interactive chat.
+With a prompt argument or piped stdin it answers once and exits. Piped stdin is
+only read when no prompt is given or when "-" is one of the arguments, as in
+"cat notes.txt | safellm - summarize this".
+"export" and "serve" are only taken as commands in the forms shown above: "serve"
+on its own, "export" with at most a format and a path after the session ID.
+Anything longer is a prompt. Put "--" before a prompt to keep it from being read
+as a command: safellm -- export this table.
+"export" writes a saved session to a file (or stdout when no path is given).
+"serve" exposes the agent as an OpenAI-compatible API (/v1/chat/completions and
+/v1/models). Send "X-SafeLLM-Session: <id>" to continue a session. Clients must
+send "Authorization: Bearer <token>": SAFELLM_SERVE_TOKEN, or a random token
+printed at startup.
+
+Options:
+  -p, --prompt <text>    Prompt to send (positional arguments work too)
+  -s, --session <id>     Continue a saved session instead of starting a new one
+  -P, --profile <name>   Use a named provider profile from config.json
+      --config <file>    Use this config file instead of ~/.config/safellm/config.json
+                         and the project's .safellm/config.json
+      --data-dir <dir>   Keep sessions, memory, secrets and plugins here instead of
+                         ~/.local/share/safellm (and ignore project data)
+      --host <address>   Address for "serve" to listen on (default 127.0.0.1; any other
+                         address requires SAFELLM_SERVE_TOKEN)
+      --port <n>         Port for "serve" (default 8484)
+      --record <file>    Append every response of an OpenAI-compatible provider to this
+                         fixture file, for replay by a profile with "provider": "mock"
+  -i, --interactive      Start the interactive chat even when stdin is not a terminal
+      --json             Print the result as JSON
+      --plain            Disable ANSI colors and markdown rendering (alias: --no-color)
+  -h, --help             Show this help message
+
+Exit codes:
+  0  Success
+  1  The model failed or returned an empty response
+  2  Invalid usage (no prompt, unknown option, session or profile not found)
+`;
+
+export class CliUsageError extends Error { }
+
+// Only the exact form of a command counts, so a prompt that merely starts with its name stays a prompt
+function subcommand(positionals: string[]): CliOptions['command'] {
+    const [first, ...args] = positionals;
+    if (first === 'export' && args.length >= 1 && args.length <= 3 && parseExportArgs(args.slice(1))) return 'export';
+    if (first === 'serve' && args.length === 0) return 'serve';
+    return undefined;
+}
+
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            tokens: true,
+            options: {
+                prompt: { type: 'string', short: 'p' },
+                session: { type: 'string', short: 's' },
+                profile: { type: 'string', short: 'P' },
+                config: { type: 'string' },
+                'data-dir': { type: 'string' },
+                host: { type: 'string' },
+                port: { type: 'string' },
+                record: { type: 'string' },
+                interactive: { type: 'boolean', short: 'i', default: false },
+                json: { type: 'boolean', default: false },
+                plain: { type: 'boolean', default: false },
+                'no-color': { type: 'boolean', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    const { values } = parsed;
+    // Words after "--" are always prompt text, "-" included
+    const words: string[] = [];
+    const prompted: string[] = [];
+    let terminated = false;
+    for (const token of parsed.tokens) {
+        if (token.kind === 'option-terminator') terminated = true;
+        if (token.kind === 'positional') (terminated ? prompted : words).push(token.value);
+    }
+    const stdin = words.includes('-');
+    const positionals = [...words.filter(word => word !== '-'), ...prompted];
+    const command = !values.prompt && !prompted.length ? subcommand(positionals) : undefined;
+    const prompt = command ? undefined : values.prompt ?? (positionals.length ? positionals.join(' ') : undefined);
+
+    const port = values.port === undefined ? undefined : Number(values.port);
+    if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+        throw new CliUsageError(`Invalid port: ${values.port}`);
+    }
+
+    return {
+        command,
+        commandArgs: command ? positionals.slice(1) : [],
+        prompt,
+        stdin,
+        json: values.json!,
+        plain: values.plain! || values['no-color']!,
+        session: values.session,
+        profile: values.profile,
+        config: values.config,
+        dataDir: values['data-dir'],
+        host: values.host,
+        port,
+        record: values.record,
+        interactive: values.interactive!,
+        help: values.help!,
+    };
+}
+
+/** True when safellm should answer once and exit instead of opening the REPL */
+export function isNonInteractive(options: CliOptions): boolean {
+    return options.prompt !== undefined || options.stdin || (!process.stdin.isTTY && !options.interactive);
+}
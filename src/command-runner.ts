@@ -0,0 +1,268 @@
+import { spawn, execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Workspace } from './workspace';
+
+/** `commands` section of a profile; the run-command tool only exists when it is set */
+export interface CommandConfig {
+    /**
+     * What may run. A bare program name ("git") allows it with any arguments;
+     * an entry with arguments ("git status", "npm run *") must match the whole
+     * command, with `*` matching anything.
+     */
+    allow: string[];
+    /** Hard limit per command, in seconds (30) */
+    timeoutSeconds?: number;
+    /** Output kept from stdout and stderr together, in bytes (64 KiB); the command is stopped past it */
+    maxOutputBytes?: number;
+    /** Let commands reach the network; off by default */
+    allowNetwork?: boolean;
+}
+
+/** A command ready to run: parsed, allowlisted and with its directory inside the workspace */
+export interface PreparedCommand {
+    command: string;
+    argv: string[];
+    cwd: string;
+    /** cwd relative to the workspace root, for display */
+    displayCwd: string;
+}
+
+export interface CommandResult {
+    command: string;
+    cwd: string;
+    /** null when the command was killed */
+    exitCode: number | null;
+    signal: string | null;
+    timedOut: boolean;
+    stdout: string;
+    stderr: string;
+    /** True when output went past maxOutputBytes and the command was stopped */
+    truncated: boolean;
+    durationMs: number;
+}
+
+/** Audit entry kept on the session for every run-command call */
+export interface CommandRecord {
+    command: string;
+    cwd: string;
+    timestamp: string;
+    status: 'blocked' | 'rejected' | 'completed' | 'timed-out' | 'failed';
+    exitCode?: number | null;
+    durationMs?: number;
+    /** Why a blocked, rejected or failed command didn't run */
+    reason?: string;
+}
+
+/** Raised for commands that aren't allowed or can't be started; safe to show the model */
+export class CommandError extends Error { }
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+
+// Operators a shell would interpret; commands run without one, so they're refused rather than passed literally
+const SHELL_OPERATORS = new Set(['|', '&', ';', '<', '>', '(', ')', '$', '`', '\n']);
+
+// Environment variables that look like credentials aren't passed to commands
+const SECRET_ENV = /(KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL)/i;
+
+/**
+ * Splits a command line into arguments with shell-like quoting ('…', "…"
+ * and backslash escapes) but no expansion. Pipes, redirects, `;`, `&&` and
+ * substitutions are rejected outside quotes.
+ */
+export function parseCommandLine(line: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let started = false;
+    let quote: '"' | '\'' | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+            if (char === quote) {
+                quote = null;
+            } else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+                current += line[++i];
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            started = true;
+        } else if (char === '\\' && i + 1 < line.length) {
+            current += line[++i];
+            started = true;
+        } else if (char === ' ' || char === '\t') {
+            if (started) args.push(current);
+            current = '';
+            started = false;
+        } else if (SHELL_OPERATORS.has(char)) {
+            throw new CommandError(`Shell syntax ("${char.trim() || 'newline'}") is not supported; run a single command without pipes, redirects or substitutions.`);
+        } else {
+            current += char;
+            started = true;
+        }
+    }
+
+    if (quote) throw new CommandError('Unterminated quote in command');
+    if (started) args.push(current);
+    return args;
+}
+
+/** Whether `argv` matches an allowlist entry (see CommandConfig.allow) */
+export function isCommandAllowed(argv: string[], allow: string[]): boolean {
+    const command = argv.join(' ');
+    return allow.some(entry => {
+        const pattern = entry.trim().replace(/\s+/g, ' ');
+        if (!pattern) return false;
+        if (!pattern.includes(' ') && !pattern.includes('*')) return argv[0] === pattern;
+
+        const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${regex}$`).test(command);
+    });
+}
+
+let networkSandbox: Promise<string[] | null> | null = null;
+
+/**
+ * Prefix that runs a command without network access: a fresh network
+ * namespace on Linux, a sandbox profile on macOS. null where neither works.
+ */
+function detectNetworkSandbox(): Promise<string[] | null> {
+    const works = (file: string, args: string[]) => new Promise<boolean>(resolve => {
+        execFile(file, args, { timeout: 5000 }, error => resolve(!error));
+    });
+
+    return networkSandbox ??= (async () => {
+        if (process.platform === 'linux') {
+            const prefix = ['unshare', '--map-root-user', '--net', '--'];
+            return await works(prefix[0], [...prefix.slice(1), 'true']) ? prefix : null;
+        }
+        if (process.platform === 'darwin') {
+            const prefix = ['sandbox-exec', '-p', '(version 1)(allow default)(deny network*)'];
+            return await works(prefix[0], [...prefix.slice(1), 'true']) ? prefix : null;
+        }
+        return null;
+    })();
+}
+
+/**
+ * Runs allowlisted programs inside the workspace, directly rather than
+ * through a shell, with a timeout, an output cap and (unless allowed) no
+ * network. Paths in arguments must stay inside the workspace too.
+ */
+export class CommandRunner {
+    constructor(private config: CommandConfig, private workspace: Workspace) { }
+
+    get timeoutSeconds(): number {
+        return this.config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+    }
+
+    get allowNetwork(): boolean {
+        return !!this.config.allowNetwork;
+    }
+
+    async prepare(command: string, cwd = '.'): Promise<PreparedCommand> {
+        const argv = parseCommandLine(command.trim());
+        if (argv.length === 0) throw new CommandError('Empty command');
+        if (!isCommandAllowed(argv, this.config.allow)) {
+            throw new CommandError(`"${argv.join(' ')}" is not on the command allowlist. Allowed: ${this.config.allow.join(', ') || '(nothing)'}`);
+        }
+
+        let directory: string;
+        try {
+            directory = await this.workspace.resolve(cwd);
+        } catch (error) {
+            throw new CommandError(error instanceof Error ? error.message : String(error));
+        }
+        const stat = await fs.stat(directory).catch(() => null);
+        if (!stat?.isDirectory()) throw new CommandError(`Not a directory: ${cwd}`);
+
+        // Arguments that look like paths must not point outside the workspace (the program itself is vetted by the allowlist)
+        const realRoot = await fs.realpath(this.workspace.root);
+        for (const arg of argv.slice(1)) {
+            const value = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : arg;
+            if (value.startsWith('~')) throw new CommandError(`Home directory paths are not allowed: ${arg}`);
+            if (!path.isAbsolute(value) && !value.split(/[\\/]/).includes('..')) continue;
+
+            const relative = path.relative(realRoot, path.resolve(directory, value));
+            if (relative.startsWith('..') || path.isAbsolute(relative)) {
+                throw new CommandError(`Path is outside the workspace: ${arg}`);
+            }
+        }
+
+        const displayCwd = path.relative(realRoot, directory).split(path.sep).join('/') || '.';
+        return { command: argv.join(' '), argv, cwd: directory, displayCwd };
+    }
+
+    async run(prepared: PreparedCommand, signal?: AbortSignal): Promise<CommandResult> {
+        let argv = prepared.argv;
+        if (!this.allowNetwork) {
+            const sandbox = await detectNetworkSandbox();
+            if (!sandbox) {
+                throw new CommandError('Commands can\'t be cut off from the network on this system; set "allowNetwork": true under "commands" in config.json to run them anyway.');
+            }
+            argv = [...sandbox, ...argv];
+        }
+
+        const env = Object.fromEntries(Object.entries(process.env).filter(([name]) => !SECRET_ENV.test(name)));
+        const maxBytes = this.config.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+        const started = Date.now();
+
+        return new Promise((resolve, reject) => {
+            // Own process group, so a timeout stops everything the command started
+            const child = spawn(argv[0], argv.slice(1), { cwd: prepared.cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: true });
+            const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+            let bytes = 0;
+            let truncated = false;
+            let timedOut = false;
+
+            const stop = () => {
+                try {
+                    process.kill(-child.pid!, 'SIGKILL');
+                } catch {
+                    // Already exited
+                }
+            };
+            const timer = setTimeout(() => {
+                timedOut = true;
+                stop();
+            }, this.timeoutSeconds * 1000);
+            signal?.addEventListener('abort', stop, { once: true });
+
+            const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+                if (truncated) return;
+                const room = maxBytes - bytes;
+                output[stream].push(chunk.subarray(0, room));
+                bytes += Math.min(chunk.length, room);
+                if (chunk.length > room) {
+                    truncated = true;
+                    stop();
+                }
+            };
+            child.stdout!.on('data', collect('stdout'));
+            child.stderr!.on('data', collect('stderr'));
+
+            child.on('error', error => {
+                clearTimeout(timer);
+                reject(new CommandError(`Could not start "${prepared.argv[0]}": ${error.message}`));
+            });
+            child.on('close', (exitCode, exitSignal) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', stop);
+                resolve({
+                    command: prepared.command,
+                    cwd: prepared.displayCwd,
+                    exitCode,
+                    signal: exitSignal,
+                    timedOut,
+                    stdout: Buffer.concat(output.stdout).toString('utf-8'),
+                    stderr: Buffer.concat(output.stderr).toString('utf-8'),
+                    truncated,
+                    durationMs: Date.now() - started,
+                });
+            });
+        });
+    }
+}
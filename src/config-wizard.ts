@@ -4,24 +4,126 @@ import * as path from 'path';
 import * as net from 'net';
 import * as readline from 'readline';
 import chalk from 'chalk';
+import { listModels, PROVIDERS } from './providers';
+import type { ToolPolicy } from './permissions';
+import type { WeatherConfig, WeatherUnits } from './weather';
+import type { CommandConfig } from './command-runner';
+import type { McpServerConfig } from './mcp';
+import type { GuardrailConfig } from './guardrails';
+import type { RetryConfig, FallbackConfig } from './failover';
+import type { OllamaConfig } from './ollama-provider';
+import { validateParams, GenerationParamError, type GenerationParams } from './generation';
+import { SecretStore, SecretsError, PASSPHRASE_ENV, maskSecret } from './secrets';
+import { resolvePaths, findLegacyFiles, migrateLegacyFiles, type ConfigLayer } from './paths';
+import { isProjectTrusted } from './trust';
 
-const CONFIG_FILE = path.join(process.cwd(), 'config.json');
-
-export type ProviderType = 'lm-studio' | 'ollama' | 'custom';
+/**
+ * Selects the adapter in providers.ts: "ollama" uses Ollama's native API,
+ * "anthropic" the Messages API, "mock" replays a fixture file instead of
+ * calling a server (see mock-provider.ts), and the rest speak OpenAI's.
+ */
+export type ProviderType = 'lm-studio' | 'ollama' | 'anthropic' | 'custom' | 'mock';
 
 export interface AgentConfig {
     provider: ProviderType;
     baseUrl: string;
     modelId: string;
+    /** Plain-text key; set at runtime from apiKeyEnv or apiKeySecret, which keep it out of config.json */
     apiKey?: string;
+    /** Name of the environment variable holding the API key */
+    apiKeyEnv?: string;
+    /** Name of the entry in the encrypted secrets file holding the API key */
+    apiKeySecret?: string;
+    /** Context length the server loads the model with; guessed from the model ID when unset */
+    contextWindow?: number;
+    /** Weather data source for the get-weather tool; unavailable when unset */
+    weather?: WeatherConfig;
+    /** Directory the file tools are confined to (relative paths are from the working directory); defaults to the working directory */
+    workspaceRoot?: string;
+    /** Allowlist and limits for the run-command tool, which is only available when this is set */
+    commands?: CommandConfig;
+    /** Fixture with the responses a "mock" profile replays (relative paths are from the working directory) */
+    fixturePath?: string;
+    /** keep_alive, thinking and model options for the "ollama" provider */
+    ollama?: OllamaConfig;
+    /** Retries, backoff and timeouts for calls to the model */
+    retry?: RetryConfig;
+    /** Endpoints or models tried in order once this one keeps failing */
+    fallbacks?: FallbackConfig[];
+    /** Temperature, topP, maxTokens, stop and seed; overrides the shared ones in config.json field by field */
+    generation?: GenerationParams;
+    /** Replaces the built-in system prompt */
+    systemPrompt?: string;
+    /** Name of the profile this config was loaded from (not stored inside the profile) */
+    profile?: string;
+}
+
+export type ProfileConfig = Omit<AgentConfig, 'profile'>;
+
+/** On-disk shape of config.json */
+export interface ConfigFile {
+    defaultProfile: string;
+    profiles: Record<string, ProfileConfig>;
+    /** allow/ask/deny per tool ID, shared by all profiles */
+    toolPermissions?: Record<string, ToolPolicy>;
+    /** MCP servers whose tools are added to every profile's agent, by server name */
+    mcpServers?: Record<string, McpServerConfig>;
+    /** Secret, PII and prompt-injection scanning, shared by all profiles */
+    guardrails?: GuardrailConfig;
+    /** Generation params for every profile, unless the profile sets its own */
+    generation?: GenerationParams;
+}
+
+export class ConfigError extends Error { }
+
+/** Asks for a passphrase without echoing it */
+export type PassphrasePrompt = (question: string) => Promise<string>;
+
+export interface LoadConfigOptions {
+    /** Used to unlock the secrets file when SAFELLM_PASSPHRASE isn't set; without it, loading fails instead */
+    passphrase?: PassphrasePrompt;
+    /** Moves a plain-text apiKey into the secrets file and removes it from config.json */
+    migrateApiKey?: boolean;
 }
 
+// Unlocked at most once per run, whichever profile needs it first
+const secretStore = new SecretStore();
+const PASSPHRASE_ATTEMPTS = 3;
+
+const DEFAULT_PROFILE = 'default';
+
 const DEFAULT_CONFIG: AgentConfig = {
     provider: 'lm-studio',
     baseUrl: 'http://localhost:1234/v1',
     modelId: 'mistralai/ministral-3-14b-reasoning',
 };
 
+/**
+ * Like prompt(), but nothing typed is echoed or kept in history. Pass the
+ * chat's readline interface while it is open; two on stdin would both
+ * receive the line.
+ */
+export function promptHidden(question: string, existing?: readline.Interface): Promise<string> {
+    const rl = existing ?? readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    const output = rl as any;
+    const write = output._writeToOutput;
+
+    return new Promise((resolve) => {
+        rl.question(`${chalk.green('?')} ${question} `, (answer) => {
+            output._writeToOutput = write;
+            process.stdout.write('\n');
+            if (existing) {
+                if (output.history?.[0] === answer) output.history.shift();
+            } else {
+                rl.close();
+            }
+            resolve(answer);
+        });
+        // Mute after the question is written so only the typed characters are hidden
+        output._writeToOutput = () => { };
+    });
+}
+
 async function prompt(question: string, defaultValue?: string): Promise<string> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -40,24 +142,304 @@ async function prompt(question: string, defaultValue?: string): Promise<string>
     });
 }
 
-export async function loadConfig(): Promise<AgentConfig> {
+// A key resolved from the environment or the secrets file is never written back
+function withoutResolvedKey<T extends FallbackConfig>(config: T): T {
+    if (!config.apiKeyEnv && !config.apiKeySecret) return config;
+    const { apiKey, ...rest } = config;
+    return rest as T;
+}
+
+function toProfile(config: any): ProfileConfig {
+    const { profile, ...rest } = config;
+    const stored = withoutResolvedKey(rest);
+    return stored.fallbacks ? { ...stored, fallbacks: stored.fallbacks.map(withoutResolvedKey) } : stored;
+}
+
+/** True when the profile's API key sits in config.json itself */
+export function hasPlaintextApiKey(config: ProfileConfig): boolean {
+    return !!config.apiKey && !config.apiKeyEnv && !config.apiKeySecret;
+}
+
+/** Where the API key comes from, with the key itself masked; null without one */
+export function describeApiKey(config: ProfileConfig): string | null {
+    if (config.apiKeyEnv) return `$${config.apiKeyEnv}`;
+    if (config.apiKeySecret) return `secrets file ("${config.apiKeySecret}")`;
+    if (config.apiKey) return `${maskSecret(config.apiKey)} (plain text in config.json)`;
+    return null;
+}
+
+/** A copy that is safe to print */
+export function maskConfig<T extends FallbackConfig>(config: T): T {
+    const masked = config.apiKey ? { ...config, apiKey: maskSecret(config.apiKey) } : config;
+    const fallbacks = (masked as ProfileConfig).fallbacks;
+    return fallbacks ? { ...masked, fallbacks: fallbacks.map(maskConfig) } : masked;
+}
+
+async function unlockWith(store: SecretStore, passphrase: string): Promise<void> {
+    try {
+        await store.unlock(passphrase);
+    } catch (error) {
+        if (error instanceof SecretsError) throw new ConfigError(error.message);
+        throw error;
+    }
+}
+
+/**
+ * Unlocks the secrets file with SAFELLM_PASSPHRASE, or by asking up to three
+ * times. The passphrase for a file that doesn't exist yet is asked twice.
+ */
+export async function unlockSecrets(store: SecretStore = secretStore, ask?: PassphrasePrompt): Promise<void> {
+    if (store.unlocked) return;
+
+    const fromEnv = process.env[PASSPHRASE_ENV];
+    if (fromEnv) return unlockWith(store, fromEnv);
+    if (!ask) throw new ConfigError(`The API key is in the encrypted secrets file; set ${PASSPHRASE_ENV} to unlock it.`);
+
+    if (!(await store.exists())) {
+        const passphrase = await ask(`New passphrase for ${store.file}:`);
+        if (passphrase !== await ask('Repeat the passphrase:')) throw new ConfigError('The passphrases do not match.');
+        return unlockWith(store, passphrase);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await unlockWith(store, await ask(`Passphrase for ${store.file}:`));
+        } catch (error) {
+            if (!(error instanceof ConfigError) || attempt >= PASSPHRASE_ATTEMPTS) throw error;
+            console.log(chalk.red(error.message));
+        }
+    }
+}
+
+/** Fills in apiKey from apiKeyEnv or the secrets file, whichever the profile (or one of its fallbacks) uses */
+export async function resolveApiKey<T extends FallbackConfig & { profile?: string }>(config: T, options: { store?: SecretStore; passphrase?: PassphrasePrompt } = {}): Promise<T> {
+    if (config.apiKeyEnv) {
+        const value = process.env[config.apiKeyEnv];
+        if (!value) throw new ConfigError(`Environment variable ${config.apiKeyEnv} is not set (API key of profile "${config.profile}")`);
+        return { ...config, apiKey: value };
+    }
+    if (config.apiKeySecret) {
+        const store = options.store ?? secretStore;
+        await unlockSecrets(store, options.passphrase);
+        const value = store.get(config.apiKeySecret);
+        if (value === undefined) throw new ConfigError(`No secret named "${config.apiKeySecret}" in ${store.file}`);
+        return { ...config, apiKey: value };
+    }
+    return config;
+}
+
+/** Moves a plain-text key into the secrets file under the profile name */
+async function migrateApiKey(name: string, profile: ProfileConfig, passphrase?: PassphrasePrompt): Promise<ProfileConfig> {
+    await unlockSecrets(secretStore, passphrase);
+    await secretStore.set(name, profile.apiKey!);
+
+    let migrated = profile;
+    await updateConfigFile(file => {
+        const { apiKey, ...rest } = file.profiles[name] ?? profile;
+        migrated = file.profiles[name] = { ...rest, apiKeySecret: name };
+    }, name);
+    console.log(chalk.green(`🔒 API key of profile "${name}" moved to ${secretStore.file}`));
+    return migrated;
+}
+
+/** One config file as stored; null if it doesn't exist or isn't valid JSON */
+async function readConfigLayer(filePath: string): Promise<ConfigFile | null> {
     try {
-        const data = await fs.readFile(CONFIG_FILE, 'utf-8');
+        const data = await fs.readFile(filePath, 'utf-8');
         const config = JSON.parse(data);
+        // A project file may hold only some sections, e.g. just toolPermissions
+        if (config.profiles || !(config.modelId || config.baseUrl || config.lmStudioUrl)) {
+            return { ...config, profiles: config.profiles ?? {} };
+        }
+
         // Migration: map old lmStudioUrl to baseUrl if missing
         if (!config.baseUrl && config.lmStudioUrl) {
             config.baseUrl = config.lmStudioUrl;
             config.provider = 'lm-studio';
             delete config.lmStudioUrl;
         }
-        return config;
+        // Migration: single-provider configs become the "default" profile
+        return { defaultProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: toProfile(config) } };
+    } catch (error) {
+        return null;
+    }
+}
+
+/** `upper` over `lower`: profiles, permissions and servers are merged by name, generation params by field */
+function mergeConfigFiles(lower: ConfigFile, upper: Partial<ConfigFile>): ConfigFile {
+    return {
+        ...lower,
+        ...upper,
+        defaultProfile: upper.defaultProfile ?? lower.defaultProfile,
+        profiles: { ...lower.profiles, ...upper.profiles },
+        toolPermissions: { ...lower.toolPermissions, ...upper.toolPermissions },
+        mcpServers: { ...lower.mcpServers, ...upper.mcpServers },
+        guardrails: {
+            ...lower.guardrails,
+            ...upper.guardrails,
+            actions: { ...lower.guardrails?.actions, ...upper.guardrails?.actions },
+        },
+        generation: { ...lower.generation, ...upper.generation },
+    };
+}
+
+// Profiles, MCP servers and tool permissions can run commands or send the chat elsewhere;
+// until the project is trusted (see trust.ts) its config.json may only tune generation
+function untrustedLayer(file: ConfigFile): Partial<ConfigFile> {
+    return file.generation ? { generation: file.generation } : {};
+}
+
+/** The project's config.json, or null when there is none or the project is trusted, so all of it applies */
+async function untrustedProjectLayer(): Promise<ConfigFile | null> {
+    const { configLayers, projectDir } = resolvePaths();
+    const layer = configLayers.find(layer => layer.scope === 'project');
+    if (!layer || !projectDir || await isProjectTrusted(projectDir)) return null;
+    return readConfigLayer(layer.file);
+}
+
+/**
+ * The global config with the project's .safellm/config.json applied on top
+ * (or just the --config file). Of an untrusted project's file only the
+ * generation params are used.
+ */
+export async function loadConfigFile(): Promise<ConfigFile> {
+    const untrusted = await untrustedProjectLayer();
+    let merged: ConfigFile = { defaultProfile: DEFAULT_PROFILE, profiles: {} };
+    for (const layer of resolvePaths().configLayers) {
+        const file = await readConfigLayer(layer.file);
+        if (file) merged = mergeConfigFiles(merged, untrusted && layer.scope === 'project' ? untrustedLayer(file) : file);
+    }
+    return merged;
+}
+
+/** What an untrusted project's config.json sets that is ignored until the project is trusted, one line each */
+export async function untrustedProjectSettings(): Promise<string[]> {
+    const file = await untrustedProjectLayer();
+    if (!file) return [];
+    const items = Object.entries(file.mcpServers ?? {}).map(([name, server]) =>
+        `MCP server "${name}": ${server.command ? [server.command, ...(server.args ?? [])].join(' ') : server.url}`);
+    for (const [name, profile] of Object.entries(file.profiles)) {
+        const details = [profile.baseUrl, profile.commands && `runs ${profile.commands.allow.join(', ')}`, profile.workspaceRoot && `workspace ${profile.workspaceRoot}`];
+        items.push(`profile "${name}": ${details.filter(Boolean).join('; ')}`);
+    }
+    const permissions = Object.entries(file.toolPermissions ?? {});
+    if (permissions.length > 0) items.push(`tool permissions: ${permissions.map(([tool, policy]) => `${tool} ${policy}`).join(', ')}`);
+    if (file.defaultProfile) items.push(`default profile "${file.defaultProfile}"`);
+    if (file.guardrails) items.push('guardrail settings');
+    return items;
+}
+
+/** Config files that exist, in the order they are applied */
+export async function activeConfigLayers(): Promise<ConfigLayer[]> {
+    const layers: ConfigLayer[] = [];
+    for (const layer of resolvePaths().configLayers) {
+        if (await readConfigLayer(layer.file)) layers.push(layer);
+    }
+    return layers;
+}
+
+/** The file a profile comes from: the last layer defining it, else the primary config file */
+async function configFileFor(profileName?: string): Promise<string> {
+    const paths = resolvePaths();
+    if (profileName) {
+        // An untrusted project's profiles aren't used, so changes to them go to the global file
+        const skipProject = !!(await untrustedProjectLayer());
+        for (const layer of [...paths.configLayers].reverse()) {
+            if (skipProject && layer.scope === 'project') continue;
+            if ((await readConfigLayer(layer.file))?.profiles[profileName]) return layer.file;
+        }
+    }
+    return paths.primaryConfigFile;
+}
+
+/**
+ * Changes one config file on disk: the one defining `profileName`, so a
+ * project override stays in the project, otherwise the global one.
+ */
+export async function updateConfigFile(change: (file: ConfigFile) => void, profileName?: string): Promise<void> {
+    const target = await configFileFor(profileName);
+    const file = await readConfigLayer(target) ?? { defaultProfile: profileName ?? DEFAULT_PROFILE, profiles: {} };
+    change(file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, JSON.stringify(file, null, 2));
+}
+
+/** The profile's generation params, checked; none at all when nothing is set */
+function generationFor(name: string, params: GenerationParams = {}): { generation?: GenerationParams } {
+    try {
+        const generation = validateParams(params as Record<string, unknown>);
+        return Object.keys(generation).length > 0 ? { generation } : {};
     } catch (error) {
-        return DEFAULT_CONFIG;
+        if (error instanceof GenerationParamError) throw new ConfigError(`Profile "${name}": ${error.message}`);
+        throw error;
+    }
+}
+
+/**
+ * Loads a profile by name, or the default profile when no name is given,
+ * with its API key resolved. Throws ConfigError if a named profile does not
+ * exist or its key can't be read.
+ */
+export async function loadConfig(profileName?: string, options: LoadConfigOptions = {}): Promise<AgentConfig> {
+    const file = await loadConfigFile();
+    const name = profileName ?? file.defaultProfile;
+    let profile = file.profiles[name];
+
+    if (!profile) {
+        if (profileName) {
+            throw new ConfigError(`Profile not found: ${profileName}`);
+        }
+        return { ...DEFAULT_CONFIG, ...generationFor(name, file.generation), profile: name };
+    }
+    if (options.migrateApiKey && hasPlaintextApiKey(profile)) {
+        profile = await migrateApiKey(name, profile, options.passphrase);
+    }
+    const generation = generationFor(name, { ...file.generation, ...profile.generation });
+    const config = await resolveApiKey({ ...profile, ...generation, profile: name }, options);
+    if (!config.fallbacks) return config;
+    // One at a time, so a locked secrets file is asked for only once
+    const fallbacks: FallbackConfig[] = [];
+    for (const fallback of config.fallbacks) {
+        const { profile, ...resolved } = await resolveApiKey({ ...fallback, profile: name }, options);
+        fallbacks.push(resolved);
     }
+    return { ...config, fallbacks };
 }
 
-export async function saveConfig(config: AgentConfig): Promise<void> {
-    await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
+export async function loadToolPermissions(): Promise<Record<string, ToolPolicy>> {
+    const file = await loadConfigFile();
+    return file.toolPermissions ?? {};
+}
+
+export async function loadMcpServers(): Promise<Record<string, McpServerConfig>> {
+    const file = await loadConfigFile();
+    return file.mcpServers ?? {};
+}
+
+export async function loadGuardrails(): Promise<GuardrailConfig> {
+    const file = await loadConfigFile();
+    return file.guardrails ?? {};
+}
+
+/** Saves the config into its profile, creating it if needed */
+export async function saveConfig(config: AgentConfig, options: { makeDefault?: boolean } = {}): Promise<void> {
+    const name = config.profile ?? (await loadConfigFile()).defaultProfile;
+
+    await updateConfigFile(file => {
+        file.profiles[name] = toProfile(config);
+        if (options.makeDefault || Object.keys(file.profiles).length === 1) {
+            file.defaultProfile = name;
+        }
+    }, name);
+}
+
+export async function listProfiles(): Promise<{ name: string; config: ProfileConfig; isDefault: boolean }[]> {
+    const file = await loadConfigFile();
+    return Object.entries(file.profiles).map(([name, config]) => ({
+        name,
+        config,
+        isDefault: name === file.defaultProfile,
+    }));
 }
 
 async function checkServiceRunning(port: number): Promise<boolean> {
@@ -97,38 +479,111 @@ async function checkLMStudioInstalled() {
     return false;
 }
 
-export async function runSetupWizard(): Promise<AgentConfig> {
+/** Numbered picker over the models the server reports, falling back to free text */
+async function pickModel(provider: ProviderType, baseUrl: string, apiKey: string | undefined, defaultModelId: string): Promise<string> {
+    let models: string[] = [];
+    try {
+        models = await listModels({ provider, baseUrl, apiKey, modelId: defaultModelId });
+    } catch (error) {
+        console.log(chalk.yellow(`\n⚠️  Could not list models (${error instanceof Error ? error.message : String(error)}).`));
+    }
+
+    if (models.length === 0) {
+        return prompt('Model ID:', defaultModelId);
+    }
+
+    console.log(chalk.green('\nAvailable models:'));
+    models.forEach((id, i) => console.log(`${i + 1}. ${id}`));
+    console.log('');
+
+    const defaultIndex = Math.max(0, models.indexOf(defaultModelId));
+    const answer = await prompt(`Select model (1-${models.length}) or type a model ID:`, String(defaultIndex + 1));
+    const index = Number(answer);
+    if (Number.isInteger(index) && index >= 1 && index <= models.length) {
+        return models[index - 1];
+    }
+    return answer;
+}
+
+/** Asks for the get-weather data source, defaulting to what the profile had */
+async function pickWeather(current?: WeatherConfig): Promise<WeatherConfig | undefined> {
+    console.log(chalk.green('\nWeather data for the get-weather tool:'));
+    console.log('1. None (the tool reports weather as unavailable)');
+    console.log('2. Open-Meteo (free, no API key, needs internet)');
+    console.log('3. Offline fixtures (canned test data)\n');
+
+    const currentChoice = current?.provider === 'open-meteo' ? '2' : current?.provider === 'fixture' ? '3' : '1';
+    const choice = await prompt('Select weather source (1-3):', currentChoice);
+    if (choice !== '2' && choice !== '3') return undefined;
+
+    const units = await prompt('Units (metric/imperial):', current?.units ?? 'metric');
+    return {
+        ...current,
+        provider: choice === '2' ? 'open-meteo' : 'fixture',
+        units: (units.toLowerCase().startsWith('i') ? 'imperial' : 'metric') as WeatherUnits,
+    };
+}
+
+async function pickCommands(current?: CommandConfig): Promise<CommandConfig | undefined> {
+    const enable = await prompt('Let the agent run commands in the workspace (each one needs your approval)? (y/N)', current ? 'y' : 'N');
+    if (enable.toLowerCase() !== 'y') return undefined;
+
+    const allow = await prompt('Allowed commands, comma-separated ("git" allows any git command):', current?.allow.join(', ') ?? 'git status, git diff *, git log *, ls *');
+    return { ...current, allow: allow.split(',').map(entry => entry.trim()).filter(Boolean) };
+}
+
+type KeyStorage = { type: 'secrets' } | { type: 'env'; variable: string } | { type: 'plain' };
+
+async function pickKeyStorage(): Promise<KeyStorage> {
+    console.log(chalk.green('\nWhere should the API key be kept?'));
+    console.log(`1. Encrypted secrets file (${secretStore.file}, passphrase protected)`);
+    console.log('2. Environment variable (config.json only stores its name)');
+    console.log('3. Plain text in config.json (not recommended)\n');
+
+    const choice = await prompt('Select storage (1-3):', '1');
+    if (choice === '2') {
+        return { type: 'env', variable: await prompt('Environment variable name:', 'SAFELLM_API_KEY') };
+    }
+    return { type: choice === '3' ? 'plain' : 'secrets' };
+}
+
+/** The apiKey fields for the new profile; a key for the secrets file is stored there now */
+async function storeApiKey(apiKey: string | undefined, storage: KeyStorage | undefined, profile: string): Promise<Pick<AgentConfig, 'apiKey' | 'apiKeyEnv' | 'apiKeySecret'>> {
+    if (!storage) return {};
+    if (storage.type === 'env') return { apiKey, apiKeyEnv: storage.variable };
+    if (storage.type === 'plain' || !apiKey) return { apiKey };
+
+    try {
+        await unlockSecrets(secretStore, question => promptHidden(question));
+        await secretStore.set(profile, apiKey);
+        return { apiKey, apiKeySecret: profile };
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.log(chalk.red(`❌ ${error.message}`));
+        console.log(chalk.yellow('⚠️  The API key was not saved; run /config again to add it.'));
+        return {};
+    }
+}
+
+export async function runSetupWizard(profileName?: string): Promise<AgentConfig> {
     console.clear();
     console.log(chalk.bold.cyan('🧙 SafeLLM Setup Wizard'));
     console.log(chalk.dim('Let\'s configure your agent.\n'));
 
     const startSetup = await prompt('No configuration found (or strictly requested). Run setup? (Y/n)', 'Y');
     if (startSetup.toLowerCase() === 'n') {
-        return DEFAULT_CONFIG;
+        return { ...DEFAULT_CONFIG, profile: DEFAULT_PROFILE };
     }
 
     console.log(chalk.green('\nChoose your AI Provider:'));
     console.log('1. LM Studio (Default port 1234)');
     console.log('2. Ollama    (Default port 11434)');
-    console.log('3. Custom\n');
-
-    const choice = await prompt('Select provider (1-3):', '1');
-    let provider: ProviderType = 'lm-studio';
-    let defaultBaseUrl = 'http://localhost:1234/v1';
-    let defaultModelId = 'mistralai/ministral-3-14b-reasoning'; // default prompt
-    let checkPort = 1234;
+    console.log('3. Custom    (OpenAI-compatible)');
+    console.log('4. Anthropic (API key required)\n');
 
-    if (choice === '2') {
-        provider = 'ollama';
-        defaultBaseUrl = 'http://localhost:11434/v1';
-        defaultModelId = 'llama3';
-        checkPort = 11434;
-    } else if (choice === '3') {
-        provider = 'custom';
-        defaultBaseUrl = 'http://localhost:8000/v1';
-        defaultModelId = 'my-model';
-        checkPort = 0; // Skip check or ask?
-    }
+    const choice = await prompt('Select provider (1-4):', '1');
+    const provider: ProviderType = ({ '2': 'ollama', '3': 'custom', '4': 'anthropic' } as const)[choice] ?? 'lm-studio';
+    const { defaultBaseUrl, defaultModelId, requiresApiKey } = PROVIDERS[provider];
 
     console.log(chalk.dim(`\nChecking status for ${provider}...`));
 
@@ -158,7 +613,6 @@ export async function runSetupWizard(): Promise<AgentConfig> {
     }
 
     const baseUrl = await prompt('API Base URL:', defaultBaseUrl);
-    const modelId = await prompt('Model ID:', defaultModelId);
 
     // Check if we are keeping the same provider to suggest the old API key
     const sameProvider = choice === '1' && provider === 'lm-studio' ||  // Logic check: previous config might be passed in? 
@@ -166,8 +620,9 @@ export async function runSetupWizard(): Promise<AgentConfig> {
     // Wait, 'provider' variable is set based on choice. We need to compare with *loaded* config (if any).
     // Let's rely on the fact that if they chose a specific provider, we guide them.
 
-    const useAuth = await prompt('Enforce authentication? (y/N)', 'N');
+    const useAuth = requiresApiKey ? 'y' : await prompt('Enforce authentication? (y/N)', 'N');
     let apiKey: string | undefined;
+    let keyStorage: KeyStorage | undefined;
 
     if (useAuth.toLowerCase() === 'y') {
         if (provider === 'lm-studio') {
@@ -182,22 +637,104 @@ export async function runSetupWizard(): Promise<AgentConfig> {
         // Simpler: Just ask. If they switched providers, they shouldn't use the old key.
         // But we don't have easy access to "old provider" here cleanly without passing it.
         // safe choice: Don't provide a default for API Key to avoid leaking it, or just blank it.
-        apiKey = await prompt('Enter your API Token:');
+        keyStorage = await pickKeyStorage();
+        if (keyStorage.type === 'env') {
+            apiKey = process.env[keyStorage.variable];
+            if (!apiKey) console.log(chalk.yellow(`⚠️  ${keyStorage.variable} is not set; set it before starting safellm.`));
+        } else {
+            apiKey = await promptHidden('Enter your API Token:');
+        }
     }
 
-    const newConfig: AgentConfig = { provider, baseUrl, modelId, apiKey };
+    const modelId = await pickModel(provider, baseUrl, apiKey, defaultModelId);
+
+    const existing = await listProfiles();
+    const profile = await prompt('Profile name:', profileName ?? DEFAULT_PROFILE);
+    let makeDefault = false;
+    if (existing.some(p => p.name !== profile) && !existing.some(p => p.name === profile && p.isDefault)) {
+        const answer = await prompt(`Make "${profile}" the default profile? (y/N)`, 'N');
+        makeDefault = answer.toLowerCase() === 'y';
+    }
 
-    await saveConfig(newConfig);
-    console.log(chalk.green('\n✅ Configuration saved!\n'));
+    const previous = existing.find(p => p.name === profile)?.config;
+    const weather = await pickWeather(previous?.weather);
+    const workspaceRoot = await prompt('Workspace directory for the file tools:', previous?.workspaceRoot ?? '.');
+    const commands = await pickCommands(previous?.commands);
+
+    const keyFields = await storeApiKey(apiKey, keyStorage, profile);
+
+    const newConfig: AgentConfig = {
+        provider, baseUrl, modelId, ...keyFields, profile,
+        ...(weather && { weather }),
+        ...(workspaceRoot && workspaceRoot !== '.' && { workspaceRoot }),
+        ...(commands && { commands }),
+        // Not asked for; kept when the wizard re-creates a profile
+        ...(previous?.generation && { generation: previous.generation }),
+        ...(previous?.systemPrompt && { systemPrompt: previous.systemPrompt }),
+    };
+
+    await saveConfig(newConfig, { makeDefault });
+    console.log(chalk.green(`\n✅ Configuration saved to profile "${profile}"!\n`));
 
     return newConfig;
 }
 
-export async function ensureConfig(): Promise<AgentConfig> {
-    try {
-        await fs.access(CONFIG_FILE);
-        return loadConfig();
-    } catch {
+/** Offers to move files older versions kept in the working directory or ~/.safellm */
+async function offerLegacyMigration(): Promise<void> {
+    const legacy = findLegacyFiles();
+    if (legacy.length === 0) return;
+
+    console.log(chalk.yellow('\n📦 Found files from an older version of safellm:'));
+    for (const file of legacy) {
+        console.log(chalk.yellow(`   ${file.description}: ${file.from}`) + chalk.dim(` → ${file.to}`));
+    }
+    const answer = await prompt('Move them to the new locations? (Y/n)', 'Y');
+    if (answer.toLowerCase() === 'n') {
+        console.log(chalk.dim('Left in place; they are not used until moved.\n'));
+        return;
+    }
+
+    const { moved, skipped } = migrateLegacyFiles(legacy);
+    console.log(chalk.green(`✅ Moved ${moved.length} file${moved.length === 1 ? '' : 's'}.`));
+    for (const file of skipped) {
+        console.log(chalk.yellow(`⚠️  Kept ${file.from}: ${file.to} already exists.`));
+    }
+    console.log('');
+}
+
+export async function ensureConfig(options: { interactive?: boolean; profile?: string } = {}): Promise<AgentConfig> {
+    if (options.interactive !== false) await offerLegacyMigration();
+
+    if ((await activeConfigLayers()).length === 0) {
+        // With no config file at all, no named profile can exist
+        if (options.profile) throw new ConfigError(`Profile not found: ${options.profile}`);
+        // Scripts can't answer the wizard, fall back to defaults instead
+        if (options.interactive === false) {
+            if (findLegacyFiles().some(file => file.description === 'config')) {
+                process.stderr.write(`config.json in this directory is no longer read; start safellm interactively to move it to ${resolvePaths().primaryConfigFile}\n`);
+            }
+            return { ...DEFAULT_CONFIG, profile: DEFAULT_PROFILE };
+        }
         return runSetupWizard();
     }
+    if (options.interactive === false) return loadConfig(options.profile);
+
+    const file = await loadConfigFile();
+    const name = options.profile ?? file.defaultProfile;
+    const profile = file.profiles[name];
+    const passphrase = (question: string) => promptHidden(question);
+    if (profile && hasPlaintextApiKey(profile)) {
+        console.log(chalk.yellow(`⚠️  Profile "${name}" keeps its API key (${maskSecret(profile.apiKey!)}) in plain text in ${await configFileFor(name)}.`));
+        const answer = await prompt('Move it to the encrypted secrets file? (y/N)', 'N');
+        if (answer.toLowerCase() === 'y') {
+            try {
+                return await loadConfig(options.profile, { migrateApiKey: true, passphrase });
+            } catch (error) {
+                if (!(error instanceof ConfigError)) throw error;
+                // The plain-text key still works; the question comes back next start
+                console.log(chalk.red(`❌ Not migrated: ${error.message}`));
+            }
+        }
+    }
+    return loadConfig(options.profile, { passphrase });
 }
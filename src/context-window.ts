@@ -0,0 +1,138 @@
+import type { AgentConfig } from './config-wizard';
+
+/** Compact record of messages that were summarized out of the prompt */
+export interface ConversationSummary {
+    content: string;
+    /** messages[0..coveredMessages) are represented by the summary */
+    coveredMessages: number;
+    createdAt: string;
+}
+
+export interface ContextUsage {
+    used: number;
+    limit: number;
+    summaryTokens: number;
+    messageTokens: number;
+    /** Messages still sent verbatim */
+    activeMessages: number;
+    summarizedMessages: number;
+}
+
+export type Summarizer = (messages: any[], previousSummary?: string) => Promise<string>;
+
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+// Rough allowance for the system prompt and tool schemas sent with every request
+const PROMPT_OVERHEAD_TOKENS = 1500;
+
+// Summarize once usage passes this share of the limit...
+const COMPACT_THRESHOLD = 0.75;
+// ...keeping the most recent messages that fit in this share of the room left after the overhead
+const KEEP_RECENT_SHARE = 0.4;
+
+// Typical trained context sizes; local servers often load less, so profiles can set contextWindow
+const KNOWN_CONTEXT_LIMITS: [RegExp, number][] = [
+    [/llama-?3\.[123]/i, 131072],
+    [/llama-?3/i, 8192],
+    [/qwen-?3|qwen-?2\.5/i, 32768],
+    [/mistral|ministral|mixtral/i, 32768],
+    [/gemma-?3/i, 131072],
+    [/gemma/i, 8192],
+    [/phi-?4/i, 16384],
+    [/phi-?3/i, 4096],
+    [/deepseek/i, 65536],
+    [/gpt-4o|gpt-4\.1/i, 128000],
+    [/claude/i, 200000],
+];
+
+/** Approximate token count (~4 characters per token for English text) */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function messageTokens(message: any): number {
+    const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '');
+    // Per-message overhead for role markers in chat templates
+    return estimateTokens(content) + 4;
+}
+
+export function contextLimitFor(config: AgentConfig): number {
+    if (config.contextWindow) return config.contextWindow;
+    const known = KNOWN_CONTEXT_LIMITS.find(([pattern]) => pattern.test(config.modelId));
+    return known ? known[1] : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Messages that are actually sent: everything the summary doesn't cover,
+ * reduced to role and content (timestamps, tool records etc. stay local).
+ */
+export function activeMessages(messages: any[], summary: ConversationSummary | null): any[] {
+    const active = summary ? messages.slice(summary.coveredMessages) : messages;
+    return active.map(({ role, content }) => ({ role, content }));
+}
+
+export function contextUsage(messages: any[], summary: ConversationSummary | null, limit: number): ContextUsage {
+    const active = activeMessages(messages, summary);
+    const summaryTokens = summary ? estimateTokens(summary.content) : 0;
+    const activeTokens = active.reduce((total, message) => total + messageTokens(message), 0);
+
+    return {
+        used: PROMPT_OVERHEAD_TOKENS + summaryTokens + activeTokens,
+        limit,
+        summaryTokens,
+        messageTokens: activeTokens,
+        activeMessages: active.length,
+        summarizedMessages: summary?.coveredMessages ?? 0,
+    };
+}
+
+/**
+ * Picks how far the summary should extend: the most recent messages that fit
+ * the KEEP_RECENT_SHARE budget stay verbatim, starting at a user turn.
+ * Returns null when there is nothing older left to summarize.
+ */
+function compactionPoint(messages: any[], summary: ConversationSummary | null, limit: number): number | null {
+    const start = summary?.coveredMessages ?? 0;
+    const budget = Math.max(0, limit - PROMPT_OVERHEAD_TOKENS) * KEEP_RECENT_SHARE;
+
+    let kept = 0;
+    let split = messages.length;
+    while (split - 1 > start && kept + messageTokens(messages[split - 1]) <= budget) {
+        split--;
+        kept += messageTokens(messages[split]);
+    }
+
+    // Always keep the latest message, and don't open the kept part mid-turn
+    split = Math.min(split, messages.length - 1);
+    while (split < messages.length - 1 && messages[split]?.role !== 'user') {
+        split++;
+    }
+
+    return split > start ? split : null;
+}
+
+/**
+ * Folds the oldest turns into the summary when the prompt nears the limit.
+ * Returns the new summary, or null if no compaction was needed or possible.
+ */
+export async function compactIfNeeded(
+    messages: any[],
+    summary: ConversationSummary | null,
+    limit: number,
+    summarize: Summarizer,
+): Promise<ConversationSummary | null> {
+    const usage = contextUsage(messages, summary, limit);
+    if (usage.used < limit * COMPACT_THRESHOLD) return null;
+
+    const split = compactionPoint(messages, summary, limit);
+    if (split === null) return null;
+
+    const start = summary?.coveredMessages ?? 0;
+    const content = await summarize(messages.slice(start, split), summary?.content);
+
+    return {
+        content: content.trim(),
+        coveredMessages: split,
+        createdAt: new Date().toISOString(),
+    };
+}
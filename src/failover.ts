@@ -0,0 +1,229 @@
+import { APICallError } from 'ai';
+import type { AgentConfig, ProviderType } from './config-wizard';
+import type { ChatModel } from './providers';
+
+type CallOptions = Parameters<ChatModel['doGenerate']>[0];
+
+/** Retries, backoff and timeouts for calls to the model; every field has a default */
+export interface RetryConfig {
+    /** Further attempts on the same endpoint after a transient failure (default 2) */
+    retries?: number;
+    /** Wait before the first retry, doubled for each one after (default 1) */
+    backoffSeconds?: number;
+    /** Longest wait between retries, also when the server asks for more with Retry-After (default 30) */
+    maxBackoffSeconds?: number;
+    /** How long a streamed reply may take to start (default 60) */
+    connectTimeoutSeconds?: number;
+    /** How long a whole reply may take, streamed or not (default 600) */
+    generateTimeoutSeconds?: number;
+}
+
+/**
+ * Another endpoint, or another model on the same one, tried when the
+ * profile's keeps failing. Unset fields come from the profile, except that
+ * a fallback on another baseUrl never gets the profile's API key.
+ */
+export type FallbackConfig = Partial<Pick<AgentConfig, 'provider' | 'baseUrl' | 'modelId' | 'apiKey' | 'apiKeyEnv' | 'apiKeySecret' | 'fixturePath'>>;
+
+/** Where a reply came from */
+export interface Endpoint {
+    provider: ProviderType;
+    baseUrl: string;
+    modelId: string;
+}
+
+/** Reported while a call is retried or failed over, and once an endpoint has answered */
+export type ProviderEvent =
+    | { type: 'retry'; endpoint: Endpoint; attempt: number; delayMs: number; error: string }
+    | { type: 'failover'; from: Endpoint; to: Endpoint; error: string }
+    | { type: 'answered'; endpoint: Endpoint; fallback: boolean };
+
+/** A connect or generate timeout; treated like a refused connection */
+export class ProviderTimeoutError extends Error { }
+
+/** Every endpoint failed, or the only one did; the message lists why */
+export class ProviderUnavailableError extends Error { }
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_SECONDS = 1;
+const DEFAULT_MAX_BACKOFF_SECONDS = 30;
+const DEFAULT_CONNECT_TIMEOUT_SECONDS = 60;
+const DEFAULT_GENERATE_TIMEOUT_SECONDS = 600;
+
+export function describeEndpoint(endpoint: Endpoint): string {
+    return `${endpoint.modelId} at ${endpoint.baseUrl}`;
+}
+
+/** The profile followed by its fallbacks, each a complete config */
+export function endpointConfigs(config: AgentConfig): AgentConfig[] {
+    const { fallbacks = [], ...primary } = config;
+    return [primary, ...fallbacks.map(fallback => {
+        const sameEndpoint = !fallback.baseUrl || fallback.baseUrl === config.baseUrl;
+        const { apiKey, apiKeyEnv, apiKeySecret, ...unkeyed } = primary;
+        return { ...(sameEndpoint ? primary : unkeyed), ...fallback };
+    })];
+}
+
+/** Refused connections, timeouts, 429 and 5xx; a 400 or 401 fails the same way every time */
+function isTransient(error: unknown): boolean {
+    return error instanceof ProviderTimeoutError || (APICallError.isInstance(error) && error.isRetryable);
+}
+
+function errorMessage(error: unknown): string {
+    if (APICallError.isInstance(error) && error.statusCode) return `HTTP ${error.statusCode}`;
+    return error instanceof Error ? error.message : String(error);
+}
+
+function retryDelay(error: unknown, attempt: number, retry: RetryConfig): number {
+    const maxMs = (retry.maxBackoffSeconds ?? DEFAULT_MAX_BACKOFF_SECONDS) * 1000;
+    const backoffMs = (retry.backoffSeconds ?? DEFAULT_BACKOFF_SECONDS) * 1000 * 2 ** attempt;
+    // Only the seconds form of Retry-After; an HTTP date falls back to the backoff
+    const retryAfter = APICallError.isInstance(error) ? Number(error.responseHeaders?.['retry-after']) * 1000 : NaN;
+    return Math.min(Number.isFinite(retryAfter) ? Math.max(retryAfter, backoffMs) : backoffMs, maxMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+        const abort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', abort, { once: true });
+    });
+}
+
+/** Aborts a single attempt when one of its timeouts runs out, or when the caller aborts */
+class Attempt {
+    private controller = new AbortController();
+    private timers = new Set<NodeJS.Timeout>();
+    readonly signal: AbortSignal;
+
+    constructor(private caller?: AbortSignal) {
+        this.signal = caller ? AbortSignal.any([caller, this.controller.signal]) : this.controller.signal;
+    }
+
+    limit(seconds: number, what: string): NodeJS.Timeout {
+        const timer = setTimeout(() => this.controller.abort(new ProviderTimeoutError(`${what} timed out after ${seconds}s`)), seconds * 1000);
+        // A stream nobody finishes reading must not keep the process alive
+        timer.unref();
+        this.timers.add(timer);
+        return timer;
+    }
+
+    clear(timer?: NodeJS.Timeout): void {
+        for (const t of timer ? [timer] : this.timers) clearTimeout(t);
+    }
+
+    /** The timeout behind an error, if it was ours rather than the caller's */
+    reason(error: unknown): unknown {
+        const reason = this.controller.signal.reason;
+        return reason instanceof ProviderTimeoutError && !this.caller?.aborted ? reason : error;
+    }
+}
+
+/**
+ * Presents the profile's model and its fallbacks as one model. Transient
+ * failures are retried with exponential backoff, then the next endpoint is
+ * tried. A stream that has started is never retried: part of the reply has
+ * already been shown.
+ */
+export class FailoverModel {
+    readonly specificationVersion = 'v3';
+
+    constructor(
+        private endpoints: { endpoint: Endpoint; model: ChatModel }[],
+        private retry: RetryConfig = {},
+        private onEvent?: (event: ProviderEvent) => void,
+    ) { }
+
+    get provider() { return this.endpoints[0].model.provider; }
+    get modelId() { return this.endpoints[0].model.modelId; }
+    get supportedUrls() { return this.endpoints[0].model.supportedUrls; }
+
+    doGenerate(options: CallOptions): ReturnType<ChatModel['doGenerate']> {
+        return this.call(options, async (model, attempt) => {
+            attempt.limit(this.retry.generateTimeoutSeconds ?? DEFAULT_GENERATE_TIMEOUT_SECONDS, 'Reply');
+            try {
+                return await model.doGenerate({ ...options, abortSignal: attempt.signal });
+            } finally {
+                attempt.clear();
+            }
+        });
+    }
+
+    doStream(options: CallOptions): ReturnType<ChatModel['doStream']> {
+        return this.call(options, async (model, attempt) => {
+            const generateTimer = attempt.limit(this.retry.generateTimeoutSeconds ?? DEFAULT_GENERATE_TIMEOUT_SECONDS, 'Reply');
+            const connectTimer = attempt.limit(this.retry.connectTimeoutSeconds ?? DEFAULT_CONNECT_TIMEOUT_SECONDS, 'Connection');
+            let result: Awaited<ReturnType<ChatModel['doStream']>>;
+            try {
+                result = await model.doStream({ ...options, abortSignal: attempt.signal });
+            } catch (error) {
+                attempt.clear();
+                throw error;
+            }
+            attempt.clear(connectTimer);
+
+            // The generate timeout runs until the stream is read to the end
+            const reader = result.stream.getReader();
+            const stream = new ReadableStream({
+                async pull(controller) {
+                    try {
+                        const { done, value } = await reader.read();
+                        if (done) {
+                            attempt.clear(generateTimer);
+                            controller.close();
+                        } else {
+                            controller.enqueue(value);
+                        }
+                    } catch (error) {
+                        attempt.clear(generateTimer);
+                        controller.error(attempt.reason(error));
+                    }
+                },
+                cancel(reason) {
+                    attempt.clear(generateTimer);
+                    return reader.cancel(reason);
+                },
+            });
+            return { ...result, stream };
+        });
+    }
+
+    private async call<T>(options: CallOptions, run: (model: ChatModel, attempt: Attempt) => Promise<T>): Promise<T> {
+        const retries = this.retry.retries ?? DEFAULT_RETRIES;
+        const failures: string[] = [];
+
+        for (const [index, { endpoint, model }] of this.endpoints.entries()) {
+            for (let attempt = 0; ; attempt++) {
+                const current = new Attempt(options.abortSignal);
+                try {
+                    const result = await run(model, current);
+                    this.onEvent?.({ type: 'answered', endpoint, fallback: index > 0 });
+                    return result;
+                } catch (caught) {
+                    const error = current.reason(caught);
+                    if (options.abortSignal?.aborted || !isTransient(error)) throw error;
+
+                    const message = errorMessage(error);
+                    if (attempt < retries) {
+                        const delayMs = retryDelay(error, attempt, this.retry);
+                        this.onEvent?.({ type: 'retry', endpoint, attempt: attempt + 1, delayMs, error: message });
+                        await sleep(delayMs, options.abortSignal);
+                        continue;
+                    }
+                    failures.push(`${describeEndpoint(endpoint)}: ${message}`);
+                    const next = this.endpoints[index + 1];
+                    if (next) this.onEvent?.({ type: 'failover', from: endpoint, to: next.endpoint, error: message });
+                    break;
+                }
+            }
+        }
+        throw new ProviderUnavailableError(`No model endpoint answered (${failures.join('; ')})`);
+    }
+}
@@ -0,0 +1,116 @@
+import type { CallSettings } from 'ai';
+
+/** Sampling settings sent with every reply; unset ones are left to the server */
+export interface GenerationParams {
+    temperature?: number;
+    topP?: number;
+    /** Longest reply, in tokens */
+    maxTokens?: number;
+    /** Sequences that end the reply where they appear */
+    stop?: string[];
+    /** Makes replies repeatable, on servers that support it */
+    seed?: number;
+}
+
+export type ParamName = keyof GenerationParams;
+
+/** A value /set, config.json or an API request can't use; the message says what is expected */
+export class GenerationParamError extends Error { }
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const PARAMS: Record<ParamName, { description: string; expected: string; valid(value: unknown): boolean }> = {
+    temperature: {
+        description: 'Randomness of sampling; 0 picks the likeliest token',
+        expected: 'a number from 0 to 2',
+        valid: value => isNumber(value) && value >= 0 && value <= 2,
+    },
+    topP: {
+        description: 'Samples only from the likeliest tokens making up this much probability',
+        expected: 'a number above 0 and at most 1',
+        valid: value => isNumber(value) && value > 0 && value <= 1,
+    },
+    maxTokens: {
+        description: 'Longest reply, in tokens',
+        expected: 'a whole number above 0',
+        valid: value => Number.isInteger(value) && (value as number) > 0,
+    },
+    stop: {
+        description: 'Sequences that end the reply',
+        expected: 'a string or a JSON list of strings',
+        valid: value => Array.isArray(value) && value.length > 0 && value.every(s => typeof s === 'string' && s.length > 0),
+    },
+    seed: {
+        description: 'Fixed seed for repeatable replies',
+        expected: 'a whole number',
+        valid: value => Number.isInteger(value),
+    },
+};
+
+export const PARAM_NAMES = Object.keys(PARAMS) as ParamName[];
+
+// The names of OpenAI's API work in /set too
+const ALIASES: Record<string, ParamName> = { top_p: 'topP', max_tokens: 'maxTokens' };
+
+function paramName(name: string): ParamName {
+    if (name in PARAMS) return name as ParamName;
+    if (ALIASES[name]) return ALIASES[name];
+    throw new GenerationParamError(`Unknown parameter "${name}"; one of ${PARAM_NAMES.join(', ')}`);
+}
+
+/** Drops unset params and throws GenerationParamError for the first invalid one */
+export function validateParams(params: Record<string, unknown>): GenerationParams {
+    const valid: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        const name = paramName(key);
+        if (!PARAMS[name].valid(value)) throw new GenerationParamError(`${name} must be ${PARAMS[name].expected}`);
+        valid[name] = value;
+    }
+    return valid as GenerationParams;
+}
+
+/**
+ * `/set <name> <value>`: the params with one changed. The value is read as
+ * JSON where it can be, so `"\n\n"` and `["###", "END"]` work for stop,
+ * otherwise as plain text; "default" removes the override.
+ */
+export function setParam(params: GenerationParams, name: string, input: string): GenerationParams {
+    const key = paramName(name);
+    const { [key]: _, ...rest } = params;
+    if (input === 'default') return rest;
+
+    let value: unknown;
+    try {
+        value = JSON.parse(input);
+    } catch {
+        value = input;
+    }
+    if (key === 'stop' && typeof value === 'string') value = [value];
+    return { ...rest, ...validateParams({ [key]: value }) };
+}
+
+/** One entry per param for /params, with its value (null when left to the server) */
+export function describeParams(params: GenerationParams): { name: ParamName; value: string | null; description: string }[] {
+    return PARAM_NAMES.map(name => ({
+        name,
+        value: params[name] === undefined ? null : JSON.stringify(params[name]),
+        description: PARAMS[name].description,
+    }));
+}
+
+/**
+ * Per-call model settings for agent.generate and agent.stream. They replace
+ * the agent's defaults, so maxRetries has to stay 0 here as well:
+ * FailoverModel does the retrying.
+ */
+export function modelSettings(params: GenerationParams = {}): CallSettings {
+    return {
+        ...(params.temperature !== undefined && { temperature: params.temperature }),
+        ...(params.topP !== undefined && { topP: params.topP }),
+        ...(params.maxTokens !== undefined && { maxOutputTokens: params.maxTokens }),
+        ...(params.stop !== undefined && { stopSequences: params.stop }),
+        ...(params.seed !== undefined && { seed: params.seed }),
+        maxRetries: 0,
+    };
+}
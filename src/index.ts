@@ -1,89 +1,74 @@
 #!/usr/bin/env -S npx tsx
 import 'dotenv/config';
-import { Mastra, Agent } from '@mastra/core';
-import { createOpenAI } from '@ai-sdk/openai';
+import { Agent } from '@mastra/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import * as readline from 'readline';
-import { marked } from 'marked';
-import TerminalRenderer from 'marked-terminal';
 import chalk from 'chalk';
-import stripAnsi from 'strip-ansi';
-import { weatherTool, timeTool, saveMemoryTool, readMemoryTool, deleteMemoryTool, replaceMemoryTool, listSessionsTool, readSessionTool, renameSessionTool } from './tools';
-import { SessionManager } from './session-manager';
-
-// Configure marked to use terminal renderer
-const terminalRenderer = new TerminalRenderer({
-    blockquote: chalk.gray.italic,
-    firstHeading: chalk.bold.underline.blue,
-    heading: chalk.bold.blue,
-    code: chalk.yellow,
-    strong: chalk.bold.cyan,
-    hr: chalk.dim,
-    reflowText: true,
-    width: process.stdout.columns ? process.stdout.columns - 5 : 80,
-    tab: 2,
-    list: (body: string, ordered?: boolean) => {
-        // Custom list formatting if needed, or just let marked-terminal handle it with smaller tabs
-        return body;
-    }
-});
-
-// Workaround for marked v15 strict validation
-// We must only pass standard renderer methods to marked.use
-// AND we must wrap them to synchronize the parser state that marked injects
-const renderer: any = {};
-const markedRendererMethods = [
-    'code', 'blockquote', 'html', 'heading', 'hr', 'list', 'listitem',
-    'checkbox', 'paragraph', 'table', 'tablerow', 'tablecell',
-    'strong', 'em', 'codespan', 'br', 'del', 'link', 'image', 'text'
-];
-
-markedRendererMethods.forEach(method => {
-    // @ts-expect-error - dynamic access
-    if (typeof terminalRenderer[method] === 'function') {
-        renderer[method] = function (...args: any[]) {
-            // Synchronize parser which marked v15 injects into 'this'
-            if (this.parser) {
-                // @ts-expect-error - dynamic assignment
-                terminalRenderer.parser = this.parser;
-            }
-
-            // Synchronize options which marked v15 injects into 'this'
-            // Safely merge options ensuring gfm and others are present
-            terminalRenderer.options = { ...terminalRenderer.options, ...(this.options || {}) };
-
-            // Custom Check for Thinking Process
-            if (method === 'blockquote') {
-                const text = args[0];
-                if (typeof text === 'string' && text.includes('Thinking Process:')) {
-                    // Apply different styling for Thinking Process
-                    // Strip existing styles (like gray/italic/blue) and apply plain dim
-                    return chalk.dim(stripAnsi(terminalRenderer.blockquote(text)));
-                }
-            }
-
-            // @ts-expect-error - dynamic call
-            return terminalRenderer[method].apply(terminalRenderer, args);
-        };
-    }
-});
-
-marked.use({
-    renderer,
-    gfm: true,
-    breaks: false,
-});
-
-import { ensureConfig, saveConfig, type AgentConfig } from './config-wizard';
+import { SessionManager, parseHistoryArgs, normalizeTag, type Session, type SessionMessage, type ToolCallRecord } from './session-manager';
+import { StreamPrinter } from './stream-printer';
+import { renderMarkdown } from './markdown';
+import { createAgent, builtInToolIds, turnInstructions, summarizeConversation, generateTitle, type AgentOptions } from './agent';
+import { contextLimitFor, contextUsage, compactIfNeeded, activeMessages, type ConversationSummary } from './context-window';
+import { listModels, adapterFor } from './providers';
+import { ensureConfig, untrustedProjectSettings, runSetupWizard, loadConfig, listProfiles, loadToolPermissions, loadMcpServers, loadGuardrails, describeApiKey, promptHidden, activeConfigLayers, ConfigError, type AgentConfig } from './config-wizard';
+import { ToolPermissions, type ApprovalDecision } from './permissions';
+import { McpManager } from './mcp';
+import { loadPlugins, pluginFiles, type PluginRegistry } from './plugins';
+import { isProjectTrusted, trustProject } from './trust';
+import { Guardrails, type GuardrailEvent } from './guardrails';
+import { configurePaths, resolvePaths } from './paths';
+import { parseCliArgs, isNonInteractive, CliUsageError, USAGE, type CliOptions } from './cli';
+import { runNonInteractive, runExportCommand, EXIT_USAGE } from './non-interactive';
+import { parseExportArgs, exportSession, EXPORT_FORMATS } from './session-export';
+import { runServeCommand } from './server';
+import { recordTo, recordingsWritten } from './mock-provider';
+import { describeEndpoint, endpointConfigs, ProviderUnavailableError, type Endpoint, type ProviderEvent } from './failover';
+import { setParam, describeParams, modelSettings, GenerationParamError, PARAM_NAMES } from './generation';
 
-// ... imports ...
-
-// ... imports ...
-import { runSetupWizard } from './config-wizard';
+// State shared by the chat loop; survives /config, /profile and /model switches
+interface ChatContext {
+    config: AgentConfig;
+    agent: Agent;
+    sessionManager: SessionManager;
+    messages: SessionMessage[];
+    /** Model IDs reported by the provider at the last connection check */
+    models: string[];
+    permissions: ToolPermissions;
+    /** Connections to the MCP servers in config.json */
+    mcp: McpManager;
+    /** Tools and slash commands from plugin files */
+    plugins: PluginRegistry;
+    /** Scans input, tool results and replies for secrets, PII and prompt injection */
+    guardrails: Guardrails;
+    /** Stands in for messages that no longer fit the context window */
+    summary: ConversationSummary | null;
+    /** Retry, failover and answering endpoint of each model call, while a chat session runs */
+    onProviderEvent: ((event: ProviderEvent) => void) | null;
+}
 
-async function main() {
-    let config = await ensureConfig();
+async function main(options: CliOptions) {
+    await confirmProjectTrust();
+    let config: AgentConfig;
+    try {
+        config = await ensureConfig({ profile: options.profile });
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(chalk.red(`❌ ${error.message}`));
+        process.exit(EXIT_USAGE);
+    }
     const sessionManager = new SessionManager();
-    await sessionManager.createSession();
+    await sessionManager.createSession({ model: config.modelId, provider: config.provider });
+    const messages: SessionMessage[] = [];
+    let summary: ConversationSummary | null = null;
+    const permissions = new ToolPermissions(await loadToolPermissions());
+    const mcp = new McpManager(await loadMcpServers());
+    let mcpConnected = false;
+    const plugins = await loadPlugins({
+        reservedToolIds: builtInToolIds(),
+        reservedCommands: COMMANDS.map(command => command.trim().substring(1)),
+    });
+    const guardrails = new Guardrails(await loadGuardrails());
 
     // Main Application Loop
     while (true) {
@@ -100,95 +85,288 @@ async function main() {
 `;
         console.log(chalk.bold.cyan(banner));
         console.log(chalk.bold.green('SafeLLM CLI Initializing...'));
+        console.log(`Profile:  ${config.profile}`);
         console.log(`Provider: ${config.provider}`);
         console.log(`Endpoint: ${config.baseUrl}`);
+        const apiKey = describeApiKey(config);
+        if (apiKey) console.log(`API key:  ${apiKey}`);
         // console.log(`Model:    ${config.modelId}`);
 
-        // AI SDK Provider Setup
-        let openai = createOpenAI({
-            baseURL: config.baseUrl,
-            apiKey: config.apiKey || 'not-needed',
-            // @ts-expect-error - feature is available in runtime but missing in types
-            compatibility: 'strict',
-        });
-
-        let agent = new Agent({
-            id: 'local-agent',
-            name: 'Local Agent',
-            instructions: 'You are a helpful AI assistant. You can think before answering using <think> tags. Always show your thinking steps. Connect to the user. Do not indent your responses with 4 spaces unless writing code blocks. You have access to a long-term memory. Use the read-memory tool to check for past information and the save-memory tool to store important details. When reading memory, treat the file as a chronological log. If you find conflicting information (e.g. user preferences changing), always prioritize the most recent entry based on the timestamp.',
-            model: openai.chat(config.modelId),
-            tools: { weatherTool, timeTool, saveMemoryTool, readMemoryTool, deleteMemoryTool, replaceMemoryTool, listSessionsTool, readSessionTool, renameSessionTool },
-        });
-
         // Connection Check
-        const connected = await checkConnectionAndPrompt(config);
-        if (!connected) {
+        const models = await checkConnectionAndPrompt(config);
+        if (!models) {
             console.log('Goodbye!');
             process.exit(0);
         }
+        warnIfModelMissing(config, models);
+
+        // Once per run; /tools reconnect retries failed servers
+        if (!mcpConnected && mcp.serverCount > 0) {
+            await mcp.connectAll();
+            mcpConnected = true;
+            printMcpSummary(mcp);
+        }
+
+        printPluginSummary(plugins);
+
+        const context: ChatContext = {
+            config,
+            agent: createAgent(config, { permissions, sessionManager, mcp, plugins, guardrails, onProviderEvent: event => context.onProviderEvent?.(event) }),
+            sessionManager, messages, models, permissions, mcp, plugins, guardrails, summary,
+            onProviderEvent: null,
+        };
 
         console.log(chalk.bold.cyan('\n🤖 Agent Ready! Type "exit", "quit", or "/config" to configure a new connection.'));
 
         // Run Chat Session
-        const action = await runChatSession(agent, sessionManager);
+        const action = await runChatSession(context);
+        config = context.config;
+        summary = context.summary;
 
         if (action === 'quit') {
+            await mcp.close();
+            await recordingsWritten();
             console.log('Goodbye!');
             process.exit(0);
         } else if (action === 'configure') {
-            config = await runSetupWizard();
+            config = await runSetupWizard(config.profile);
             // Loop continues with new config
         }
     }
 }
 
-async function checkConnectionAndPrompt(config: any): Promise<boolean> {
+interface ConnectionStatus {
+    error: string | null;
+    models: string[];
+}
+
+/** Runs the provider's health check without prompting and returns the models it serves */
+async function checkConnection(config: AgentConfig): Promise<ConnectionStatus> {
+    try {
+        return { error: null, models: await listModels(config) };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error), models: [] };
+    }
+}
+
+/** Returns the served model list once connected, or null if the user quits */
+async function checkConnectionAndPrompt(config: AgentConfig): Promise<string[] | null> {
     while (true) {
-        try {
-            const response = await fetch(`${config.baseUrl}/models`, {
-                headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
-            });
+        const { error, models } = await checkConnection(config);
+        if (!error) {
+            console.log(`✅ Connected to ${config.provider}`);
+            return models;
+        }
+
+        console.error(chalk.red(`❌ Connection failed to ${config.baseUrl}: ${error}`));
 
-            if (response.ok) {
-                console.log(`✅ Connected to ${config.provider}`);
-                return true;
+        // The chat fails over on its own, so a fallback that answers now is enough to start
+        for (const fallback of endpointConfigs(config).slice(1)) {
+            if (!(await checkConnection(fallback)).error) {
+                console.log(chalk.yellow(`⚠️  Fallback ${describeEndpoint(fallback)} is up; replies still try ${config.baseUrl} first`));
+                return [];
             }
-            throw new Error(`Status ${response.status}`);
-        } catch (error) {
-            console.error(chalk.red(`❌ Connection failed to ${config.baseUrl}: ${error instanceof Error ? error.message : String(error)}`));
+        }
 
-            const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-            const answer = await new Promise<string>(resolve => {
-                rl.question(chalk.yellow('\n[R]etry, [C]hange Config, or [Q]uit? '), ans => {
-                    rl.close();
-                    resolve(ans.trim().toLowerCase());
-                });
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        const answer = await new Promise<string>(resolve => {
+            rl.question(chalk.yellow('\n[R]etry, [C]hange Config, or [Q]uit? '), ans => {
+                rl.close();
+                resolve(ans.trim().toLowerCase());
             });
+        });
 
-            if (answer === 'q') return false;
-            if (answer === 'c') {
-                try {
-                    // Re-run wizard to update config
-                    const newConfig = await runSetupWizard();
-                    Object.assign(config, newConfig); // Update the passed config object in place
+        if (answer === 'q') return null;
+        if (answer === 'c') {
+            try {
+                // Re-run wizard to update config
+                const newConfig = await runSetupWizard(config.profile);
+                Object.assign(config, newConfig); // Update the passed config object in place
 
-                    continue; // Retry connection with new config
-                } catch (e) {
-                    console.error(e);
-                }
+                continue; // Retry connection with new config
+            } catch (e) {
+                console.error(e);
             }
         }
     }
 }
 
+/** Summarizes the oldest turns into context.summary when the prompt nears the model's limit */
+async function compactContext(context: ChatContext) {
+    const limit = contextLimitFor(context.config);
+    try {
+        const summary = await compactIfNeeded(context.messages, context.summary, limit, (messages, previous) => {
+            console.log(chalk.dim(`🗜  Summarizing ${messages.length} earlier messages to stay within the ${limit}-token context...`));
+            return summarizeConversation(context.config, messages, previous);
+        });
+        if (summary) {
+            context.summary = summary;
+            await context.sessionManager.saveSummary(summary);
+        }
+    } catch (error) {
+        console.log(chalk.yellow(`⚠️  Could not summarize earlier messages: ${error instanceof Error ? error.message : String(error)}`));
+    }
+}
+
+/** Names the session from its first exchange in the background; it stays untitled on failure */
+function titleSessionInBackground(context: ChatContext) {
+    const id = context.sessionManager.currentId;
+    if (!id) return;
+    generateTitle(context.config, context.messages)
+        .then(title => context.sessionManager.applyGeneratedTitle(id, title))
+        .catch(() => { /* /history falls back to the first message */ });
+}
+
+function warnIfModelMissing(config: AgentConfig, models: string[]) {
+    // Some custom servers don't list models at all; only warn when we have a list
+    if (models.length > 0 && !models.includes(config.modelId)) {
+        console.log(chalk.yellow(`⚠️  Model "${config.modelId}" is not served by ${config.baseUrl}.`));
+        console.log(chalk.yellow(`   Available: ${models.join(', ')}`));
+        console.log(chalk.yellow(adapterFor(config).pullModel ? '   Use /model to pick one, or /pull to download it.' : '   Use /model to pick one.'));
+    }
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+/** One /history entry; branches are indented under their parent */
+function printSessionLine(session: Session, depth: number, currentId: string | null) {
+    const indent = '  ' + '   '.repeat(depth);
+    const firstMessage = session.messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').substring(0, 50);
+    const title = session.title ?? (firstMessage ? `"${firstMessage}"` : '(empty)');
+    const tags = session.tags.map(tag => `#${tag}`).join(' ');
+    const marker = session.id === currentId ? '▸' : session.pinned ? '📌' : depth > 0 ? '└─' : '•';
+    const branch = session.parentId ? ` - branched at msg ${session.branchedAt ?? '?'}` : '';
+
+    console.log(chalk.yellow(`${indent}${marker} ${title}`) + chalk.dim(` (${new Date(session.updatedAt).toLocaleString()} - ${session.messages.length} msgs${session.model ? ` - ${session.model}` : ''}${branch})`) + (tags ? chalk.cyan(` ${tags}`) : ''));
+    console.log(chalk.dim(`${indent}  ${session.id}`));
+}
+
+function agentOptions(context: ChatContext): AgentOptions {
+    return {
+        permissions: context.permissions, sessionManager: context.sessionManager, mcp: context.mcp, plugins: context.plugins, guardrails: context.guardrails,
+        onProviderEvent: event => context.onProviderEvent?.(event),
+    };
+}
+
+function describeGuardrailEvent(event: GuardrailEvent): string {
+    const where = event.stage === 'tool' ? `result of "${event.tool}"` : event.stage === 'input' ? 'your message' : 'the reply';
+    const verb = event.action === 'block' ? 'blocked' : event.action === 'redact' ? 'redacted in' : 'flagged in';
+    return `🛡  ${event.rule} (${event.category}) ${verb} ${where}${event.matches > 1 ? ` - ${event.matches} matches` : ''}`;
+}
+
+/** One line on startup; details are in /tools */
+function printMcpSummary(mcp: McpManager) {
+    const servers = mcp.status();
+    const tools = servers.reduce((count, server) => count + server.tools.length, 0);
+    const failed = servers.filter(server => server.state === 'failed');
+    console.log(chalk.dim(`MCP:      ${servers.length - failed.length}/${servers.length} servers connected, ${tools} tools`) +
+        (failed.length ? chalk.yellow(` (failed: ${failed.map(server => server.name).join(', ')} - see /tools)`) : ''));
+}
+
+/**
+ * Asked once per project, before anything is loaded from it: one answer
+ * covers everything in its .safellm that safellm would execute
+ */
+async function confirmProjectTrust() {
+    const { projectDir } = resolvePaths();
+    if (!projectDir || await isProjectTrusted(projectDir)) return;
+    const items = [
+        ...(await untrustedProjectSettings()).map(item => `config.json ${item}`),
+        ...(await pluginFiles(path.join(projectDir, 'plugins'))).map(file => `plugin ${path.basename(file)}`),
+    ];
+    if (items.length === 0) return;
+
+    console.log(chalk.bold.yellow(`\n🔐 ${projectDir} wants to change what safellm runs and where it connects:`));
+    items.forEach(item => console.log(chalk.yellow(`   ${item}`)));
+    console.log(chalk.dim('   Trusting the project lets it run code with your permissions through its plugins and the\n   MCP servers, commands and tool permissions in its config.json, and pick the model endpoint.\n   Only trust projects you know.'));
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>(resolve => {
+        rl.question(chalk.yellow('Trust this project? [y/N] '), ans => {
+            rl.close();
+            resolve(ans.trim().toLowerCase());
+        });
+    });
+    if (answer === 'y' || answer === 'yes') await trustProject(projectDir);
+    else console.log(chalk.dim('   Not trusted: only its generation settings are used this time.'));
+}
+
+/** Loaded plugins in one line; broken ones are listed so their authors notice */
+function printPluginSummary(plugins: PluginRegistry) {
+    if (plugins.plugins.length > 0) {
+        const tools = plugins.plugins.reduce((count, plugin) => count + plugin.toolIds.length, 0);
+        console.log(chalk.dim(`Plugins:  ${plugins.plugins.length} loaded, ${tools} tools, ${plugins.commands.length} commands`));
+    }
+    for (const failure of plugins.failures) {
+        console.log(chalk.yellow(`⚠️  Plugin ${failure.file} skipped: ${failure.error}`));
+    }
+    if (plugins.untrusted.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${plugins.untrusted.length} project plugin(s) in ${path.dirname(plugins.untrusted[0])} not loaded: the project isn't trusted`));
+    }
+}
+
+/** Index of the last user message, or -1 */
+function lastUserIndex(messages: SessionMessage[]): number {
+    return messages.map(m => m.role).lastIndexOf('user');
+}
+
+/** Drops messages from `length` on, along with a summary that covered any of them, and saves */
+async function truncateConversation(context: ChatContext, length: number) {
+    context.messages.length = length;
+    if (context.summary && context.summary.coveredMessages > length) {
+        context.summary = null;
+        await context.sessionManager.saveSummary(null);
+    }
+    await context.sessionManager.logInteraction(context.messages, { model: context.config.modelId, provider: context.config.provider });
+}
+
+/** Colors one line of a confirmation preview: a unified diff or a command line */
+function colorPreviewLine(line: string): string {
+    if (line.startsWith('$ ')) return chalk.bold(line);
+    if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return chalk.dim(line);
+}
+
 // Shared commands list for autocomplete and ghost text
-const COMMANDS = ['/help', '/config', '/clear', '/history', '/load ', '/rename ', '/exit', '/quit'];
+const COMMANDS = ['/help', '/config', '/profile ', '/model ', '/pull ', '/set ', '/params', '/context', '/clear', '/history ', '/search ', '/tag ', '/pin', '/retry', '/edit', '/undo', '/branch', '/load ', '/rename ', '/export ', '/tools ', '/where', '/exit', '/quit'];
+
+async function runChatSession(context: ChatContext): Promise<'quit' | 'configure'> {
+    const { sessionManager, messages } = context;
+
+    // Cached for tab completion, which has to answer synchronously
+    let profileNames = (await listProfiles()).map(p => p.name);
+    // Built-ins plus plugin commands; a trailing space marks commands that take arguments
+    const commands = [...COMMANDS, ...context.plugins.commands.map(command => `/${command.name}${command.usage ? ' ' : ''}`)];
 
-function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'quit' | 'configure'> {
     return new Promise((resolve) => {
         const completer = (line: string) => {
-            const hits = COMMANDS.filter((c) => c.startsWith(line));
-            return [hits.length ? hits : COMMANDS, line];
+            if (line.startsWith('/profile ')) {
+                const partial = line.substring(9);
+                const hits = profileNames.filter(name => name.startsWith(partial)).map(name => `/profile ${name}`);
+                return [hits, line];
+            }
+            if (line.startsWith('/export ') && !line.substring(8).includes(' ')) {
+                const partial = line.substring(8);
+                const hits = EXPORT_FORMATS.filter(f => f.startsWith(partial)).map(f => `/export ${f}`);
+                return [hits, line];
+            }
+            if (line.startsWith('/tools ')) {
+                const options = ['/tools reconnect', ...context.mcp.status().map(server => `/tools reconnect ${server.name}`)];
+                return [options.filter(option => option.startsWith(line)), line];
+            }
+            if (line.startsWith('/set ') && !line.substring(5).includes(' ')) {
+                const hits = PARAM_NAMES.map(name => `/set ${name} `).filter(option => option.startsWith(line));
+                return [hits, line];
+            }
+            if (line.startsWith('/model ')) {
+                const partial = line.substring(7);
+                const hits = context.models.filter(id => id.startsWith(partial)).map(id => `/model ${id}`);
+                return [hits, line];
+            }
+            const hits = commands.filter((c) => c.startsWith(line));
+            return [hits.length ? hits : commands, line];
         };
 
         const rl = readline.createInterface({
@@ -224,7 +402,7 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
                 // If just '/', wait for pause
                 if (line.length === 1) {
                     if (showRootSuggestion) {
-                        const match = COMMANDS[0]; // First suggestion
+                        const match = commands[0]; // First suggestion
                         suggestion = match.substring(line.length);
                     } else {
                         // Start timer to show suggestion after pause
@@ -238,7 +416,7 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
                     }
                 } else {
                     // Deeper typing (e.g. /c), show immediate
-                    const match = COMMANDS.find(c => c.startsWith(line) && c !== line);
+                    const match = commands.find(c => c.startsWith(line) && c !== line);
                     if (match) {
                         suggestion = match.substring(line.length);
                     }
@@ -271,19 +449,217 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
 
         const cleanup = () => {
             process.stdin.removeListener('keypress', keypressHandler);
+            context.permissions.prompt = null;
+            context.guardrails.onTrigger = null;
+            context.onProviderEvent = null;
+        };
+
+        // Set by /edit: the next line replaces the user message at this index
+        let editIndex: number | null = null;
+
+        // Set while a reply is streaming or /pull is downloading, so Ctrl+C cancels it instead of exiting
+        let activeGeneration: AbortController | null = null;
+        let activePrinter: StreamPrinter | null = null;
+
+        // "ask" tools pause the stream here until the user decides
+        // ("ask" tools, and file writes and commands, which pass a diff or command line as `preview`)
+        context.permissions.prompt = (toolId, args, preview) => new Promise<ApprovalDecision>(resolve => {
+            activePrinter?.interrupt();
+            if (preview) {
+                console.log(chalk.bold.yellow(`\n🔐 "${toolId}" needs your confirmation:`));
+                console.log(preview.split('\n').map(line => `   ${colorPreviewLine(line)}`).join('\n'));
+            } else {
+                console.log(chalk.bold.yellow(`\n🔐 The agent wants to run "${toolId}" with:`));
+                console.log(chalk.yellow(JSON.stringify(args, null, 2).split('\n').map(line => `   ${line}`).join('\n')));
+            }
+
+            const question = preview
+                ? 'Proceed? [y]es / [n]o / ne[v]er this session: '
+                : 'Allow? [y]es / [n]o / [a]lways this session / ne[v]er this session: ';
+            const signal = activeGeneration?.signal ?? new AbortController().signal;
+            signal.addEventListener('abort', () => resolve('deny'), { once: true });
+            rl.question(chalk.yellow(question), { signal }, answer => {
+                const choice = answer.trim().toLowerCase();
+                if (choice === 'y' || choice === 'yes') resolve('allow');
+                else if (!preview && (choice === 'a' || choice === 'always')) resolve('always');
+                else if (choice === 'v' || choice === 'never') resolve('never');
+                else resolve('deny');
+            });
+        });
+
+        // Every trigger is shown and kept in the session; while a reply streams, notices wait until it's rendered
+        const guardrailNotices: string[] = [];
+        context.guardrails.onTrigger = event => {
+            const notice = (event.action === 'block' ? chalk.red : chalk.yellow)(describeGuardrailEvent(event));
+            if (activePrinter) guardrailNotices.push(notice);
+            else console.log(notice);
+            void sessionManager.logGuardrail(event);
+        };
+
+        // Retries and failovers are shown as they happen; the endpoint that answered is kept for the reply
+        let answeredBy: Endpoint | null = null;
+        context.onProviderEvent = event => {
+            if (event.type === 'answered') {
+                answeredBy = event.endpoint;
+                return;
+            }
+            activePrinter?.interrupt();
+            if (event.type === 'retry') {
+                console.log(chalk.yellow(`⚠️  ${describeEndpoint(event.endpoint)}: ${event.error} - retry ${event.attempt} in ${(event.delayMs / 1000).toFixed(1)}s`));
+            } else {
+                console.log(chalk.yellow(`↪  ${describeEndpoint(event.from)} failed (${event.error}), trying ${describeEndpoint(event.to)}`));
+            }
+        };
+
+        /** Applies the input guardrails; returns the text to send, or null if it was blocked */
+        const guardInput = (input: string): string | null => {
+            const scanned = context.guardrails.scan(input, 'input');
+            if (scanned.blocked) {
+                console.log(chalk.red(`Message not sent: it matched the "${scanned.blocked.id}" guardrail.`));
+                return null;
+            }
+            return scanned.text;
         };
 
-        const messages: any[] = []; // Session local messages. 
-        // NOTE: In a real app we might want to preserve context across reloads? 
-        // For now, let's keep it simple: fresh context on reload, or we could pass it in?
-        // The user just wants to reconfig. Usually that implies restart. 
-        // Let's assume fresh context for simplicity, or we could pass messages in.
+        rl.on('SIGINT', () => {
+            if (activeGeneration) {
+                activeGeneration.abort();
+                return;
+            }
+            cleanup();
+            rl.close();
+            resolve('quit');
+        });
+
+        /** Streams a reply to the conversation so far, which ends with a user message */
+        const respond = async () => {
+            await compactContext(context);
+
+            const printer = new StreamPrinter();
+            const toolCalls: ToolCallRecord[] = [];
+            const pendingCalls = new Map<string, ToolCallRecord>();
+            // Deltas pass through these first, so nothing is printed or saved before it's scanned
+            const textGuard = context.guardrails.streamGuard();
+            const reasoningGuard = context.guardrails.streamGuard();
+            activePrinter = printer;
+            activeGeneration = new AbortController();
+            answeredBy = null;
+            const { generation } = context.config;
+
+            try {
+                const stream = await context.agent.stream(activeMessages(messages, context.summary), {
+                    abortSignal: activeGeneration.signal,
+                    instructions: turnInstructions(context.config, context.summary),
+                    modelSettings: modelSettings(generation),
+                });
+
+                for await (const chunk of stream.fullStream) {
+                    if (chunk.type === 'text-delta') {
+                        printer.writeText(textGuard.push(chunk.payload.text));
+                    } else if (chunk.type === 'reasoning-delta') {
+                        printer.writeReasoning(reasoningGuard.push(chunk.payload.text));
+                    } else if (chunk.type === 'tool-call') {
+                        const call: ToolCallRecord = { name: chunk.payload.toolName, args: chunk.payload.args };
+                        toolCalls.push(call);
+                        pendingCalls.set(chunk.payload.toolCallId, call);
+                    } else if (chunk.type === 'tool-result') {
+                        const call = pendingCalls.get(chunk.payload.toolCallId);
+                        if (call) call.result = chunk.payload.result;
+                    } else if (chunk.type === 'error') {
+                        throw chunk.payload.error;
+                    }
+                    if (textGuard.blocked || reasoningGuard.blocked) {
+                        activeGeneration.abort();
+                        break;
+                    }
+                }
+            } catch (error) {
+                if (!activeGeneration.signal.aborted) {
+                    printer.finish();
+                    if (error instanceof ProviderUnavailableError) console.error(chalk.red(`\n❌ ${error.message}`));
+                    else console.error('\nError generating response:', error);
+                }
+            }
+
+            const blocked = textGuard.blocked ?? reasoningGuard.blocked;
+            const aborted = activeGeneration.signal.aborted && !blocked;
+            activeGeneration = null;
+            printer.writeReasoning(reasoningGuard.end());
+            printer.writeText(textGuard.end());
+            activePrinter = null;
+            printer.finish();
+
+            const responseText = printer.answer;
+            if (!responseText && !printer.reasoning && !aborted) {
+                console.error('⚠️ Empty response generated.');
+            }
+
+            if (responseText) {
+                // Swap the raw streamed answer for the markdown-rendered version
+                const shown = printer.clearAnswer();
+                if (shown) {
+                    console.log(chalk.dim('─'.repeat(process.stdout.columns || 80)));
+                    console.log(renderMarkdown(shown));
+                    console.log(chalk.dim('─'.repeat(process.stdout.columns || 80)));
+                }
+
+                const endpoint: Endpoint = answeredBy ?? context.config;
+                if (endpoint.baseUrl !== context.config.baseUrl || endpoint.modelId !== context.config.modelId) {
+                    console.log(chalk.cyan(`↪  Answered by fallback ${describeEndpoint(endpoint)}`));
+                }
+                messages.push({
+                    role: 'assistant',
+                    content: responseText,
+                    timestamp: new Date().toISOString(),
+                    ...(printer.thinking && { thinking: printer.thinking }),
+                    ...(toolCalls.length > 0 && { toolCalls }),
+                    provider: endpoint.provider,
+                    model: endpoint.modelId,
+                    endpoint: endpoint.baseUrl,
+                    ...(generation && { generation }),
+                });
+                await sessionManager.logInteraction(messages, { model: endpoint.modelId, provider: endpoint.provider });
+
+                if (messages.filter(m => m.role === 'assistant').length === 1) {
+                    titleSessionInBackground(context);
+                }
+            }
+
+            if (aborted) {
+                console.log(chalk.yellow('\n⏹  Generation cancelled.'));
+            }
+            guardrailNotices.splice(0).forEach(notice => console.log(notice));
+            if (blocked) {
+                console.log(chalk.red(`\n🛡  Reply stopped: it matched the "${blocked.id}" guardrail.`));
+            }
+        };
 
         rl.prompt();
 
-        rl.on('line', async (line) => {
+        /** One line of input: an edit, a slash command or a message */
+        const handleLine = async (line: string) => {
             const input = line.trim();
 
+            if (editIndex !== null) {
+                const index = editIndex;
+                editIndex = null;
+                if (!input) {
+                    console.log(chalk.dim('Edit cancelled.'));
+                } else {
+                    const content = guardInput(input);
+                    if (content === null) {
+                        rl.prompt();
+                        return;
+                    }
+                    await truncateConversation(context, index);
+                    messages.push({ role: 'user', content, timestamp: new Date().toISOString() });
+                    await sessionManager.logInteraction(messages, { model: context.config.modelId, provider: context.config.provider });
+                    await respond();
+                }
+                rl.prompt();
+                return;
+            }
+
             if (input === 'exit' || input === 'quit' || input === '/exit' || input === '/quit') {
                 cleanup();
                 rl.close();
@@ -302,41 +678,344 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
                 console.log(chalk.bold.yellow('\nAvailable Commands:'));
                 console.log(chalk.yellow('  /help   - Show this help message'));
                 console.log(chalk.yellow('  /config - Run setup wizard again'));
+                console.log(chalk.yellow('  /profile [name] - List provider profiles or switch to one'));
+                console.log(chalk.yellow('  /model [id|number] - List served models or switch to one'));
+                console.log(chalk.yellow('  /pull [id] - Download a model onto the server (Ollama; defaults to the current one)'));
+                console.log(chalk.yellow('  /set <param> <value|default> - Change a generation parameter for this chat'));
+                console.log(chalk.yellow('  /params - Show the generation parameters in use'));
+                console.log(chalk.yellow('  /context - Show context window usage'));
                 console.log(chalk.yellow('  /clear  - Clear conversation context'));
-                console.log(chalk.yellow('  /history - List past conversation sessions'));
+                console.log(chalk.yellow('  /retry  - Regenerate the last answer'));
+                console.log(chalk.yellow('  /edit   - Edit the last message and regenerate'));
+                console.log(chalk.yellow('  /undo   - Remove the last exchange'));
+                console.log(chalk.yellow('  /branch [n] - Fork the session (optionally keeping only the first n messages)'));
+                console.log(chalk.yellow('  /history [page] [#tag] [since:<date>] [until:<date>] - List past sessions'));
+                console.log(chalk.yellow('  /search <query> - Search past sessions'));
                 console.log(chalk.yellow('  /load <id> - Load a past session'));
                 console.log(chalk.yellow('  /rename <name> - Rename current session'));
+                console.log(chalk.yellow('  /tag [+tag|-tag ...] - Show or change tags of current session'));
+                console.log(chalk.yellow('  /pin    - Pin or unpin current session'));
+                console.log(chalk.yellow('  /export [markdown|html|jsonl] [path] - Export current session'));
+                console.log(chalk.yellow('  /tools [reconnect [server]] - List plugins, MCP servers and their tools, or reconnect'));
+                console.log(chalk.yellow('  /where  - Show which config and data files are in effect'));
                 console.log(chalk.yellow('  /exit   - Exit the agent'));
+                if (context.plugins.commands.length > 0) {
+                    console.log(chalk.bold.yellow('\nPlugin Commands:'));
+                    context.plugins.commands.forEach(command => {
+                        console.log(chalk.yellow(`  /${command.name}${command.usage ? ` ${command.usage}` : ''} - ${command.description}`));
+                    });
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/profile' || input.startsWith('/profile ')) {
+                const name = input.substring(8).trim();
+                const profiles = await listProfiles();
+                profileNames = profiles.map(p => p.name);
+
+                if (!name) {
+                    console.log(chalk.bold.yellow('\nProfiles:'));
+                    profiles.forEach(p => {
+                        const marker = p.name === context.config.profile ? chalk.green('●') : ' ';
+                        const suffix = p.isDefault ? chalk.dim(' (default)') : '';
+                        console.log(chalk.yellow(`  ${marker} ${p.name} - ${p.config.provider} ${p.config.baseUrl} [${p.config.modelId}]`) + suffix);
+                    });
+                    console.log('');
+                    rl.prompt();
+                    return;
+                }
+
+                try {
+                    const newConfig = await loadConfig(name, { passphrase: question => promptHidden(question, rl) });
+                    const { error, models } = await checkConnection(newConfig);
+                    if (error) {
+                        console.log(chalk.red(`\n❌ Connection failed to ${newConfig.baseUrl}: ${error}`));
+                        console.log(chalk.yellow(`Staying on profile "${context.config.profile}".\n`));
+                    } else {
+                        context.config = newConfig;
+                        context.agent = createAgent(newConfig, agentOptions(context));
+                        context.models = models;
+                        console.log(chalk.green(`\n🔀 Switched to profile "${name}" (${newConfig.provider}, ${newConfig.modelId})\n`));
+                        warnIfModelMissing(newConfig, models);
+                    }
+                } catch (error) {
+                    if (!(error instanceof ConfigError)) throw error;
+                    console.log(chalk.red(`\n❌ ${error.message}\n`));
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/model' || input.startsWith('/model ')) {
+                const arg = input.substring(6).trim();
+                const { error, models } = await checkConnection(context.config);
+                if (error) {
+                    console.log(chalk.red(`\n❌ Could not list models from ${context.config.baseUrl}: ${error}\n`));
+                    rl.prompt();
+                    return;
+                }
+                context.models = models;
+
+                if (!arg) {
+                    if (models.length === 0) {
+                        console.log(chalk.yellow(`\nThe server did not report any models. Current model: ${context.config.modelId}\n`));
+                    } else {
+                        console.log(chalk.bold.yellow('\nAvailable Models:'));
+                        models.forEach((id, i) => {
+                            const marker = id === context.config.modelId ? chalk.green('●') : ' ';
+                            console.log(chalk.yellow(`  ${marker} ${i + 1}. ${id}`));
+                        });
+                        console.log('');
+                    }
+                    rl.prompt();
+                    return;
+                }
+
+                const index = Number(arg);
+                const modelId = Number.isInteger(index) && index >= 1 && index <= models.length ? models[index - 1] : arg;
+                if (models.length > 0 && !models.includes(modelId)) {
+                    console.log(chalk.red(`\n❌ Model not served by ${context.config.baseUrl}: ${modelId}\n`));
+                } else {
+                    context.config = { ...context.config, modelId };
+                    context.agent = createAgent(context.config, agentOptions(context));
+                    console.log(chalk.green(`\n🔀 Switched to model ${modelId}\n`));
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/pull' || input.startsWith('/pull ')) {
+                const modelId = input.substring(5).trim() || context.config.modelId;
+                const adapter = adapterFor(context.config);
+                if (!adapter.pullModel) {
+                    console.log(chalk.yellow(`\n${adapter.label} servers can't download models; use their own tools.\n`));
+                    rl.prompt();
+                    return;
+                }
+                console.log(chalk.dim(`\n⬇️  Pulling ${modelId}... (Ctrl+C to cancel)`));
+                const pull = activeGeneration = new AbortController();
+                try {
+                    let last = '';
+                    let rewriting = false;
+                    await adapter.pullModel(context.config, modelId, progress => {
+                        const percent = progress.total ? ` ${Math.floor(((progress.completed ?? 0) / progress.total) * 100)}%` : '';
+                        const line = `   ${progress.status}${percent}`;
+                        if (line === last) return;
+                        last = line;
+                        // Download progress rewrites one line; each new step gets its own
+                        if (progress.total && process.stdout.isTTY) {
+                            process.stdout.write(`\r\x1b[K${line}`);
+                            rewriting = true;
+                            return;
+                        }
+                        if (rewriting) process.stdout.write('\n');
+                        rewriting = false;
+                        console.log(line);
+                    }, pull.signal);
+                    if (rewriting) process.stdout.write('\n');
+                    context.models = (await checkConnection(context.config)).models;
+                    console.log(chalk.green(`✅ ${modelId} is ready${modelId === context.config.modelId ? '' : ` - /model ${modelId} to use it`}\n`));
+                } catch (error) {
+                    if (pull.signal.aborted) console.log(chalk.yellow(`\n⏹  Pull of ${modelId} cancelled.\n`));
+                    else console.log(chalk.red(`\n❌ Could not pull ${modelId}: ${error instanceof Error ? error.message : String(error)}\n`));
+                } finally {
+                    activeGeneration = null;
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/set' || input.startsWith('/set ')) {
+                // The value is kept as typed, so stop sequences keep their spaces
+                const [, name, value] = input.substring(4).trim().match(/^(\S+)\s+(.+)$/) ?? [];
+                if (!name || !value) {
+                    console.log(chalk.yellow(`\nUsage: /set <param> <value|default> - params: ${PARAM_NAMES.join(', ')}\n`));
+                    rl.prompt();
+                    return;
+                }
+                try {
+                    const generation = setParam(context.config.generation ?? {}, name, value);
+                    const { generation: _, ...rest } = context.config;
+                    // Only for this chat; /profile reloads the profile's own
+                    context.config = Object.keys(generation).length > 0 ? { ...rest, generation } : rest;
+                    console.log(chalk.green(`\n⚙️  ${value === 'default' ? `${name} left to the server` : `${name} set to ${value}`}\n`));
+                } catch (error) {
+                    if (!(error instanceof GenerationParamError)) throw error;
+                    console.log(chalk.red(`\n❌ ${error.message}\n`));
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/params') {
+                console.log(chalk.bold.yellow('\nGeneration Parameters:'));
+                describeParams(context.config.generation ?? {}).forEach(param => {
+                    const value = param.value ?? chalk.dim('server default');
+                    console.log(chalk.yellow(`  ${param.name.padEnd(12)} ${value}`) + chalk.dim(` - ${param.description}`));
+                });
+                console.log(chalk.yellow(`  System prompt: ${context.config.systemPrompt ? 'from the profile' : 'built-in'}`));
+                console.log('');
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/context') {
+                const usage = contextUsage(messages, context.summary, contextLimitFor(context.config));
+                const percent = Math.min(100, Math.round((usage.used / usage.limit) * 100));
+                const width = 30;
+                const filled = Math.round((percent / 100) * width);
+                const bar = '█'.repeat(filled) + '░'.repeat(width - filled);
+                const color = percent >= 75 ? chalk.red : percent >= 50 ? chalk.yellow : chalk.green;
+
+                console.log(chalk.bold.yellow('\nContext Window:'));
+                console.log(`  ${color(bar)} ${percent}%`);
+                console.log(chalk.yellow(`  ~${usage.used} of ${usage.limit} tokens (${context.config.modelId})`));
+                console.log(chalk.yellow(`  Messages: ${usage.activeMessages} in context (~${usage.messageTokens} tokens)`));
+                if (usage.summarizedMessages) {
+                    console.log(chalk.yellow(`  Summary:  ${usage.summarizedMessages} older messages (~${usage.summaryTokens} tokens)`));
+                }
+                if (!context.config.contextWindow) {
+                    console.log(chalk.dim('  Limit guessed from the model ID; set "contextWindow" in the profile to override.'));
+                }
+                console.log('');
                 rl.prompt();
                 return;
             }
 
             if (input === '/clear') {
                 messages.length = 0;
+                context.summary = null;
                 console.clear();
                 console.log(chalk.green('\n🧹 Context cleared!\n'));
-                await sessionManager.createSession();
+                await sessionManager.createSession({ model: context.config.modelId, provider: context.config.provider });
+                context.permissions.resetSession();
                 rl.prompt();
                 return;
             }
 
-            if (input === '/history') {
-                const sessions = await sessionManager.listSessions();
-                console.log(chalk.bold.yellow('\nPast Sessions:'));
-                sessions.slice(0, 10).forEach(s => {
-                    console.log(chalk.yellow(`  • ${s.id} (${new Date(s.createdAt).toLocaleString()} - ${s.messages.length} msgs)`));
-                });
+            if (input === '/retry') {
+                const last = lastUserIndex(messages);
+                if (last < 0) {
+                    console.log(chalk.red('\n❌ Nothing to retry.\n'));
+                } else {
+                    await truncateConversation(context, last + 1);
+                    console.log(chalk.dim('🔁 Regenerating the last answer...'));
+                    await respond();
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/undo') {
+                const last = lastUserIndex(messages);
+                if (last < 0) {
+                    console.log(chalk.red('\n❌ Nothing to undo.\n'));
+                } else {
+                    const removed = messages[last].content.replace(/\s+/g, ' ').substring(0, 50);
+                    await truncateConversation(context, last);
+                    console.log(chalk.green(`\n↩️  Removed the last exchange: "${removed}"\n`));
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/edit') {
+                const last = lastUserIndex(messages);
+                if (last < 0) {
+                    console.log(chalk.red('\n❌ No message to edit.\n'));
+                    rl.prompt();
+                } else {
+                    editIndex = last;
+                    console.log(chalk.dim('✏️  Edit the message and press Enter to regenerate (empty line cancels):'));
+                    rl.prompt();
+                    // Readline edits a single line, so line breaks become spaces
+                    rl.write(messages[last].content.replace(/\s*\n\s*/g, ' '));
+                }
+                return;
+            }
+
+            if (input === '/branch' || input.startsWith('/branch ')) {
+                const arg = input.substring(7).trim();
+                const count = arg ? Number(arg) : messages.length;
+                if (!Number.isInteger(count) || count < 0 || count > messages.length) {
+                    console.log(chalk.red(`Usage: /branch [n] - n between 0 and ${messages.length}`));
+                } else {
+                    const parentId = sessionManager.currentId;
+                    const branch = await sessionManager.branchSession(count);
+                    if (branch) {
+                        messages.length = count;
+                        context.summary = branch.summary ?? null;
+                        console.log(chalk.green(`\n🌿 Branched ${parentId} at message ${count} into ${branch.id}`));
+                        console.log(chalk.dim(`   The original is unchanged; /load ${parentId} to go back.\n`));
+                    } else {
+                        console.log(chalk.red('\n❌ No active session to branch.\n'));
+                    }
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/history' || input.startsWith('/history ')) {
+                const parsed = parseHistoryArgs(input.substring(8).trim().split(/\s+/).filter(Boolean));
+                if (typeof parsed === 'string') {
+                    console.log(chalk.red(`${parsed}. Usage: /history [page] [#tag] [since:<date>] [until:<date>]`));
+                    rl.prompt();
+                    return;
+                }
+
+                // Every start opens a session; ones never written to aren't worth listing
+                const sessions = (await sessionManager.listSessions(parsed.filter))
+                    .filter(s => s.messages.length > 0 || s.id === sessionManager.currentId);
+
+                // Branches are listed under their parent; pages count top-level sessions
+                const listed = new Set(sessions.map(s => s.id));
+                const roots = sessions.filter(s => !s.parentId || !listed.has(s.parentId));
+                const pages = Math.max(1, Math.ceil(roots.length / HISTORY_PAGE_SIZE));
+                const page = Math.min(parsed.page, pages);
+                console.log(chalk.bold.yellow(`\nPast Sessions (page ${page}/${pages}, ${sessions.length} total):`));
+
+                const printTree = (session: Session, depth: number) => {
+                    printSessionLine(session, depth, sessionManager.currentId);
+                    sessions.filter(s => s.parentId === session.id).forEach(child => printTree(child, depth + 1));
+                };
+                roots.slice((page - 1) * HISTORY_PAGE_SIZE, page * HISTORY_PAGE_SIZE).forEach(root => printTree(root, 0));
+                if (page < pages) {
+                    console.log(chalk.dim(`\n  /history ${page + 1}${input.substring(8).replace(/(^|\s)\d+(?=\s|$)/, '')} for more`));
+                }
                 console.log('');
                 rl.prompt();
                 return;
             }
 
+            if (input === '/search' || input.startsWith('/search ')) {
+                const query = input.substring(7).trim();
+                if (!query) {
+                    console.log(chalk.red('Please provide a query. Usage: /search <query>'));
+                } else {
+                    const results = await sessionManager.searchSessions(query, { limit: 10 });
+                    if (results.length === 0) {
+                        console.log(chalk.yellow(`\nNo sessions match "${query}".\n`));
+                    } else {
+                        console.log(chalk.bold.yellow(`\nSessions matching "${query}":`));
+                        results.forEach((r, i) => {
+                            console.log(chalk.yellow(`  ${i + 1}. ${r.sessionId}`) + chalk.dim(` (${new Date(r.date).toLocaleString()} - ${r.matches} matching msgs)`));
+                            if (r.snippet) console.log(chalk.dim(`     ${r.role}: ${r.snippet}`));
+                        });
+                        console.log(chalk.dim('\nUse /load <id> to open a session.\n'));
+                    }
+                }
+                rl.prompt();
+                return;
+            }
+
             if (input.startsWith('/load ')) {
                 const sessionId = input.substring(6).trim();
                 const session = await sessionManager.loadSession(sessionId);
                 if (session) {
                     messages.length = 0;
                     messages.push(...session.messages);
+                    context.summary = session.summary ?? null;
                     console.log(chalk.green(`\n📂 Loaded session: ${session.id}\n`));
                     const lastMsgs = messages.slice(-2);
                     if (lastMsgs.length > 0) {
@@ -350,6 +1029,124 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
                 return;
             }
 
+            if (input === '/export' || input.startsWith('/export ')) {
+                const parsed = parseExportArgs(input.substring(7).trim().split(/\s+/).filter(Boolean));
+                const session = sessionManager.currentId ? await sessionManager.loadSession(sessionManager.currentId) : null;
+                if (!parsed) {
+                    console.log(chalk.red('Unknown format. Usage: /export [markdown|html|jsonl] [path]'));
+                } else if (!session) {
+                    console.log(chalk.red('\n❌ No active session to export.\n'));
+                } else {
+                    try {
+                        const written = await exportSession(session, parsed.format, parsed.path);
+                        console.log(chalk.green(`\n📤 Exported ${session.id} as ${parsed.format} to ${written}\n`));
+                    } catch (error) {
+                        console.log(chalk.red(`\n❌ Export failed: ${error instanceof Error ? error.message : String(error)}\n`));
+                    }
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/tag' || input.startsWith('/tag ')) {
+                const session = sessionManager.currentId ? await sessionManager.loadSession(sessionManager.currentId) : null;
+                if (!session) {
+                    console.log(chalk.red('\n❌ No active session to tag.\n'));
+                } else {
+                    const tags = new Set(session.tags);
+                    for (const arg of input.substring(4).trim().split(/\s+/).filter(Boolean)) {
+                        const tag = normalizeTag(arg.replace(/^[+-]/, ''));
+                        if (!tag) continue;
+                        if (arg.startsWith('-')) tags.delete(tag);
+                        else tags.add(tag);
+                    }
+                    await sessionManager.updateSession(session.id, { tags: [...tags] });
+                    console.log(chalk.green(`\n🏷  Tags: ${tags.size ? [...tags].map(tag => `#${tag}`).join(' ') : '(none)'}\n`));
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/tools' || input.startsWith('/tools ')) {
+                const [action, server] = input.substring(6).trim().split(/\s+/);
+                if (action === 'reconnect') {
+                    console.log(chalk.dim(`\nReconnecting ${server ?? 'all MCP servers'}...`));
+                    if (!await context.mcp.reconnect(server)) {
+                        console.log(chalk.red(`\n❌ Unknown MCP server: ${server}\n`));
+                        rl.prompt();
+                        return;
+                    }
+                    // The agent's tool set is fixed when it is created
+                    context.agent = createAgent(context.config, agentOptions(context));
+                } else if (action) {
+                    console.log(chalk.red('Usage: /tools [reconnect [server]]'));
+                    rl.prompt();
+                    return;
+                }
+
+                const { plugins, failures } = context.plugins;
+                if (plugins.length > 0 || failures.length > 0) {
+                    console.log(chalk.bold.yellow('\nPlugins:'));
+                    plugins.forEach(plugin => {
+                        const contents = [...plugin.toolIds.map(id => `plugin_${id}`), ...plugin.commands.map(name => `/${name}`)].join(', ');
+                        console.log(`${chalk.green('●')} ${chalk.yellow(plugin.file)} ${chalk.dim(contents)}`);
+                    });
+                    failures.forEach(failure => console.log(`${chalk.red('✖')} ${chalk.yellow(failure.file)}\n    ${chalk.red(failure.error)}`));
+                }
+
+                const servers = context.mcp.status();
+                if (servers.length === 0) {
+                    console.log(chalk.yellow('\nNo MCP servers configured. Add them under "mcpServers" in config.json.\n'));
+                } else {
+                    console.log(chalk.bold.yellow('\nMCP Servers:'));
+                    for (const status of servers) {
+                        const marker = status.state === 'connected' ? chalk.green('●') : status.state === 'failed' ? chalk.red('✖') : chalk.dim('○');
+                        console.log(`${marker} ${chalk.yellow(status.name)} ${chalk.dim(`(${status.transport}, ${status.state}${status.state === 'connected' ? `, ${status.tools.length} tools` : ''})`)}`);
+                        if (status.error) console.log(chalk.red(`    ${status.error}`));
+                        status.tools.forEach(tool => console.log(`    ${tool.name}` + chalk.dim(tool.description ? ` - ${tool.description.split('\n')[0]}` : '')));
+                    }
+                    console.log('');
+                }
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/where') {
+                const paths = resolvePaths();
+                const active = new Set((await activeConfigLayers()).map(layer => layer.file));
+                const exists = async (target: string) => fs.access(target).then(() => true, () => false);
+                const show = async (label: string, target: string) => {
+                    const found = await exists(target);
+                    console.log(`${found ? chalk.green('●') : chalk.dim('○')} ${label.padEnd(10)} ${found ? target : chalk.dim(`${target} (not created yet)`)}`);
+                };
+
+                console.log(chalk.bold.yellow('\nConfig files') + chalk.dim(' (later ones override earlier ones):'));
+                for (const layer of paths.configLayers) {
+                    const loaded = active.has(layer.file);
+                    console.log(`${loaded ? chalk.green('●') : chalk.dim('○')} ${layer.scope.padEnd(10)} ${loaded ? layer.file : chalk.dim(`${layer.file} (not found)`)}`);
+                }
+                console.log(chalk.bold.yellow('\nData:'));
+                await show('sessions', paths.sessionDir);
+                await show('memory', paths.memoryFile);
+                await show('secrets', paths.secretsFile);
+                for (const dir of paths.pluginDirs) await show('plugins', dir);
+                console.log(chalk.dim(`\nProject directory: ${paths.projectDir ?? 'none (create .safellm/ in a project to override these)'}\n`));
+                rl.prompt();
+                return;
+            }
+
+            if (input === '/pin') {
+                const session = sessionManager.currentId ? await sessionManager.loadSession(sessionManager.currentId) : null;
+                if (!session) {
+                    console.log(chalk.red('\n❌ No active session to pin.\n'));
+                } else {
+                    await sessionManager.updateSession(session.id, { pinned: !session.pinned });
+                    console.log(chalk.green(session.pinned ? '\n📌 Session unpinned.\n' : '\n📌 Session pinned.\n'));
+                }
+                rl.prompt();
+                return;
+            }
+
             if (input.startsWith('/rename ')) {
                 const newName = input.substring(8).trim();
                 if (!newName) {
@@ -371,67 +1168,87 @@ function runChatSession(agent: Agent, sessionManager: SessionManager): Promise<'
                 return;
             }
 
-            if (!input) {
+            const pluginCommand = context.plugins.commands.find(command => input === `/${command.name}` || input.startsWith(`/${command.name} `));
+            if (pluginCommand) {
+                const print = (text: string) => console.log(text);
+                try {
+                    const output = await pluginCommand.run(input.substring(pluginCommand.name.length + 1).trim(), {
+                        config: context.config,
+                        sessionId: sessionManager.currentId,
+                        print,
+                    });
+                    if (typeof output === 'string') print(output);
+                } catch (error) {
+                    console.log(chalk.red(`\n❌ /${pluginCommand.name} failed: ${error instanceof Error ? error.message : String(error)}\n`));
+                }
                 rl.prompt();
                 return;
             }
 
-            try {
-                console.log(chalk.dim('Thinking...'));
-                messages.push({ role: 'user', content: input });
-                await sessionManager.logInteraction(messages);
-
-                const result = await agent.generate(messages);
-                let responseText = result.text;
-                // @ts-ignore
-                if (!responseText && result.reasoningText) {
-                    // @ts-ignore
-                    responseText = result.reasoningText;
-                }
-
-                if (!responseText) {
-                    console.error('⚠️ Empty response generated.');
-                }
-
-                // ... Rendering Logic ...
-                // Reusing the formatting logic from before, abbreviated for brevity in replacement?
-                // No, must copy it all or we lose it.
-                // --- COPYING RENDERING LOGIC ---
-                let formattedResponse = responseText.replace(/^\s*<think>([\s\S]*?)<\/think>/, (match, content) => {
-                    const lines = content.split('\n');
-                    let minIndent = Infinity;
-                    for (const line of lines) {
-                        if (line.trim()) {
-                            const indent = line.match(/^\s*/)?.[0].length || 0;
-                            minIndent = Math.min(minIndent, indent);
-                        }
-                    }
-                    if (minIndent === Infinity) minIndent = 0;
-                    const processedLines = lines.map((line: string) => line.slice(minIndent).trimRight());
-                    let excerpt = processedLines.join('\n> ');
-                    return `\n> **Thinking Process:**\n> ${excerpt}\n\n---\n\n**Response:**\n\n`;
-                });
-
-                // Helper to setup renderer needed since we are in a new scope?
-                // Actually 'renderer' and 'marked' are global in the module scope, so they are fine.
-
-                const rendered = marked.parse(formattedResponse);
-                console.log(chalk.dim('─'.repeat(process.stdout.columns || 80)));
-                console.log(rendered);
-                console.log(chalk.dim('─'.repeat(process.stdout.columns || 80)));
-
-                const historyContent = responseText.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
-                messages.push({ role: 'assistant', content: historyContent || responseText });
-                await sessionManager.logInteraction(messages);
+            if (!input) {
+                rl.prompt();
+                return;
+            }
 
-            } catch (error) {
-                console.error('Error generating response:', error);
+            const content = guardInput(input);
+            if (content === null) {
+                rl.prompt();
+                return;
             }
 
+            messages.push({ role: 'user', content, timestamp: new Date().toISOString() });
+            await sessionManager.logInteraction(messages, { model: context.config.modelId, provider: context.config.provider });
+
+            await respond();
             rl.prompt();
+        };
+
+        // An error no command expects is shown, rather than ending the chat as an unhandled rejection
+        rl.on('line', line => {
+            handleLine(line).catch(error => {
+                activeGeneration = null;
+                activePrinter = null;
+                console.log(chalk.red(`\n❌ ${error instanceof Error ? error.message : String(error)}\n`));
+                rl.prompt();
+            });
         });
     });
 }
 
+async function run() {
+    let options;
+    try {
+        options = parseCliArgs();
+    } catch (error) {
+        if (!(error instanceof CliUsageError)) throw error;
+        process.stderr.write(`${error.message}\n\n${USAGE}`);
+        process.exit(EXIT_USAGE);
+    }
+
+    if (options.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    configurePaths({ configFile: options.config, dataDir: options.dataDir });
+    if (options.record) recordTo(options.record);
+
+    if (options.command === 'export') {
+        process.exitCode = await runExportCommand(options);
+        return;
+    }
+
+    if (options.command === 'serve') {
+        process.exitCode = await runServeCommand(options);
+        return;
+    }
+
+    if (isNonInteractive(options)) {
+        process.exitCode = await runNonInteractive(options);
+        return;
+    }
+
+    await main(options);
+}
 
-main();
+run();
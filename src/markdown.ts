@@ -1,13 +1,23 @@
 import { marked } from 'marked';
 import TerminalRenderer from 'marked-terminal';
 import chalk from 'chalk';
+import stripAnsi from 'strip-ansi';
 
+// Configure marked to use terminal renderer
 const terminalRenderer = new TerminalRenderer({
     blockquote: chalk.gray.italic,
     firstHeading: chalk.bold.underline.blue,
     heading: chalk.bold.blue,
     code: chalk.yellow,
     strong: chalk.bold.cyan,
+    hr: chalk.dim,
+    reflowText: true,
+    width: process.stdout.columns ? process.stdout.columns - 5 : 80,
+    tab: 2,
+    list: (body: string, ordered?: boolean) => {
+        // Custom list formatting if needed, or just let marked-terminal handle it with smaller tabs
+        return body;
+    }
 });
 
 // Workaround for marked v15 strict validation
@@ -29,12 +39,18 @@ markedRendererMethods.forEach(method => {
                 // @ts-expect-error - dynamic assignment
                 terminalRenderer.parser = this.parser;
             }
+
+            // Synchronize options which marked v15 injects into 'this'
+            // Safely merge options ensuring gfm and others are present
+            terminalRenderer.options = { ...terminalRenderer.options, ...(this.options || {}) };
+
             // Custom Check for Thinking Process
             if (method === 'blockquote') {
                 const text = args[0];
                 if (typeof text === 'string' && text.includes('Thinking Process:')) {
                     // Apply different styling for Thinking Process
-                    return chalk.blue(terminalRenderer.blockquote(text));
+                    // Strip existing styles (like gray/italic/blue) and apply plain dim
+                    return chalk.dim(stripAnsi(terminalRenderer.blockquote(text)));
                 }
             }
 
@@ -44,10 +60,12 @@ markedRendererMethods.forEach(method => {
     }
 });
 
-marked.use({ renderer });
+marked.use({
+    renderer,
+    gfm: true,
+    breaks: false,
+});
 
-console.log('Testing markdown rendering:');
-console.log(marked('**Bold Text**'));
-console.log(marked('# Header'));
-console.log(marked('> This is a blockquote'));
-console.log(marked('> Thinking Process:\n> \n> This is thought content.'));
+export function renderMarkdown(text: string): string {
+    return marked.parse(text) as string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Minimal stdio MCP server used by test-mcp.ts (not a test on its own).
+ * Run with `node --import tsx src/mcp-test-server.ts`.
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { z } from 'zod';
+
+const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+
+server.registerTool('echo', {
+    description: 'Echo the given text back',
+    inputSchema: { text: z.string().describe('Text to echo'), shout: z.boolean().optional() },
+}, async ({ text, shout }) => ({
+    content: [{ type: 'text', text: shout ? text.toUpperCase() : text }],
+}));
+
+server.registerTool('add', {
+    description: 'Add two numbers',
+    inputSchema: { a: z.number(), b: z.number() },
+    outputSchema: { sum: z.number() },
+}, async ({ a, b }) => ({
+    content: [{ type: 'text', text: String(a + b) }],
+    structuredContent: { sum: a + b },
+}));
+
+server.registerTool('fail', {
+    description: 'Always fails',
+    inputSchema: {},
+}, async () => ({
+    content: [{ type: 'text', text: 'something went wrong' }],
+    isError: true,
+}));
+
+// Names that only differ in characters or after 64 characters, for the key collision test
+if (process.argv.includes('--colliding')) {
+    const long = 'x'.repeat(70);
+    for (const name of ['a.b', 'a_b', `${long}1`, `${long}2`]) {
+        server.registerTool(name, { description: name, inputSchema: {} }, async () => ({ content: [{ type: 'text', text: name }] }));
+    }
+}
+
+server.connect(new StdioServerTransport()).catch(console.error);
@@ -0,0 +1,271 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createTool } from '@mastra/core/tools';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * One entry of `mcpServers` in config.json: either a command that speaks MCP
+ * over stdio, or the URL of an MCP server on this machine (streamable HTTP).
+ */
+export interface McpServerConfig {
+    command?: string;
+    args?: string[];
+    /** Added to a minimal inherited environment (PATH, HOME, ...) */
+    env?: Record<string, string>;
+    cwd?: string;
+    url?: string;
+    headers?: Record<string, string>;
+    /** Set to false to keep the entry without connecting */
+    enabled?: boolean;
+    /** Limit for connecting and for each tool call, in seconds (30) */
+    timeoutSeconds?: number;
+}
+
+export interface McpToolInfo {
+    /** Key the model calls the tool by */
+    name: string;
+    /** Namespaced ID, "<server>.<tool>", used for permissions */
+    id: string;
+    description?: string;
+}
+
+export interface McpServerStatus {
+    name: string;
+    transport: 'stdio' | 'http';
+    state: 'connected' | 'failed' | 'disabled';
+    error?: string;
+    tools: McpToolInfo[];
+}
+
+interface Connection {
+    status: McpServerStatus;
+    client?: Client;
+    /** The server's own tool definitions, by MCP tool name */
+    definitions: { name: string; description?: string; inputSchema: unknown }[];
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+// Tool names sent to the model must match ^[a-zA-Z0-9_-]{1,64}$
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** JSON Schema (as MCP servers describe tool inputs) to the zod schema Mastra tools expect */
+export function jsonSchemaToZod(schema: any): z.ZodTypeAny {
+    if (!schema || typeof schema !== 'object') return z.unknown();
+
+    let type: z.ZodTypeAny;
+    const kind = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0 && schema.enum.every((v: unknown) => typeof v === 'string')) {
+        type = z.enum(schema.enum as [string, ...string[]]);
+    } else if (kind === 'string') {
+        type = z.string();
+    } else if (kind === 'integer') {
+        type = z.number().int();
+    } else if (kind === 'number') {
+        type = z.number();
+    } else if (kind === 'boolean') {
+        type = z.boolean();
+    } else if (kind === 'array') {
+        type = z.array(jsonSchemaToZod(schema.items));
+    } else if (kind === 'object' || schema.properties) {
+        const required = new Set<string>(schema.required ?? []);
+        const shape = Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => {
+            const converted = jsonSchemaToZod(property);
+            return [key, required.has(key) ? converted : converted.optional()];
+        }));
+        type = z.object(shape);
+    } else {
+        type = z.unknown();
+    }
+
+    return schema.description ? type.describe(schema.description) : type;
+}
+
+/** Strict tool calling sends null for omitted optional arguments; MCP servers expect them left out */
+function dropNulls(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(dropNulls);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null).map(([k, v]) => [k, dropNulls(v)]));
+}
+
+// Replacing characters and cutting long names can give two tools one key ("a.b" and "a_b"),
+// so a key that isn't the plain name carries a hash of the tool's ID
+function toolKey(server: string, tool: string): string {
+    const plain = `mcp_${server}_${tool}`;
+    const key = plain.replace(/[^a-zA-Z0-9_-]/g, '_');
+    if (key === plain && key.length <= MAX_TOOL_NAME_LENGTH) return key;
+    const hash = createHash('sha256').update(`${server}.${tool}`).digest('hex').slice(0, 8);
+    return `${key.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/** MCP tool results as the model sees them: structured content if given, else the text parts */
+function toToolResult(result: any): unknown {
+    const parts = (result.content ?? []).map((part: any) =>
+        part.type === 'text' ? part.text : `[${part.type}${part.mimeType ? `: ${part.mimeType}` : ''}]`);
+    const text = parts.join('\n');
+
+    if (result.isError) return { error: 'MCP_TOOL_ERROR', message: text || 'The tool reported an error.' };
+    return result.structuredContent ?? { result: text };
+}
+
+/**
+ * Connects to the configured MCP servers and exposes their tools as Mastra
+ * tools. A server that fails to start or answer is reported in `status()`
+ * and skipped; the rest keep working, and `reconnect` tries again.
+ */
+export class McpManager {
+    private connections = new Map<string, Connection>();
+
+    constructor(private servers: Record<string, McpServerConfig> = {}) { }
+
+    get serverCount(): number {
+        return Object.keys(this.servers).length;
+    }
+
+    /** Connects every enabled server in parallel; never throws */
+    async connectAll(): Promise<void> {
+        await Promise.all(Object.keys(this.servers).map(name => this.connect(name)));
+    }
+
+    /** Reconnects one server, or all of them; returns false for an unknown name */
+    async reconnect(name?: string): Promise<boolean> {
+        if (name && !this.servers[name]) return false;
+        const names = name ? [name] : Object.keys(this.servers);
+        await Promise.all(names.map(async server => {
+            await this.disconnect(server);
+            await this.connect(server);
+        }));
+        return true;
+    }
+
+    /** Servers in config order */
+    status(): McpServerStatus[] {
+        return Object.keys(this.servers).flatMap(name => this.connections.get(name)?.status ?? []);
+    }
+
+    /** Tools of all connected servers, keyed by the name the model calls them by */
+    tools(): Record<string, any> {
+        const tools: Record<string, any> = {};
+        for (const [server, connection] of this.connections) {
+            if (connection.status.state !== 'connected') continue;
+            for (const definition of connection.definitions) {
+                const info = connection.status.tools.find(tool => tool.id === `${server}.${definition.name}`)!;
+                const schema = jsonSchemaToZod(definition.inputSchema);
+                tools[info.name] = createTool({
+                    id: info.id,
+                    description: `[${server}] ${definition.description ?? definition.name}`,
+                    inputSchema: schema instanceof z.ZodObject ? schema : z.object({}),
+                    execute: async (input: any, context: any) => this.callTool(server, definition.name, input, context?.abortSignal),
+                });
+            }
+        }
+        return tools;
+    }
+
+    async close(): Promise<void> {
+        await Promise.all([...this.connections.keys()].map(name => this.disconnect(name)));
+    }
+
+    private async callTool(server: string, tool: string, args: unknown, signal?: AbortSignal): Promise<unknown> {
+        const connection = this.connections.get(server);
+        if (!connection?.client || connection.status.state !== 'connected') {
+            return { error: 'MCP_SERVER_UNAVAILABLE', message: `The MCP server "${server}" is not connected. Tell the user; they can reconnect it with /tools reconnect ${server}.` };
+        }
+
+        try {
+            const result = await connection.client.callTool(
+                { name: tool, arguments: dropNulls(args ?? {}) as Record<string, unknown> },
+                undefined,
+                { timeout: this.timeoutFor(server), signal },
+            );
+            return toToolResult(result);
+        } catch (error) {
+            return { error: 'MCP_TOOL_ERROR', message: `${server}.${tool} failed: ${describeError(error)}` };
+        }
+    }
+
+    private timeoutFor(server: string): number {
+        return (this.servers[server].timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    }
+
+    private async connect(name: string): Promise<void> {
+        const config = this.servers[name];
+        const transport = config.url ? 'http' : 'stdio';
+        const connection: Connection = { status: { name, transport, state: 'failed', tools: [] }, definitions: [] };
+        this.connections.set(name, connection);
+
+        if (config.enabled === false) {
+            connection.status.state = 'disabled';
+            return;
+        }
+
+        const client = new Client({ name: 'safellm', version: '1.0.0' });
+        let stderr = '';
+        try {
+            let clientTransport;
+            if (config.url) {
+                const url = new URL(config.url);
+                if (!LOCAL_HOSTS.has(url.hostname)) throw new Error(`Only MCP servers on this machine are supported, not ${url.hostname}`);
+                clientTransport = new StreamableHTTPClientTransport(url, { requestInit: { headers: config.headers } });
+            } else if (config.command) {
+                const stdio = new StdioClientTransport({
+                    command: config.command,
+                    args: config.args,
+                    env: { ...getDefaultEnvironment(), ...config.env },
+                    cwd: config.cwd,
+                    // Kept for error messages instead of printing over the chat
+                    stderr: 'pipe',
+                });
+                stdio.stderr?.on('data', (chunk: Buffer) => {
+                    stderr = (stderr + chunk.toString('utf-8')).slice(-2000);
+                });
+                clientTransport = stdio;
+            } else {
+                throw new Error('Needs either "command" or "url"');
+            }
+
+            await client.connect(clientTransport, { timeout: this.timeoutFor(name) });
+            const { tools } = await client.listTools(undefined, { timeout: this.timeoutFor(name) });
+
+            // A key already taken (e.g. server "a_b" with tool "c" and server "a" with "b_c") would replace that tool
+            const taken = new Map([...this.connections.values()].flatMap(other => other.status.tools.map(tool => [tool.name, tool.id])));
+            const skipped: string[] = [];
+            connection.client = client;
+            connection.status.state = 'connected';
+            for (const tool of tools) {
+                const info = { name: toolKey(name, tool.name), id: `${name}.${tool.name}`, description: tool.description };
+                if (taken.has(info.name)) {
+                    skipped.push(`${info.id} (same name as ${taken.get(info.name)})`);
+                    continue;
+                }
+                taken.set(info.name, info.id);
+                connection.definitions.push(tool);
+                connection.status.tools.push(info);
+            }
+            if (skipped.length > 0) connection.status.error = `Tools skipped because their names collide: ${skipped.join(', ')}`;
+
+            // A server that exits later shows up as failed in /tools
+            client.onclose = () => {
+                if (this.connections.get(name) !== connection || connection.status.state !== 'connected') return;
+                connection.status.state = 'failed';
+                connection.status.error = `Connection closed${stderr.trim() ? `: ${stderr.trim().split('\n').pop()}` : ''}`;
+            };
+        } catch (error) {
+            const detail = stderr.trim() ? ` (${stderr.trim().split('\n').pop()})` : '';
+            connection.status.error = `${describeError(error)}${detail}`;
+            await client.close().catch(() => undefined);
+        }
+    }
+
+    private async disconnect(name: string): Promise<void> {
+        const connection = this.connections.get(name);
+        this.connections.delete(name);
+        await connection?.client?.close().catch(() => undefined);
+    }
+}
@@ -0,0 +1,294 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { resolvePaths } from './paths';
+
+// Token overlap at or above this counts as the same memory
+const DUPLICATE_THRESHOLD = 0.75;
+
+export interface MemoryEntry {
+    id: string;
+    content: string;
+    category: string;
+    tags: string[];
+    createdAt: string;
+    updatedAt: string;
+    /** ID of the entry this one replaced */
+    supersedes?: string;
+    /** ID of the entry that replaced this one; superseded entries are kept for history */
+    supersededBy?: string;
+}
+
+interface MemoryFile {
+    version: 1;
+    /** Set once MEMORY.md has been imported so it isn't imported twice */
+    legacyImported: boolean;
+    entries: MemoryEntry[];
+}
+
+export interface SaveResult {
+    entry: MemoryEntry;
+    /** True when an existing near-duplicate was returned instead of saving */
+    duplicate: boolean;
+}
+
+export interface SearchOptions {
+    category?: string;
+    tag?: string;
+    limit?: number;
+}
+
+export interface SearchResult {
+    entry: MemoryEntry;
+    score: number;
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'is', 'are', 'was', 'were', 'to', 'of', 'and', 'or', 'in', 'on', 'for', 'with', 'it', 'that', 'this', 'me', 'my', 'i']);
+
+function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/['’]s\b/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(token => token && !STOP_WORDS.has(token));
+}
+
+function similarity(a: string, b: string): number {
+    const setA = new Set(tokenize(a));
+    const setB = new Set(tokenize(b));
+    if (setA.size === 0 || setB.size === 0) return 0;
+
+    let shared = 0;
+    setA.forEach(token => { if (setB.has(token)) shared++; });
+    return shared / (setA.size + setB.size - shared);
+}
+
+function normalizeTags(tags: string[] = []): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function newId(): string {
+    return `mem-${randomUUID().slice(0, 8)}`;
+}
+
+export class MemoryStore {
+    // Serializes read-modify-write cycles; tool calls can run concurrently
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /** Paths default to the memory file in effect (see paths.ts), looked up on each use */
+    constructor(
+        private customFilePath?: string,
+        private customLegacyFilePath?: string,
+    ) { }
+
+    private get filePath(): string {
+        return this.customFilePath ?? resolvePaths().memoryFile;
+    }
+
+    private get legacyFilePath(): string {
+        return this.customLegacyFilePath ?? resolvePaths().legacyMemoryFile;
+    }
+
+    /** Active (non-superseded) entries, oldest first */
+    async list(options: { category?: string; includeSuperseded?: boolean } = {}): Promise<MemoryEntry[]> {
+        const file = await this.read();
+        return file.entries.filter(entry =>
+            (options.includeSuperseded || !entry.supersededBy) &&
+            (!options.category || entry.category === options.category.toLowerCase())
+        );
+    }
+
+    async get(id: string): Promise<MemoryEntry | null> {
+        const file = await this.read();
+        return file.entries.find(entry => entry.id === id) ?? null;
+    }
+
+    async save(content: string, options: { category?: string; tags?: string[] } = {}): Promise<SaveResult> {
+        return this.mutate(file => {
+            const text = content.trim();
+            const duplicate = this.findDuplicate(file, text);
+            if (duplicate) {
+                return { entry: duplicate, duplicate: true };
+            }
+
+            const now = new Date().toISOString();
+            const entry: MemoryEntry = {
+                id: newId(),
+                content: text,
+                category: options.category?.trim().toLowerCase() || 'general',
+                tags: normalizeTags(options.tags),
+                createdAt: now,
+                updatedAt: now,
+            };
+            file.entries.push(entry);
+            return { entry, duplicate: false };
+        });
+    }
+
+    /**
+     * Replaces an entry with new content. The old entry is kept but marked as
+     * superseded so the history of a changing fact stays visible.
+     */
+    async replace(id: string, content: string, options: { category?: string; tags?: string[] } = {}): Promise<MemoryEntry | null> {
+        return this.mutate(file => {
+            const old = file.entries.find(entry => entry.id === id && !entry.supersededBy);
+            if (!old) return null;
+
+            const now = new Date().toISOString();
+            const entry: MemoryEntry = {
+                id: newId(),
+                content: content.trim(),
+                category: options.category?.trim().toLowerCase() || old.category,
+                tags: options.tags ? normalizeTags(options.tags) : old.tags,
+                createdAt: old.createdAt,
+                updatedAt: now,
+                supersedes: old.id,
+            };
+            old.supersededBy = entry.id;
+            old.updatedAt = now;
+            file.entries.push(entry);
+            return entry;
+        });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.mutate(file => {
+            const index = file.entries.findIndex(entry => entry.id === id);
+            if (index === -1) return false;
+
+            // Keep supersession links of neighbours pointing at real entries
+            const [removed] = file.entries.splice(index, 1);
+            file.entries.forEach(entry => {
+                if (entry.supersedes === removed.id) entry.supersedes = removed.supersedes;
+                if (entry.supersededBy === removed.id) entry.supersededBy = removed.supersededBy;
+            });
+            return true;
+        });
+    }
+
+    /** Ranks active entries by keyword overlap with the query, newest first on ties */
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+        const entries = await this.list({ category: options.category });
+        const queryTokens = tokenize(query);
+        const tag = options.tag?.toLowerCase();
+
+        const results: SearchResult[] = [];
+        for (const entry of entries) {
+            if (tag && !entry.tags.includes(tag)) continue;
+
+            const contentTokens = tokenize(entry.content);
+            const labels = [entry.category, ...entry.tags];
+            let score = 0;
+            for (const token of queryTokens) {
+                if (contentTokens.includes(token)) score += 2;
+                else if (contentTokens.some(t => t.startsWith(token) || token.startsWith(t))) score += 1;
+                if (labels.some(label => label.includes(token))) score += 1.5;
+            }
+
+            // An empty query with a filter lists everything in that filter
+            if (score > 0 || (queryTokens.length === 0 && (tag || options.category))) {
+                results.push({ entry, score });
+            }
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score || b.entry.updatedAt.localeCompare(a.entry.updatedAt))
+            .slice(0, options.limit ?? 5);
+    }
+
+    private findDuplicate(file: MemoryFile, content: string): MemoryEntry | undefined {
+        return file.entries.find(entry => !entry.supersededBy && similarity(entry.content, content) >= DUPLICATE_THRESHOLD);
+    }
+
+    private async mutate<T>(change: (file: MemoryFile) => T): Promise<T> {
+        const run = this.queue.then(async () => {
+            const file = await this.load();
+            const result = change(file);
+            await this.write(file);
+            return result;
+        });
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    // Reads take their turn as well: loading may import MEMORY.md or move a corrupt file aside
+    private async read(): Promise<MemoryFile> {
+        const run = this.queue.then(() => this.load());
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Only call through the queue (mutate or read) */
+    private async load(): Promise<MemoryFile> {
+        let data: string | null = null;
+        try {
+            data = await fs.readFile(this.filePath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+
+        let file: MemoryFile = { version: 1, legacyImported: false, entries: [] };
+        if (data !== null) {
+            try {
+                file = JSON.parse(data);
+            } catch {
+                // Kept for recovery rather than overwritten; MEMORY.md was imported into it already
+                const moved = `${this.filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+                await fs.rename(this.filePath, moved);
+                process.stderr.write(`${this.filePath} could not be read and was moved to ${moved}; starting with no memories.\n`);
+                file = { version: 1, legacyImported: true, entries: [] };
+                await this.write(file);
+            }
+        }
+
+        if (!file.legacyImported) {
+            await this.importLegacy(file);
+            file.legacyImported = true;
+            await this.write(file);
+        }
+        return file;
+    }
+
+    private async write(file: MemoryFile) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, JSON.stringify(file, null, 2));
+    }
+
+    /**
+     * Migration: imports `- [timestamp] text` lines from MEMORY.md.
+     * A line that near-duplicates an earlier one supersedes it, so repeated
+     * saves of the same preference collapse into the newest version.
+     */
+    private async importLegacy(file: MemoryFile) {
+        let data: string;
+        try {
+            data = await fs.readFile(this.legacyFilePath, 'utf-8');
+        } catch {
+            return;
+        }
+
+        for (const line of data.split('\n')) {
+            const match = line.match(/^\s*-\s*\[([^\]]+)\]\s*(.+)$/);
+            if (!match) continue;
+
+            const timestamp = isNaN(Date.parse(match[1])) ? new Date().toISOString() : match[1];
+            const content = match[2].trim();
+            const entry: MemoryEntry = {
+                id: newId(),
+                content,
+                category: 'general',
+                tags: ['imported'],
+                createdAt: timestamp,
+                updatedAt: timestamp,
+            };
+
+            const duplicate = this.findDuplicate(file, content);
+            if (duplicate) {
+                duplicate.supersededBy = entry.id;
+                entry.supersedes = duplicate.id;
+                entry.createdAt = duplicate.createdAt;
+            }
+            file.entries.push(entry);
+        }
+    }
+}
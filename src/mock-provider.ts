@@ -0,0 +1,214 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { AgentConfig } from './config-wizard';
+
+/** A tool call the scripted model makes, keyed by the tool's name as the model sees it (e.g. readFileTool) */
+export interface MockToolCall {
+    name: string;
+    /** Every argument, with null for optional ones left out (the provider runs in strict mode) */
+    args: Record<string, unknown>;
+}
+
+/** A response exactly as the provider sent it, captured by --record */
+export interface RecordedResponse {
+    status: number;
+    contentType: string;
+    body: string;
+}
+
+/** One model response in a fixture: scripted (text and/or tool calls) or recorded */
+export interface MockResponse {
+    /** Only answers requests whose last message contains this text; others are used in order */
+    match?: string;
+    /** Answers every matching request instead of being used up; for titles and summaries */
+    repeat?: boolean;
+    /** Reply text; may start with a <think> block */
+    text?: string;
+    toolCalls?: MockToolCall[];
+    recorded?: RecordedResponse;
+    /** The request a recorded response answered, kept for reference when reading the fixture */
+    request?: unknown;
+}
+
+/** On-disk shape of a fixture file */
+export interface MockFixture {
+    responses: MockResponse[];
+}
+
+/** Raised for a missing or malformed fixture; messages are safe to show */
+export class MockFixtureError extends Error { }
+
+// Shared by every model built on the same fixture, so the chat agent, the titler
+// and the summarizer draw from one sequence
+const replays = new Map<string, { responses: Promise<MockResponse[]>; used: Set<number> }>();
+
+let recordTarget: string | null = null;
+// Recorded exchanges are appended one after another, never interleaved
+let recordQueue: Promise<unknown> = Promise.resolve();
+
+/** Set from --record: every real provider response is appended to this fixture */
+export function recordTo(file: string | null): void {
+    recordTarget = file && path.resolve(file);
+}
+
+async function readFixture(file: string): Promise<MockResponse[]> {
+    let fixture: MockFixture;
+    try {
+        fixture = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') throw new MockFixtureError(`Mock fixture not found: ${file}`);
+        throw new MockFixtureError(`Mock fixture ${file} is not valid JSON: ${error.message}`);
+    }
+    if (!Array.isArray(fixture?.responses)) {
+        throw new MockFixtureError(`Mock fixture ${file} has no "responses" list.`);
+    }
+    return fixture.responses;
+}
+
+function lastMessageText(request: any): string {
+    const content = request?.messages?.at(-1)?.content;
+    return typeof content === 'string' ? content : JSON.stringify(content ?? '');
+}
+
+/** First response with a `match` the request fits, else the next unused one without */
+function pickResponse(responses: MockResponse[], used: Set<number>, request: any): MockResponse | null {
+    const text = lastMessageText(request);
+    const available = (index: number) => responses[index].repeat || !used.has(index);
+    let index = responses.findIndex((response, i) => response.match !== undefined && text.includes(response.match) && available(i));
+    if (index < 0) index = responses.findIndex((response, i) => response.match === undefined && available(i));
+    if (index < 0) return null;
+    used.add(index);
+    return responses[index];
+}
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Renders a scripted response in the OpenAI chat completions wire format, streamed or not */
+function scriptedResponse(response: MockResponse, request: any): Response {
+    const id = `chatcmpl-mock-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const toolCalls = (response.toolCalls ?? []).map((call, index) => ({
+        index,
+        id: `call_${index}_${randomUUID().slice(0, 8)}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+    }));
+    const finishReason = toolCalls.length > 0 ? 'tool_calls' : 'stop';
+    const text = response.text ?? '';
+    const usage = { prompt_tokens: 0, completion_tokens: Math.ceil(text.length / 4), total_tokens: Math.ceil(text.length / 4) };
+
+    if (!request.stream) {
+        return json({
+            id,
+            object: 'chat.completion',
+            created,
+            model: request.model,
+            choices: [{
+                index: 0,
+                message: { role: 'assistant', content: text || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) },
+                finish_reason: finishReason,
+            }],
+            usage,
+        });
+    }
+
+    const chunk = (delta: object, finish: string | null = null, extra: object = {}) =>
+        `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: request.model, choices: [{ index: 0, delta, finish_reason: finish }], ...extra })}\n\n`;
+    // Small pieces, so tags split across deltas are exercised like with a real model
+    const events = [
+        chunk({ role: 'assistant', content: '' }),
+        ...(text.match(/[\s\S]{1,8}/g) ?? []).map(piece => chunk({ content: piece })),
+        ...toolCalls.map(call => chunk({ tool_calls: [call] })),
+        chunk({}, finishReason, { usage }),
+        'data: [DONE]\n\n',
+    ];
+    return new Response(events.join(''), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/**
+ * A fetch that answers the OpenAI client from a fixture instead of a server.
+ * `/models` lists the profile's model; chat requests get the next fitting
+ * response, and a 404 explaining what was asked once the fixture runs out
+ * (not a 5xx, which would be retried).
+ */
+function replayFetch(config: AgentConfig): typeof fetch {
+    return async (input, init) => {
+        if (!config.fixturePath) {
+            throw new MockFixtureError(`Profile "${config.profile ?? 'default'}" uses the mock provider but sets no fixturePath.`);
+        }
+        const file = path.resolve(config.fixturePath);
+        let replay = replays.get(file);
+        if (!replay) {
+            replay = { responses: readFixture(file), used: new Set() };
+            replays.set(file, replay);
+        }
+        const responses = await replay.responses;
+
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (url.endsWith('/models')) {
+            return json({ object: 'list', data: [{ id: config.modelId, object: 'model' }] });
+        }
+
+        const request = JSON.parse(typeof init?.body === 'string' ? init.body : '{}');
+        const response = pickResponse(responses, replay.used, request);
+        if (!response) {
+            return json({ error: { message: `Mock fixture ${file} has no response left for: ${lastMessageText(request).slice(0, 200)}`, type: 'mock_fixture_exhausted' } }, 404);
+        }
+        if (response.recorded) {
+            return new Response(response.recorded.body, { status: response.recorded.status, headers: { 'Content-Type': response.recorded.contentType } });
+        }
+        return scriptedResponse(response, request);
+    };
+}
+
+async function appendRecording(file: string, entry: MockResponse): Promise<void> {
+    let fixture: MockFixture = { responses: [] };
+    try {
+        fixture = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+    fixture.responses.push(entry);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+/**
+ * Wraps fetch so each chat response is also written to the fixture. The
+ * body is teed, so streaming to the terminal isn't held up. Request headers
+ * (and with them the API key) are never recorded.
+ */
+function recordingFetch(file: string): typeof fetch {
+    return async (input, init) => {
+        const response = await fetch(input, init);
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (!response.body || url.endsWith('/models')) return response;
+
+        const [forCaller, forFixture] = response.body.tee();
+        const request = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+        const contentType = response.headers.get('content-type') ?? 'application/json';
+        const body = new Response(forFixture).text();
+        recordQueue = recordQueue
+            .then(async () => appendRecording(file, { request, recorded: { status: response.status, contentType, body: await body } }))
+            .catch(error => {
+                process.stderr.write(`Could not record to ${file}: ${error instanceof Error ? error.message : String(error)}\n`);
+            });
+
+        return new Response(forCaller, { status: response.status, statusText: response.statusText, headers: response.headers });
+    };
+}
+
+/** The fetch the model client should use: a replay for mock profiles, a recorder under --record, else the default */
+export function providerFetch(config: AgentConfig): typeof fetch | undefined {
+    if (config.provider === 'mock') return replayFetch(config);
+    if (recordTarget) return recordingFetch(recordTarget);
+    return undefined;
+}
+
+/** Waits for recordings still being written; call before exiting */
+export function recordingsWritten(): Promise<unknown> {
+    return recordQueue;
+}
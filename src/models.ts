@@ -0,0 +1,36 @@
+import type { AgentConfig } from './config-wizard';
+import { providerFetch } from './mock-provider';
+
+/**
+ * Fetches the model IDs served at `${baseUrl}/models`.
+ *
+ * LM Studio, Ollama's OpenAI-compatible endpoint and vLLM all return the
+ * OpenAI shape (`{ data: [{ id }] }`); Ollama's native `/api/tags` shape
+ * (`{ models: [{ name }] }`) is accepted too in case the base URL points there.
+ * Throws when the server can't be reached or answers with an error status.
+ */
+export async function fetchModels(config: Pick<AgentConfig, 'baseUrl' | 'apiKey'> & Partial<AgentConfig>): Promise<string[]> {
+    const request = config.provider ? providerFetch(config as AgentConfig) ?? fetch : fetch;
+    const response = await request(`${config.baseUrl}/models`, {
+        headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
+    });
+
+    if (!response.ok) {
+        throw new Error(`Status ${response.status}`);
+    }
+
+    let body: any;
+    try {
+        body = await response.json();
+    } catch {
+        // Reachable but not JSON; treat as an unknown model list
+        return [];
+    }
+
+    const entries: any[] = Array.isArray(body?.data) ? body.data : Array.isArray(body?.models) ? body.models : [];
+    const ids = entries
+        .map(entry => typeof entry === 'string' ? entry : entry?.id ?? entry?.name ?? entry?.model)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+    return [...new Set(ids)].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,226 @@
+import chalk from 'chalk';
+import { createAgent, builtInToolIds, turnInstructions, summarizeConversation, generateTitle } from './agent';
+import { contextLimitFor, compactIfNeeded, activeMessages, type ConversationSummary } from './context-window';
+import { ensureConfig, untrustedProjectSettings, loadToolPermissions, loadMcpServers, loadGuardrails, ConfigError } from './config-wizard';
+import { ToolPermissions } from './permissions';
+import { McpManager } from './mcp';
+import { loadPlugins, type PluginRegistry } from './plugins';
+import { Guardrails, type GuardrailEvent } from './guardrails';
+import { SessionManager, type SessionMessage } from './session-manager';
+import { renderMarkdown } from './markdown';
+import { parseExportArgs, renderSession, exportSession } from './session-export';
+import { USAGE, type CliOptions } from './cli';
+import { describeEndpoint, type Endpoint, type ProviderEvent } from './failover';
+import { modelSettings } from './generation';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+/** Trust is only asked for in the chat, where someone can answer; scripts and the server just say what was skipped */
+export async function warnIfUntrusted(plugins: PluginRegistry): Promise<void> {
+    if (plugins.untrusted.length > 0 || (await untrustedProjectSettings()).length > 0) {
+        process.stderr.write('Project plugins and config.json settings not used: start the chat in this project once to trust it.\n');
+    }
+}
+
+function fail(options: CliOptions, message: string, code: number): number {
+    if (options.json) {
+        process.stdout.write(JSON.stringify({ error: message }) + '\n');
+    }
+    process.stderr.write(`${message}\n`);
+    return code;
+}
+
+/**
+ * One-shot mode: sends a single prompt (argv and/or stdin) through the
+ * same agent as the chat loop and writes the answer to stdout.
+ * Returns the process exit code.
+ */
+export async function runNonInteractive(options: CliOptions): Promise<number> {
+    if (options.plain || options.json) {
+        chalk.level = 0;
+    }
+
+    // Only when it is the prompt or "-" asks for it, so an idle stdin (cron, CI) can't hang
+    // a prompt from argv; `cat notes.txt | safellm - "summarize this"` sends both
+    const piped = options.prompt === undefined || options.stdin ? (await readStdin()).trim() : '';
+    const prompt = [options.prompt?.trim(), piped].filter(Boolean).join('\n\n');
+
+    if (!prompt) {
+        process.stderr.write(USAGE);
+        return fail(options, 'No prompt given.', EXIT_USAGE);
+    }
+
+    let config;
+    try {
+        config = await ensureConfig({ interactive: false, profile: options.profile });
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        return fail(options, error.message, EXIT_USAGE);
+    }
+    // No prompt is set, so "ask" tools are refused rather than hanging a script
+    const sessionManager = new SessionManager();
+    const mcp = new McpManager(await loadMcpServers());
+    await mcp.connectAll();
+    // Broken plugins are skipped quietly here; the chat shows why at startup
+    const plugins = await loadPlugins({ reservedToolIds: builtInToolIds() });
+    await warnIfUntrusted(plugins);
+    const guardrailEvents: GuardrailEvent[] = [];
+    const guardrails = new Guardrails(await loadGuardrails(), event => {
+        guardrailEvents.push(event);
+        process.stderr.write(`Guardrail ${event.rule} (${event.action}) at ${event.stage}${event.tool ? ` in ${event.tool}` : ''}\n`);
+        void sessionManager.logGuardrail(event);
+    });
+    // Retries and failovers go to stderr like guardrail notices; stdout holds only the answer
+    let endpoint: Endpoint = config;
+    const onProviderEvent = (event: ProviderEvent) => {
+        if (event.type === 'answered') endpoint = event.endpoint;
+        else if (event.type === 'retry') process.stderr.write(`${describeEndpoint(event.endpoint)}: ${event.error}, retry ${event.attempt} in ${(event.delayMs / 1000).toFixed(1)}s\n`);
+        else process.stderr.write(`${describeEndpoint(event.from)} failed (${event.error}), trying ${describeEndpoint(event.to)}\n`);
+    };
+    const agent = createAgent(config, { permissions: new ToolPermissions(await loadToolPermissions()), sessionManager, mcp, plugins, guardrails, onProviderEvent });
+
+    // MCP server processes would otherwise keep the process alive
+    try {
+        const messages: SessionMessage[] = [];
+        let summary: ConversationSummary | null = null;
+        if (options.session) {
+            const session = await sessionManager.loadSession(options.session);
+            if (!session) {
+                return fail(options, `Session not found: ${options.session}`, EXIT_USAGE);
+            }
+            messages.push(...session.messages);
+            summary = session.summary ?? null;
+        } else {
+            await sessionManager.createSession({ model: config.modelId, provider: config.provider });
+        }
+
+        const input = guardrails.scan(prompt, 'input');
+        if (input.blocked) {
+            return fail(options, `Prompt not sent: it matched the "${input.blocked.id}" guardrail.`, EXIT_FAILURE);
+        }
+
+        messages.push({ role: 'user', content: input.text, timestamp: new Date().toISOString() });
+        await sessionManager.logInteraction(messages, { model: config.modelId, provider: config.provider });
+
+        let result;
+        try {
+            const compacted = await compactIfNeeded(messages, summary, contextLimitFor(config),
+                (older, previous) => summarizeConversation(config, older, previous));
+            if (compacted) {
+                summary = compacted;
+                await sessionManager.saveSummary(summary);
+            }
+
+            result = await agent.generate(activeMessages(messages, summary), { instructions: turnInstructions(config, summary), modelSettings: modelSettings(config.generation) });
+        } catch (error) {
+            return fail(options, `Error generating response: ${error instanceof Error ? error.message : String(error)}`, EXIT_FAILURE);
+        }
+
+        const scanned = guardrails.scan(result.text, 'output');
+        const scannedReasoning = guardrails.scan(result.reasoningText ?? '', 'output');
+        const blocked = scanned.blocked ?? scannedReasoning.blocked;
+        if (blocked) {
+            return fail(options, `Reply withheld: it matched the "${blocked.id}" guardrail.`, EXIT_FAILURE);
+        }
+
+        const answer = scanned.text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trim();
+        const reasoning = scannedReasoning.text || scanned.text.match(/<think>([\s\S]*?)(<\/think>|$)/)?.[1]?.trim() || null;
+        const toolCalls = result.toolCalls.map(call => ({
+            name: call.payload.toolName,
+            args: call.payload.args,
+            result: result.toolResults.find(r => r.payload.toolCallId === call.payload.toolCallId)?.payload.result,
+        }));
+
+        if (answer) {
+            messages.push({
+                role: 'assistant',
+                content: answer,
+                timestamp: new Date().toISOString(),
+                ...(reasoning && { thinking: reasoning }),
+                ...(toolCalls.length > 0 && { toolCalls }),
+                provider: endpoint.provider,
+                model: endpoint.modelId,
+                endpoint: endpoint.baseUrl,
+                ...(config.generation && { generation: config.generation }),
+            });
+            await sessionManager.logInteraction(messages, { model: endpoint.modelId, provider: endpoint.provider });
+
+            if (messages.filter(m => m.role === 'assistant').length === 1 && sessionManager.currentId) {
+                try {
+                    await sessionManager.applyGeneratedTitle(sessionManager.currentId, await generateTitle(config, messages));
+                } catch {
+                    // Untitled sessions are listed by their first message
+                }
+            }
+        }
+
+        if (options.json) {
+            const output = {
+                session: sessionManager.currentId,
+                profile: config.profile,
+                provider: endpoint.provider,
+                model: endpoint.modelId,
+                endpoint: endpoint.baseUrl,
+                generation: config.generation ?? {},
+                text: answer,
+                reasoning,
+                toolCalls,
+                guardrails: guardrailEvents,
+                finishReason: result.finishReason ?? null,
+                usage: result.totalUsage,
+            };
+            process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+        } else if (answer) {
+            const rendered = options.plain || !process.stdout.isTTY ? answer : renderMarkdown(answer).trimEnd();
+            process.stdout.write(rendered + '\n');
+        }
+
+        if (!answer) {
+            process.stderr.write('Empty response generated.\n');
+            return EXIT_FAILURE;
+        }
+
+        return EXIT_OK;
+    } finally {
+        await mcp.close();
+    }
+}
+
+/** `safellm export <session-id> [format] [path]`; writes to stdout without a path */
+export async function runExportCommand(options: CliOptions): Promise<number> {
+    const [sessionId, ...rest] = options.commandArgs;
+    if (!sessionId) {
+        process.stderr.write(USAGE);
+        return EXIT_USAGE;
+    }
+
+    const parsed = parseExportArgs(rest);
+    if (!parsed) {
+        process.stderr.write(`Unknown export format: ${rest[0]} (use markdown, html or jsonl)\n`);
+        return EXIT_USAGE;
+    }
+
+    const session = await new SessionManager().loadSession(sessionId);
+    if (!session) {
+        process.stderr.write(`Session not found: ${sessionId}\n`);
+        return EXIT_USAGE;
+    }
+
+    if (!parsed.path || parsed.path === '-') {
+        process.stdout.write(renderSession(session, parsed.format));
+    } else {
+        const written = await exportSession(session, parsed.format, parsed.path);
+        process.stderr.write(`Exported ${session.id} to ${written}\n`);
+    }
+    return EXIT_OK;
+}
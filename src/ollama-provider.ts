@@ -0,0 +1,353 @@
+import { APICallError, generateId } from 'ai';
+import type { AgentConfig } from './config-wizard';
+import type { ChatModel } from './providers';
+
+type CallOptions = Parameters<ChatModel['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<ChatModel['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<ChatModel['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer Part> ? Part : never;
+type Content = GenerateResult['content'][number];
+type ToolMessage = Extract<CallOptions['prompt'][number], { role: 'tool' }>;
+type ToolResultOutput = Extract<ToolMessage['content'][number], { type: 'tool-result' }>['output'];
+
+/** Ollama settings its OpenAI-compatible endpoint ignores; part of an "ollama" profile */
+export interface OllamaConfig {
+    /** How long the model stays loaded after a reply, e.g. "30m", or -1 to keep it loaded (Ollama's default is 5 minutes) */
+    keepAlive?: string | number;
+    /** Turns thinking on or off for models that support it; left to the model when unset */
+    think?: boolean;
+    /** Ollama model options such as num_gpu or repeat_penalty; the call's own settings and contextWindow win */
+    options?: Record<string, unknown>;
+}
+
+/** One line of `ollama pull` progress */
+export interface PullProgress {
+    status: string;
+    completed?: number;
+    total?: number;
+}
+
+interface OllamaMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    thinking?: string;
+    images?: string[];
+    tool_calls?: { function: { name: string; arguments: unknown } }[];
+    tool_name?: string;
+}
+
+/** A /api/chat reply, or one line of it when streamed */
+interface OllamaChunk {
+    model?: string;
+    created_at?: string;
+    message?: Partial<OllamaMessage>;
+    done?: boolean;
+    done_reason?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    error?: string;
+}
+
+/**
+ * Ollama's own API lives at the server root. Profiles made before the native
+ * adapter point at its OpenAI-compatible /v1, which is stripped.
+ */
+export function ollamaRoot(baseUrl: string): string {
+    return baseUrl.replace(/\/+$/, '').replace(/\/(v1|api)$/, '');
+}
+
+function headersFor(config: AgentConfig, extra: Record<string, string | undefined> = {}): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Ollama has no keys of its own, but a proxy in front of it may want one
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    for (const [name, value] of Object.entries(extra)) {
+        if (value !== undefined) headers[name] = value;
+    }
+    return headers;
+}
+
+/** Same failures the AI SDK's own providers raise, so retries and failover treat them alike */
+async function request(url: string, init: RequestInit, body: unknown): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        if (init.signal?.aborted) throw error;
+        throw new APICallError({
+            message: `Cannot connect to API: ${error instanceof Error ? error.message : String(error)}`,
+            url, requestBodyValues: body, cause: error, isRetryable: true,
+        });
+    }
+    if (!response.ok) {
+        const responseBody = await response.text();
+        let message = responseBody;
+        try {
+            message = JSON.parse(responseBody).error ?? responseBody;
+        } catch {
+            // Not JSON; the body itself is the message
+        }
+        throw new APICallError({
+            message: message || `Status ${response.status}`,
+            url, requestBodyValues: body, statusCode: response.status,
+            responseHeaders: Object.fromEntries(response.headers), responseBody,
+        });
+    }
+    return response;
+}
+
+/** Splits a newline-delimited JSON body into parsed lines */
+async function* readLines<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+            if (line.trim()) yield JSON.parse(line);
+        }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+function toolOutputText(output: ToolResultOutput): string {
+    switch (output.type) {
+        case 'text':
+        case 'error-text':
+            return output.value;
+        case 'json':
+        case 'error-json':
+            return JSON.stringify(output.value);
+        case 'execution-denied':
+            return output.reason ?? 'The tool call was denied.';
+        case 'content':
+            return output.value.map(part => part.type === 'text' ? part.text : '').join('\n');
+    }
+}
+
+function imageData(data: unknown): string | null {
+    if (typeof data === 'string') return data;
+    if (data instanceof Uint8Array) return Buffer.from(data).toString('base64');
+    // Ollama only takes inline images, not URLs
+    return null;
+}
+
+function toOllamaMessages(prompt: CallOptions['prompt']): OllamaMessage[] {
+    const messages: OllamaMessage[] = [];
+    for (const message of prompt) {
+        if (message.role === 'system') {
+            messages.push({ role: 'system', content: message.content });
+        } else if (message.role === 'user') {
+            const images = message.content
+                .filter(part => part.type === 'file' && part.mediaType.startsWith('image/'))
+                .map(part => part.type === 'file' ? imageData(part.data) : null)
+                .filter((image): image is string => image !== null);
+            messages.push({
+                role: 'user',
+                content: message.content.map(part => part.type === 'text' ? part.text : '').join(''),
+                ...(images.length > 0 && { images }),
+            });
+        } else if (message.role === 'assistant') {
+            const text = message.content.map(part => part.type === 'text' ? part.text : '').join('');
+            const thinking = message.content.map(part => part.type === 'reasoning' ? part.text : '').join('');
+            const calls = message.content.flatMap(part => part.type === 'tool-call' ? [{ function: { name: part.toolName, arguments: part.input } }] : []);
+            messages.push({ role: 'assistant', content: text, ...(thinking && { thinking }), ...(calls.length > 0 && { tool_calls: calls }) });
+        } else {
+            for (const part of message.content) {
+                if (part.type === 'tool-result') {
+                    messages.push({ role: 'tool', tool_name: part.toolName, content: toolOutputText(part.output) });
+                }
+            }
+        }
+    }
+    return messages;
+}
+
+function finishReason(chunk: OllamaChunk, calledTools: boolean): GenerateResult['finishReason'] {
+    const raw = chunk.done_reason;
+    if (calledTools) return { unified: 'tool-calls', raw };
+    if (raw === 'length') return { unified: 'length', raw };
+    return { unified: raw === 'stop' || raw === undefined ? 'stop' : 'other', raw };
+}
+
+function usage(chunk: OllamaChunk): GenerateResult['usage'] {
+    return {
+        inputTokens: { total: chunk.prompt_eval_count, noCache: chunk.prompt_eval_count, cacheRead: undefined, cacheWrite: undefined },
+        outputTokens: { total: chunk.eval_count, text: chunk.eval_count, reasoning: undefined },
+    };
+}
+
+function toolCalls(message: Partial<OllamaMessage> | undefined): Extract<Content, { type: 'tool-call' }>[] {
+    return (message?.tool_calls ?? []).map(call => ({
+        type: 'tool-call',
+        toolCallId: generateId(),
+        toolName: call.function.name,
+        input: typeof call.function.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function.arguments ?? {}),
+    }));
+}
+
+/** Drops unset fields, which Ollama would otherwise read as explicit nulls */
+function defined<T extends Record<string, unknown>>(values: T): Partial<T> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Talks to Ollama's native /api/chat, which, unlike its OpenAI-compatible
+ * endpoint, honours keep_alive, num_ctx and the other model options, and
+ * returns thinking separately from the answer.
+ */
+export class OllamaChatModel implements ChatModel {
+    readonly specificationVersion = 'v3';
+    readonly provider = 'ollama.chat';
+    readonly supportedUrls = {};
+    readonly modelId: string;
+
+    constructor(private config: AgentConfig) {
+        this.modelId = config.modelId;
+    }
+
+    private body(options: CallOptions, stream: boolean) {
+        const { ollama = {}, contextWindow, modelId } = this.config;
+        const tools = options.toolChoice?.type === 'none' ? [] : (options.tools ?? []).flatMap(tool => tool.type === 'function'
+            ? [{ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.inputSchema } }]
+            : []);
+        const format = options.responseFormat?.type === 'json' ? options.responseFormat.schema ?? 'json' : undefined;
+        return defined({
+            model: modelId,
+            messages: toOllamaMessages(options.prompt),
+            tools: tools.length > 0 ? tools : undefined,
+            stream,
+            format,
+            think: ollama.think,
+            keep_alive: ollama.keepAlive,
+            options: defined({
+                ...ollama.options,
+                num_ctx: contextWindow,
+                num_predict: options.maxOutputTokens,
+                temperature: options.temperature,
+                top_p: options.topP,
+                top_k: options.topK,
+                stop: options.stopSequences,
+                seed: options.seed,
+                presence_penalty: options.presencePenalty,
+                frequency_penalty: options.frequencyPenalty,
+            }),
+        });
+    }
+
+    private post(options: CallOptions, body: unknown): Promise<Response> {
+        return request(`${ollamaRoot(this.config.baseUrl)}/api/chat`, {
+            method: 'POST',
+            headers: headersFor(this.config, options.headers),
+            body: JSON.stringify(body),
+            signal: options.abortSignal,
+        }, body);
+    }
+
+    async doGenerate(options: CallOptions): Promise<GenerateResult> {
+        const body = this.body(options, false);
+        const response = await this.post(options, body);
+        const chunk: OllamaChunk = await response.json();
+        const calls = toolCalls(chunk.message);
+        const content: Content[] = [
+            ...(chunk.message?.thinking ? [{ type: 'reasoning' as const, text: chunk.message.thinking }] : []),
+            ...(chunk.message?.content ? [{ type: 'text' as const, text: chunk.message.content }] : []),
+            ...calls,
+        ];
+        return {
+            content,
+            finishReason: finishReason(chunk, calls.length > 0),
+            usage: usage(chunk),
+            request: { body },
+            response: { modelId: chunk.model, timestamp: chunk.created_at ? new Date(chunk.created_at) : undefined, body: chunk },
+            warnings: [],
+        };
+    }
+
+    async doStream(options: CallOptions): Promise<StreamResult> {
+        const body = this.body(options, true);
+        const response = await this.post(options, body);
+        const parts = streamParts(readLines<OllamaChunk>(response.body!));
+        const stream = new ReadableStream<StreamPart>({
+            async pull(controller) {
+                const { done, value } = await parts.next();
+                if (done) controller.close();
+                else controller.enqueue(value);
+            },
+            async cancel() {
+                await parts.return(undefined);
+            },
+        });
+        return { stream, request: { body }, response: { headers: Object.fromEntries(response.headers) } };
+    }
+}
+
+/** Stream parts for the streamed reply; reasoning and text come as separate blocks, as other providers emit them */
+async function* streamParts(lines: AsyncGenerator<OllamaChunk>): AsyncGenerator<StreamPart> {
+    yield { type: 'stream-start', warnings: [] };
+    let open: 'text' | 'reasoning' | null = null;
+    let calledTools = false;
+    let started = false;
+
+    function* write(kind: 'text' | 'reasoning', delta: string | undefined): Generator<StreamPart> {
+        if (!delta) return;
+        if (open !== kind) {
+            if (open) yield { type: `${open}-end`, id: open };
+            yield { type: `${kind}-start`, id: kind };
+            open = kind;
+        }
+        yield { type: `${kind}-delta`, id: kind, delta };
+    }
+    function* close(): Generator<StreamPart> {
+        if (open) yield { type: `${open}-end`, id: open };
+        open = null;
+    }
+
+    try {
+        for await (const chunk of lines) {
+            if (chunk.error) throw new Error(chunk.error);
+            if (!started) {
+                started = true;
+                yield { type: 'response-metadata', modelId: chunk.model, timestamp: chunk.created_at ? new Date(chunk.created_at) : undefined };
+            }
+            yield* write('reasoning', chunk.message?.thinking);
+            yield* write('text', chunk.message?.content);
+            for (const call of toolCalls(chunk.message)) {
+                yield* close();
+                calledTools = true;
+                yield call;
+            }
+            if (chunk.done) {
+                yield* close();
+                yield { type: 'finish', finishReason: finishReason(chunk, calledTools), usage: usage(chunk) };
+            }
+        }
+    } catch (error) {
+        yield { type: 'error', error };
+    } finally {
+        await lines.return(undefined);
+    }
+}
+
+/** Health check: the models pulled onto the server, from /api/tags */
+export async function listOllamaModels(config: AgentConfig): Promise<string[]> {
+    const response = await fetch(`${ollamaRoot(config.baseUrl)}/api/tags`, { headers: headersFor(config) });
+    if (!response.ok) throw new Error(`Status ${response.status}`);
+    const body: any = await response.json();
+    return (body?.models ?? []).map((model: any) => model.name ?? model.model).filter(Boolean).sort();
+}
+
+/** Downloads a model with /api/pull, reporting each progress line; throws when Ollama reports an error */
+export async function pullOllamaModel(config: AgentConfig, modelId: string, onProgress: (progress: PullProgress) => void, signal?: AbortSignal): Promise<void> {
+    const body = { model: modelId, stream: true };
+    const response = await request(`${ollamaRoot(config.baseUrl)}/api/pull`, {
+        method: 'POST',
+        headers: headersFor(config),
+        body: JSON.stringify(body),
+        signal,
+    }, body);
+    for await (const line of readLines<PullProgress & { error?: string }>(response.body!)) {
+        if (line.error) throw new Error(line.error);
+        onProgress(line);
+    }
+}
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const APP_NAME = 'safellm';
+/** Per-project directory, found in the working directory or any parent below the home directory */
+export const PROJECT_DIR_NAME = '.safellm';
+
+/** Set from --config and --data-dir */
+export interface PathOverrides {
+    /** A single config file used instead of the global and project ones */
+    configFile?: string;
+    /** Holds all data (sessions, memory, secrets, plugins); project data is ignored */
+    dataDir?: string;
+}
+
+export interface ConfigLayer {
+    file: string;
+    scope: 'global' | 'project' | 'flag';
+}
+
+/** Every file and directory safellm reads or writes, as resolved for this run */
+export interface AppPaths {
+    globalConfigDir: string;
+    globalDataDir: string;
+    projectDir: string | null;
+    /** Merged in order, later layers overriding earlier ones; missing files are skipped */
+    configLayers: ConfigLayer[];
+    /** Where a new config is written: the --config file, or the global one */
+    primaryConfigFile: string;
+    dataDir: string;
+    sessionDir: string;
+    memoryFile: string;
+    /** Old Markdown memory, imported once into memoryFile */
+    legacyMemoryFile: string;
+    secretsFile: string;
+    /** Loaded in order: project plugins first */
+    pluginDirs: string[];
+    /** Project directories the user agreed to run code from, see trust.ts */
+    trustedProjectsFile: string;
+}
+
+/** A file from the layout before XDG directories, and where it belongs now */
+export interface LegacyFile {
+    from: string;
+    to: string;
+    description: string;
+}
+
+let overrides: PathOverrides = {};
+let resolved: AppPaths | null = null;
+
+function isDirectory(target: string): boolean {
+    try {
+        return fs.statSync(target).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+function isFile(target: string): boolean {
+    try {
+        return fs.statSync(target).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/** $XDG_CONFIG_HOME / $XDG_DATA_HOME when set to an absolute path, as the spec requires */
+function xdgDir(variable: string, fallback: string): string {
+    const value = process.env[variable];
+    return value && path.isAbsolute(value) ? value : path.join(os.homedir(), fallback);
+}
+
+/** Nearest .safellm/ from `start` upwards; the home directory's own is never a project */
+export function findProjectDir(start: string = process.cwd()): string | null {
+    const home = os.homedir();
+    let dir = path.resolve(start);
+    while (dir !== home) {
+        const candidate = path.join(dir, PROJECT_DIR_NAME);
+        if (isDirectory(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+    }
+    return null;
+}
+
+/** Applies --config and --data-dir; call before anything reads a path */
+export function configurePaths(options: PathOverrides): void {
+    overrides = {
+        ...(options.configFile && { configFile: path.resolve(options.configFile) }),
+        ...(options.dataDir && { dataDir: path.resolve(options.dataDir) }),
+    };
+    resolved = null;
+}
+
+/**
+ * Resolves where everything lives. Config is layered: the global file under
+ * ~/.config/safellm, then the project's .safellm/config.json. Data lives
+ * under ~/.local/share/safellm, except that a project .safellm/ holding its
+ * own sessions/ or memory.json uses those instead.
+ */
+export function resolvePaths(): AppPaths {
+    if (resolved) return resolved;
+
+    const globalConfigDir = path.join(xdgDir('XDG_CONFIG_HOME', '.config'), APP_NAME);
+    const globalDataDir = path.join(xdgDir('XDG_DATA_HOME', path.join('.local', 'share')), APP_NAME);
+    const projectDir = findProjectDir();
+    const dataDir = overrides.dataDir ?? globalDataDir;
+
+    const configLayers: ConfigLayer[] = overrides.configFile
+        ? [{ file: overrides.configFile, scope: 'flag' }]
+        : [
+            { file: path.join(globalConfigDir, 'config.json'), scope: 'global' },
+            ...(projectDir ? [{ file: path.join(projectDir, 'config.json'), scope: 'project' as const }] : []),
+        ];
+
+    // Project data only counts when it exists, and never with --data-dir
+    const projectData = overrides.dataDir ? null : projectDir;
+    const sessionDir = projectData && isDirectory(path.join(projectData, 'sessions'))
+        ? path.join(projectData, 'sessions')
+        : path.join(dataDir, 'sessions');
+    const memoryFile = projectData && isFile(path.join(projectData, 'memory.json'))
+        ? path.join(projectData, 'memory.json')
+        : path.join(dataDir, 'memory.json');
+
+    resolved = {
+        globalConfigDir,
+        globalDataDir,
+        projectDir,
+        configLayers,
+        primaryConfigFile: configLayers[0].file,
+        dataDir,
+        sessionDir,
+        memoryFile,
+        legacyMemoryFile: path.join(path.dirname(memoryFile), 'MEMORY.md'),
+        secretsFile: path.join(dataDir, 'secrets.enc'),
+        pluginDirs: [...(projectDir ? [path.join(projectDir, 'plugins')] : []), path.join(dataDir, 'plugins')],
+        trustedProjectsFile: path.join(dataDir, 'trusted-projects.json'),
+    };
+    return resolved;
+}
+
+/** True if the file parses as JSON and passes `test`; guards against other tools' config.json */
+function jsonMatches(file: string, test: (data: any) => boolean): boolean {
+    try {
+        return test(JSON.parse(fs.readFileSync(file, 'utf-8')));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Files older versions kept in the working directory (config.json,
+ * memory.json, MEMORY.md, sessions in .safellm/) or in ~/.safellm, paired
+ * with where they belong now. Only files recognizably written by safellm.
+ */
+export function findLegacyFiles(cwd: string = process.cwd()): LegacyFile[] {
+    const paths = resolvePaths();
+    const found: LegacyFile[] = [];
+
+    const config = path.join(cwd, 'config.json');
+    const isOurConfig = jsonMatches(config, data => !!data && (typeof data.profiles === 'object' || (typeof data.modelId === 'string' && (data.baseUrl || data.lmStudioUrl))));
+    if (isOurConfig) found.push({ from: config, to: paths.primaryConfigFile, description: 'config' });
+
+    const memory = path.join(cwd, 'memory.json');
+    const isOurMemory = jsonMatches(memory, data => !!data && Array.isArray(data.entries));
+    if (isOurMemory) found.push({ from: memory, to: path.join(paths.dataDir, 'memory.json'), description: 'memory' });
+
+    // MEMORY.md is a common name; only taken next to safellm's own files
+    const markdownMemory = path.join(cwd, 'MEMORY.md');
+    if ((isOurConfig || isOurMemory) && isFile(markdownMemory)) {
+        found.push({ from: markdownMemory, to: path.join(paths.dataDir, 'MEMORY.md'), description: 'memory (Markdown)' });
+    }
+
+    const oldSessionDir = path.join(cwd, PROJECT_DIR_NAME);
+    const sessionDir = path.join(paths.dataDir, 'sessions');
+    if (isDirectory(oldSessionDir) && oldSessionDir !== sessionDir) {
+        for (const name of fs.readdirSync(oldSessionDir)) {
+            if (/^session-.*\.json$/.test(name)) {
+                found.push({ from: path.join(oldSessionDir, name), to: path.join(sessionDir, name), description: 'session' });
+            }
+        }
+        if (found.some(file => file.description === 'session') && isDirectory(path.join(oldSessionDir, 'index'))) {
+            found.push({ from: path.join(oldSessionDir, 'index'), to: path.join(sessionDir, 'index'), description: 'search index' });
+        }
+    }
+
+    const oldGlobalDir = path.join(os.homedir(), PROJECT_DIR_NAME);
+    if (isDirectory(path.join(oldGlobalDir, 'plugins'))) {
+        found.push({ from: path.join(oldGlobalDir, 'plugins'), to: path.join(paths.dataDir, 'plugins'), description: 'plugins' });
+    }
+    if (isFile(path.join(oldGlobalDir, 'secrets.enc'))) {
+        found.push({ from: path.join(oldGlobalDir, 'secrets.enc'), to: paths.secretsFile, description: 'secrets' });
+    }
+
+    return found;
+}
+
+/**
+ * Moves legacy files into place. Anything whose destination already exists
+ * is left alone and returned in `skipped`, so nothing is ever overwritten.
+ */
+export function migrateLegacyFiles(files: LegacyFile[]): { moved: LegacyFile[]; skipped: LegacyFile[] } {
+    const moved: LegacyFile[] = [];
+    const skipped: LegacyFile[] = [];
+
+    for (const file of files) {
+        if (fs.existsSync(file.to)) {
+            skipped.push(file);
+            continue;
+        }
+        fs.mkdirSync(path.dirname(file.to), { recursive: true });
+        try {
+            fs.renameSync(file.from, file.to);
+        } catch (error: any) {
+            // Across filesystems (e.g. cwd on another disk) rename fails; copy instead
+            if (error.code !== 'EXDEV') throw error;
+            fs.cpSync(file.from, file.to, { recursive: true, preserveTimestamps: true });
+            fs.rmSync(file.from, { recursive: true, force: true });
+        }
+        moved.push(file);
+    }
+
+    // An old session directory left empty would otherwise pass for a project directory
+    for (const dir of new Set(moved.map(file => path.dirname(file.from)))) {
+        if (path.basename(dir) !== PROJECT_DIR_NAME) continue;
+        try {
+            fs.rmdirSync(dir);
+        } catch {
+            // Not empty: it also holds project config or plugins
+        }
+    }
+
+    // Data resolved before the move may point elsewhere now
+    resolved = null;
+    return { moved, skipped };
+}
@@ -0,0 +1,110 @@
+import { createTool } from '@mastra/core/tools';
+
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+/** Answer to an approval prompt; "always"/"never" are remembered for the session */
+export type ApprovalDecision = 'allow' | 'deny' | 'always' | 'never';
+
+/** `preview` is shown for confirmations such as a file diff; "always" isn't offered for those */
+export type ApprovalPrompt = (toolId: string, args: unknown, preview?: string) => Promise<ApprovalDecision>;
+
+// Tools that change files on disk ask first unless config says otherwise
+export const DEFAULT_TOOL_POLICIES: Record<string, ToolPolicy> = {
+    'delete-memory': 'ask',
+    'replace-memory': 'ask',
+    'rename-session': 'ask',
+};
+
+/**
+ * Applies the allow/ask/deny policy from config.json to every tool call.
+ *
+ * Policies are keyed by tool ID; a "*" key sets the fallback for tools that
+ * aren't listed (default "allow"). "ask" tools call `prompt`, which the chat
+ * loop sets while it owns the terminal; without a prompt (one-shot mode) they
+ * are denied.
+ */
+export class ToolPermissions {
+    private sessionDecisions = new Map<string, 'allow' | 'deny'>();
+    public prompt: ApprovalPrompt | null = null;
+
+    constructor(private policies: Record<string, ToolPolicy> = {}) { }
+
+    policyFor(toolId: string): ToolPolicy {
+        return this.policies[toolId] ?? DEFAULT_TOOL_POLICIES[toolId] ?? this.policies['*'] ?? 'allow';
+    }
+
+    /** Forget "always"/"never" answers, e.g. when a new session starts */
+    resetSession() {
+        this.sessionDecisions.clear();
+    }
+
+    async check(toolId: string, args: unknown): Promise<{ allowed: boolean; reason?: string }> {
+        const policy = this.policyFor(toolId);
+        if (policy === 'allow') return { allowed: true };
+        if (policy === 'deny') return { allowed: false, reason: `The "${toolId}" tool is disabled by configuration.` };
+
+        const remembered = this.sessionDecisions.get(toolId);
+        if (remembered) {
+            return remembered === 'allow'
+                ? { allowed: true }
+                : { allowed: false, reason: `The user denied "${toolId}" for the rest of this session.` };
+        }
+
+        if (!this.prompt) {
+            return { allowed: false, reason: `The "${toolId}" tool requires user approval, which is not available in non-interactive mode.` };
+        }
+
+        const decision = await this.prompt(toolId, args);
+        if (decision === 'always') this.sessionDecisions.set(toolId, 'allow');
+        if (decision === 'never') this.sessionDecisions.set(toolId, 'deny');
+
+        if (decision === 'allow' || decision === 'always') return { allowed: true };
+        return { allowed: false, reason: `The user denied permission to run "${toolId}".` };
+    }
+
+    /**
+     * Confirmation for a change the user must see before it happens, such as
+     * a file write. Unlike `check` it prompts every time, whatever the policy
+     * says; only "deny" and a "never" answer skip the prompt.
+     */
+    async confirm(toolId: string, args: unknown, preview: string): Promise<{ allowed: boolean; reason?: string }> {
+        if (this.policyFor(toolId) === 'deny') return { allowed: false, reason: `The "${toolId}" tool is disabled by configuration.` };
+        if (this.sessionDecisions.get(toolId) === 'deny') {
+            return { allowed: false, reason: `The user denied "${toolId}" for the rest of this session.` };
+        }
+        if (!this.prompt) {
+            return { allowed: false, reason: `The "${toolId}" tool requires user confirmation, which is not available in non-interactive mode.` };
+        }
+
+        const decision = await this.prompt(toolId, args, preview);
+        if (decision === 'never') this.sessionDecisions.set(toolId, 'deny');
+
+        if (decision === 'allow' || decision === 'always') return { allowed: true };
+        return { allowed: false, reason: `The user rejected this "${toolId}" change.` };
+    }
+
+    /** Returns copies of the tools whose execute() goes through `check` first */
+    wrap<T extends Record<string, any>>(tools: T): T {
+        const wrapped: Record<string, any> = {};
+        for (const [key, tool] of Object.entries(tools)) {
+            wrapped[key] = createTool({
+                id: tool.id,
+                description: tool.description,
+                inputSchema: tool.inputSchema,
+                execute: async (input: any, context: any) => {
+                    const { allowed, reason } = await this.check(tool.id, input);
+                    if (!allowed) {
+                        // Structured refusal so the model can recover instead of retrying blindly
+                        return {
+                            error: 'TOOL_CALL_DENIED',
+                            tool: tool.id,
+                            message: `${reason} Do not retry this call; continue without it or ask the user how to proceed.`,
+                        };
+                    }
+                    return tool.execute(input, context);
+                },
+            });
+        }
+        return wrapped as T;
+    }
+}
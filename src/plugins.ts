@@ -0,0 +1,185 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { AgentConfig } from './config-wizard';
+import { resolvePaths } from './paths';
+import { isProjectTrusted } from './trust';
+
+const PLUGIN_EXTENSIONS = new Set(['.ts', '.mts', '.js', '.mjs', '.cjs']);
+const TOOL_ID_PATTERN = /^[a-zA-Z0-9_-]{1,48}$/;
+const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/** What a plugin command gets besides its arguments */
+export interface PluginCommandContext {
+    config: AgentConfig;
+    sessionId: string | null;
+    print(text: string): void;
+}
+
+/**
+ * A slash command contributed by a plugin through `export const commands = [...]`.
+ * Whatever `run` returns (if a string) is printed.
+ */
+export interface PluginCommand {
+    /** Without the slash, e.g. "stock" for /stock */
+    name: string;
+    description: string;
+    /** Shown in /help after the name, e.g. "<symbol>" */
+    usage?: string;
+    run(args: string, context: PluginCommandContext): unknown;
+}
+
+export interface LoadedPlugin {
+    file: string;
+    toolIds: string[];
+    commands: string[];
+}
+
+export interface PluginFailure {
+    file: string;
+    error: string;
+}
+
+export interface PluginRegistry {
+    /** Keyed by the name the model calls them by, "plugin_<id>" */
+    tools: Record<string, any>;
+    commands: PluginCommand[];
+    plugins: LoadedPlugin[];
+    failures: PluginFailure[];
+    /** Files in the plugin directory of a project that isn't trusted, so none of them ran */
+    untrusted: string[];
+}
+
+/** Raised while validating one plugin file; that plugin is skipped */
+export class PluginError extends Error { }
+
+export function emptyPluginRegistry(): PluginRegistry {
+    return { tools: {}, commands: [], plugins: [], failures: [], untrusted: [] };
+}
+
+/** A createTool() result, recognized by shape since plugins may bring their own copy of Mastra */
+function isTool(value: any): boolean {
+    return !!value && typeof value === 'object' && typeof value.id === 'string' && typeof value.execute === 'function';
+}
+
+/** Any zod object schema, including one from the plugin's own copy of zod */
+function isZodObject(value: any): boolean {
+    return !!value && typeof value.safeParse === 'function' && value._def?.typeName === 'ZodObject';
+}
+
+function validateTool(tool: any, exportName: string, takenIds: Set<string>): void {
+    if (!TOOL_ID_PATTERN.test(tool.id)) {
+        throw new PluginError(`Tool "${exportName}" has an invalid id "${tool.id}" (letters, digits, "-" and "_" only)`);
+    }
+    if (takenIds.has(tool.id)) throw new PluginError(`Tool id "${tool.id}" is already in use`);
+    if (!isZodObject(tool.inputSchema)) throw new PluginError(`Tool "${tool.id}" needs a zod object inputSchema`);
+    if (typeof tool.description !== 'string' || !tool.description.trim()) {
+        throw new PluginError(`Tool "${tool.id}" needs a description`);
+    }
+}
+
+function validateCommand(command: any, takenNames: Set<string>): PluginCommand {
+    if (!command || typeof command !== 'object' || typeof command.run !== 'function') {
+        throw new PluginError('Each entry of "commands" needs a name, a description and a run function');
+    }
+    const name = String(command.name ?? '').replace(/^\//, '');
+    if (!COMMAND_NAME_PATTERN.test(name)) throw new PluginError(`Invalid command name "${command.name}"`);
+    if (takenNames.has(name)) throw new PluginError(`Command /${name} already exists`);
+    return { ...command, name, description: String(command.description ?? '') };
+}
+
+/** Plugin files in a directory, sorted; none when it doesn't exist */
+export async function pluginFiles(directory: string): Promise<string[]> {
+    let entries;
+    try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+    return entries
+        .filter(entry => entry.isFile() && PLUGIN_EXTENSIONS.has(path.extname(entry.name)) && !entry.name.endsWith('.d.ts'))
+        .map(entry => path.join(directory, entry.name))
+        .sort();
+}
+
+/**
+ * Loads every plugin file in `directories`, by default the project's
+ * .safellm/plugins (once the project is trusted, see trust.ts) and then the one in the
+ * data directory; a later plugin can't take an ID or command name already in use. A plugin exports tools made with
+ * createTool() (as default or named exports) and optionally `commands`.
+ * Each file is all-or-nothing: if it fails to import or any of its tools or
+ * commands is invalid, it is recorded in `failures` and nothing from it is used.
+ */
+export async function loadPlugins(options: {
+    directories?: string[];
+    /** The one of `directories` that belongs to the project; by default the project's */
+    projectDirectory?: string | null;
+    /** Whether that project is trusted; by default as recorded in trust.ts */
+    projectTrusted?: boolean;
+    /** Tool IDs of the built-in tools */
+    reservedToolIds?: string[];
+    /** Built-in slash command names, without the slash */
+    reservedCommands?: string[];
+} = {}): Promise<PluginRegistry> {
+    const registry = emptyPluginRegistry();
+    const takenIds = new Set(options.reservedToolIds ?? []);
+    const takenCommands = new Set(options.reservedCommands ?? []);
+
+    const paths = resolvePaths();
+    const projectDirectory = options.projectDirectory !== undefined
+        ? options.projectDirectory
+        : paths.projectDir && path.join(paths.projectDir, 'plugins');
+    const projectTrusted = options.projectTrusted ?? (!!paths.projectDir && await isProjectTrusted(paths.projectDir));
+
+    for (const directory of options.directories ?? paths.pluginDirs) {
+        const files = await pluginFiles(directory);
+        if (directory === projectDirectory && files.length > 0 && !projectTrusted) {
+            registry.untrusted.push(...files);
+            continue;
+        }
+        for (const file of files) {
+            try {
+                const module = await import(pathToFileURL(file).href);
+                const exports: Record<string, any> = { ...module };
+
+                // CommonJS plugins arrive as a default export holding module.exports
+                if (exports.default && !isTool(exports.default) && typeof exports.default === 'object') {
+                    Object.assign(exports, exports.default);
+                    delete exports.default;
+                }
+
+                const tools = Object.entries(exports).filter(([, value]) => isTool(value));
+                const fileIds = new Set<string>();
+                for (const [name, tool] of tools) {
+                    validateTool(tool, name, new Set([...takenIds, ...fileIds]));
+                    fileIds.add(tool.id);
+                }
+
+                const commands = exports.commands === undefined ? [] : exports.commands;
+                if (!Array.isArray(commands)) throw new PluginError('"commands" must be an array');
+                const fileCommands = new Set<string>();
+                const validCommands = commands.map(command => {
+                    const valid = validateCommand(command, new Set([...takenCommands, ...fileCommands]));
+                    fileCommands.add(valid.name);
+                    return valid;
+                });
+
+                if (tools.length === 0 && validCommands.length === 0) {
+                    throw new PluginError('Exports no tools (createTool results) and no commands');
+                }
+
+                for (const [, tool] of tools) {
+                    registry.tools[`plugin_${tool.id}`] = tool;
+                    takenIds.add(tool.id);
+                }
+                validCommands.forEach(command => takenCommands.add(command.name));
+                registry.commands.push(...validCommands);
+                registry.plugins.push({ file, toolIds: [...fileIds], commands: [...fileCommands] });
+            } catch (error) {
+                registry.failures.push({ file, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    }
+
+    return registry;
+}
@@ -0,0 +1,86 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import type { LanguageModel } from 'ai';
+import type { AgentConfig, ProviderType } from './config-wizard';
+import { fetchModels } from './models';
+import { providerFetch } from './mock-provider';
+import { OllamaChatModel, listOllamaModels, pullOllamaModel, type PullProgress } from './ollama-provider';
+
+/** A chat model in the AI SDK's provider format, whichever wire format is behind it */
+export type ChatModel = Extract<LanguageModel, { specificationVersion: 'v3' }>;
+
+/** How safellm talks to one kind of server */
+export interface ProviderAdapter {
+    /** Shown in the setup wizard */
+    label: string;
+    defaultBaseUrl: string;
+    defaultModelId: string;
+    /** Hosted APIs refuse every request without a key */
+    requiresApiKey?: boolean;
+    createModel(config: AgentConfig): ChatModel;
+    /** Health check: the models the server offers. Throws when it can't be reached or refuses the key */
+    listModels(config: AgentConfig): Promise<string[]>;
+    /** Downloads a model onto the server, for servers that can; aborting the signal stops the download */
+    pullModel?(config: AgentConfig, modelId: string, onProgress: (progress: PullProgress) => void, signal?: AbortSignal): Promise<void>;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** LM Studio, vLLM, llama.cpp and anything else speaking OpenAI's chat completions */
+const openAICompatible = (label: string, defaultBaseUrl: string, defaultModelId: string): ProviderAdapter => ({
+    label,
+    defaultBaseUrl,
+    defaultModelId,
+    createModel: config => createOpenAI({
+        baseURL: config.baseUrl,
+        apiKey: config.apiKey || 'not-needed',
+        // Replays fixtures for the mock provider, or records traffic under --record
+        fetch: providerFetch(config),
+        // @ts-expect-error - feature is available in runtime but missing in types
+        compatibility: 'strict',
+    }).chat(config.modelId),
+    listModels: config => fetchModels(config),
+});
+
+const ollama: ProviderAdapter = {
+    label: 'Ollama',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModelId: 'llama3',
+    createModel: config => new OllamaChatModel(config),
+    listModels: listOllamaModels,
+    pullModel: pullOllamaModel,
+};
+
+const anthropic: ProviderAdapter = {
+    label: 'Anthropic',
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+    defaultModelId: 'claude-sonnet-4-5',
+    requiresApiKey: true,
+    createModel: config => createAnthropic({ baseURL: config.baseUrl, apiKey: config.apiKey ?? '' })(config.modelId),
+    async listModels(config) {
+        const response = await fetch(`${config.baseUrl}/models?limit=1000`, {
+            headers: { 'x-api-key': config.apiKey ?? '', 'anthropic-version': ANTHROPIC_VERSION },
+        });
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const body: any = await response.json();
+        return (body?.data ?? []).map((model: any) => model.id).filter(Boolean).sort();
+    },
+};
+
+export const PROVIDERS: Record<ProviderType, ProviderAdapter> = {
+    'lm-studio': openAICompatible('LM Studio', 'http://localhost:1234/v1', 'mistralai/ministral-3-14b-reasoning'),
+    ollama,
+    anthropic,
+    custom: openAICompatible('Custom (OpenAI-compatible)', 'http://localhost:8000/v1', 'my-model'),
+    mock: openAICompatible('Mock (replays a fixture)', 'http://mock.invalid/v1', 'mock-model'),
+};
+
+/** The adapter for a profile; profiles from unknown providers are treated as OpenAI-compatible */
+export function adapterFor(config: Pick<AgentConfig, 'provider'>): ProviderAdapter {
+    return PROVIDERS[config.provider] ?? PROVIDERS.custom;
+}
+
+/** Health check of the profile's server, returning the models it serves */
+export function listModels(config: AgentConfig): Promise<string[]> {
+    return adapterFor(config).listModels(config);
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { resolvePaths } from './paths';
+
+/** Read instead of prompting, for scripts and one-shot mode */
+export const PASSPHRASE_ENV = 'SAFELLM_PASSPHRASE';
+
+const KEY_LENGTH = 32;
+// scrypt cost; 2^14 stays within Node's default 32 MB memory limit
+const SCRYPT_COST = 16384;
+// Owner read/write only; the directory owner-only as well
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
+
+/** On-disk shape of the secrets file; everything but `version` and `kdf` is base64 */
+interface SecretsFile {
+    version: 1;
+    kdf: 'scrypt';
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/** Raised for a wrong passphrase or an unreadable file; messages are safe to show */
+export class SecretsError extends Error { }
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(passphrase, salt, KEY_LENGTH, { N: SCRYPT_COST }, (error, key) => error ? reject(error) : resolve(key));
+    });
+}
+
+/** Enough of a key to recognize it: "sk-p…x7Q2", or just dots for short ones */
+export function maskSecret(value: string): string {
+    if (value.length < 12) return '•'.repeat(8);
+    return `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
+
+/**
+ * Named secrets (API keys by profile) encrypted with AES-256-GCM under a key
+ * derived from a passphrase. The whole file is decrypted once by `unlock`
+ * and rewritten with a fresh IV on every change.
+ */
+export class SecretStore {
+    private secrets: Record<string, string> | null = null;
+    private passphrase: string | null = null;
+
+    /** Defaults to secrets.enc in the data directory, outside any project */
+    constructor(private filePath?: string) { }
+
+    get file(): string {
+        return this.filePath ?? resolvePaths().secretsFile;
+    }
+
+    get unlocked(): boolean {
+        return this.secrets !== null;
+    }
+
+    async exists(): Promise<boolean> {
+        try {
+            await fs.access(this.file);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /** Decrypts the file; if there is none yet, the passphrase is used for the new one */
+    async unlock(passphrase: string): Promise<void> {
+        if (!passphrase) throw new SecretsError('The passphrase must not be empty.');
+
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.file, 'utf-8');
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw new SecretsError(`Could not read ${this.file}: ${error.message}`);
+            this.secrets = {};
+            this.passphrase = passphrase;
+            return;
+        }
+
+        // Tighten a file that was copied around or created with a loose umask
+        const stat = await fs.stat(this.file);
+        if (stat.mode & 0o077) await fs.chmod(this.file, FILE_MODE);
+
+        let file: SecretsFile;
+        try {
+            file = JSON.parse(raw);
+        } catch {
+            throw new SecretsError(`${this.file} is not a valid secrets file.`);
+        }
+        if (file.version !== 1 || file.kdf !== 'scrypt') throw new SecretsError(`${this.file} has an unsupported format.`);
+
+        const key = await deriveKey(passphrase, Buffer.from(file.salt, 'base64'));
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+            const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+            this.secrets = JSON.parse(plain.toString('utf-8'));
+        } catch {
+            throw new SecretsError('Wrong passphrase for the secrets file.');
+        }
+        this.passphrase = passphrase;
+    }
+
+    get(name: string): string | undefined {
+        return this.requireUnlocked()[name];
+    }
+
+    names(): string[] {
+        return Object.keys(this.requireUnlocked());
+    }
+
+    async set(name: string, value: string): Promise<void> {
+        this.requireUnlocked()[name] = value;
+        await this.save();
+    }
+
+    async delete(name: string): Promise<boolean> {
+        const secrets = this.requireUnlocked();
+        if (!(name in secrets)) return false;
+        delete secrets[name];
+        await this.save();
+        return true;
+    }
+
+    private requireUnlocked(): Record<string, string> {
+        if (!this.secrets) throw new SecretsError('The secrets file is locked.');
+        return this.secrets;
+    }
+
+    private async save(): Promise<void> {
+        const salt = randomBytes(16);
+        const iv = randomBytes(12);
+        const key = await deriveKey(this.passphrase!, salt);
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(this.secrets), 'utf-8'), cipher.final()]);
+        const file: SecretsFile = {
+            version: 1,
+            kdf: 'scrypt',
+            salt: salt.toString('base64'),
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64'),
+        };
+
+        await fs.mkdir(path.dirname(this.file), { recursive: true, mode: DIR_MODE });
+        // Written beside the file and renamed, so a crash never leaves a half-written file
+        const temp = `${this.file}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(file, null, 2), { mode: FILE_MODE });
+        await fs.chmod(temp, FILE_MODE);
+        await fs.rename(temp, this.file);
+    }
+}
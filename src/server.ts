@@ -0,0 +1,558 @@
+import * as http from 'http';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Agent } from '@mastra/core';
+import { createAgent, builtInToolIds, turnInstructions, summarizeConversation, generateTitle } from './agent';
+import { contextLimitFor, compactIfNeeded, activeMessages, type ConversationSummary } from './context-window';
+import { ensureConfig, loadToolPermissions, loadMcpServers, loadGuardrails, ConfigError, type AgentConfig } from './config-wizard';
+import { ToolPermissions, type ToolPolicy } from './permissions';
+import { McpManager } from './mcp';
+import { loadPlugins, type PluginRegistry } from './plugins';
+import { Guardrails, type GuardrailConfig, type GuardrailRule } from './guardrails';
+import { SessionManager, type SessionMessage, type ToolCallRecord } from './session-manager';
+import { ProviderUnavailableError, type Endpoint } from './failover';
+import { validateParams, modelSettings, GenerationParamError, type GenerationParams } from './generation';
+import { EXIT_OK, EXIT_FAILURE, EXIT_USAGE, warnIfUntrusted } from './non-interactive';
+import type { CliOptions } from './cli';
+
+/** Names the session a request continues; set on every reply so clients can send it back */
+export const SESSION_HEADER = 'x-safellm-session';
+const SESSION_ID = /^[A-Za-z0-9._-]+$/;
+/** Bearer token clients must send; read from the environment to keep it out of shell history */
+export const TOKEN_ENV = 'SAFELLM_SERVE_TOKEN';
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PORT = 8484;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface AgentServerOptions {
+    /** When set, every request needs "Authorization: Bearer <token>" */
+    token?: string;
+    toolPermissions?: Record<string, ToolPolicy>;
+    guardrails?: GuardrailConfig;
+    mcp?: McpManager;
+    plugins?: PluginRegistry;
+}
+
+/** The parts of an OpenAI chat message the server reads; content may be a list of parts */
+interface ChatRequestMessage {
+    role: string;
+    content: string | { type: string; text?: string }[] | null;
+}
+
+interface ChatRequest {
+    messages: ChatRequestMessage[];
+    stream?: boolean;
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    max_completion_tokens?: number;
+    stop?: string | string[];
+    seed?: number;
+}
+
+/** One request's agent call, shared by the streamed and plain replies */
+interface Turn {
+    agent: Agent;
+    prompt: any[];
+    instructions: string;
+    generation?: GenerationParams;
+    guardrails: Guardrails;
+    sessionId: string;
+    /** Stores the reply; called before the response ends, so the client's next request sees it */
+    save: (reply: Omit<SessionMessage, 'role' | 'timestamp'>) => Promise<void>;
+}
+
+/** Turned into an OpenAI-style error body */
+class HttpError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+    }
+}
+
+function textOf(content: ChatRequestMessage['content']): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content.filter(part => part.type === 'text' && part.text).map(part => part.text).join('\n');
+}
+
+/** The request's sampling fields over the profile's generation params */
+function requestGeneration(body: ChatRequest, profile: GenerationParams = {}): GenerationParams | undefined {
+    try {
+        const generation = {
+            ...profile,
+            ...validateParams({
+                temperature: body.temperature,
+                topP: body.top_p,
+                maxTokens: body.max_completion_tokens ?? body.max_tokens,
+                stop: typeof body.stop === 'string' ? [body.stop] : body.stop,
+                seed: body.seed,
+            }),
+        };
+        return Object.keys(generation).length > 0 ? generation : undefined;
+    } catch (error) {
+        if (error instanceof GenerationParamError) throw new HttpError(400, 'invalid_parameter', error.message);
+        throw error;
+    }
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'request_too_large', 'The request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch {
+                reject(new HttpError(400, 'invalid_json', 'The request body is not valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+function isWildcard(host: string): boolean {
+    return host === '0.0.0.0' || host === '::';
+}
+
+/** The host name of a Host header or an Origin, without port or IPv6 brackets; null if unparsable */
+function hostnameOf(value: string, isOrigin = false): string | null {
+    try {
+        return new URL(isOrigin ? value : `http://${value}`).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+const THINK_TAGS = ['<think>', '</think>'];
+
+/**
+ * Splits streamed text into answer and <think> reasoning, returning only
+ * what is new on each push. A trailing "<thi" is held back until it's
+ * clear whether it starts a tag.
+ */
+class ThinkSplitter {
+    private text = '';
+    private sentContent = 0;
+    private sentReasoning = 0;
+
+    push(delta: string, final = false): { content: string; reasoning: string } {
+        this.text += delta;
+        const tail = this.text.slice(this.text.lastIndexOf('<'));
+        const partialTag = !final && this.text.includes('<') && THINK_TAGS.some(tag => tag.length > tail.length && tag.startsWith(tail));
+        const stable = partialTag ? this.text.slice(0, this.text.length - tail.length) : this.text;
+
+        let content = '';
+        let reasoning = '';
+        let inThink = false;
+        for (const part of stable.split(/(<\/?think>)/)) {
+            if (part === '<think>') inThink = true;
+            else if (part === '</think>') inThink = false;
+            else if (inThink) reasoning += part;
+            else content += part;
+        }
+
+        const fresh = { content: content.slice(this.sentContent), reasoning: reasoning.slice(this.sentReasoning) };
+        this.sentContent = content.length;
+        this.sentReasoning = reasoning.length;
+        return fresh;
+    }
+}
+
+/**
+ * Serves the agent over an OpenAI-compatible API: POST /v1/chat/completions
+ * (streamed or not) and GET /v1/models. Each request gets its own agent,
+ * built like the chat loop's, with the same tools, permissions and
+ * guardrails; "ask" tools are refused since nobody is there to approve them.
+ *
+ * Without the session header a request starts a new session holding the
+ * messages it sent. With it, the request continues that session: the
+ * stored history is used and only the user messages after the client's
+ * last assistant message are added, so clients may send either the whole
+ * conversation or just the new turn.
+ */
+export class AgentServer {
+    private server = http.createServer((req, res) => void this.handle(req, res));
+    // Requests for the same session run one after another
+    private sessionQueues = new Map<string, Promise<unknown>>();
+    private readonly created = Math.floor(Date.now() / 1000);
+    private host = DEFAULT_HOST;
+
+    constructor(private config: AgentConfig, private options: AgentServerOptions = {}) { }
+
+    listen(port: number = DEFAULT_PORT, host: string = DEFAULT_HOST): Promise<void> {
+        this.host = host;
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /** Base URL, e.g. http://127.0.0.1:8484 */
+    get url(): string {
+        const address = this.server.address() as AddressInfo;
+        const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+        return `http://${host}:${address.port}`;
+    }
+
+    async close(): Promise<void> {
+        // Open streams and keep-alive sockets would otherwise hold close() up
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    private authorized(req: http.IncomingMessage): boolean {
+        if (!this.options.token) return true;
+        const given = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+        // Compared as hashes so the check takes the same time whatever the length
+        const digest = (value: string) => createHash('sha256').update(value).digest();
+        return timingSafeEqual(digest(given), digest(this.options.token));
+    }
+
+    /**
+     * Host names requests may be addressed to: loopback ones and the one
+     * listened on. Refusing others stops DNS rebinding, where a web page's
+     * own host name is made to resolve to 127.0.0.1. A wildcard address
+     * can't say which names are ours; it always requires a token instead.
+     */
+    private allowedHost(hostname: string | null): boolean {
+        if (!hostname) return false;
+        return isLoopback(hostname) || isWildcard(this.host) || hostname === hostnameOf(this.host);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+            if (!this.allowedHost(hostnameOf(req.headers.host ?? ''))) {
+                throw new HttpError(403, 'forbidden_host', 'The Host header does not name this server.');
+            }
+            // Browsers send Origin with cross-site requests; API clients don't send one at all
+            const origin = req.headers.origin;
+            if (origin !== undefined && !this.allowedHost(hostnameOf(origin, true))) {
+                throw new HttpError(403, 'forbidden_origin', 'Cross-site requests are not allowed.');
+            }
+            if (!this.authorized(req)) {
+                throw new HttpError(401, 'invalid_api_key', 'Missing or invalid bearer token.');
+            }
+            if (req.method === 'GET' && pathname === '/v1/models') {
+                this.sendJson(res, 200, {
+                    object: 'list',
+                    data: [{ id: this.config.modelId, object: 'model', created: this.created, owned_by: 'safellm' }],
+                });
+                return;
+            }
+            if (req.method === 'POST' && pathname === '/v1/chat/completions') {
+                await this.chatCompletion(req, res);
+                return;
+            }
+            throw new HttpError(404, 'not_found', `Unknown endpoint: ${req.method} ${pathname}`);
+        } catch (error) {
+            // No endpoint answering is the upstream's fault, not ours
+            const known = error instanceof ProviderUnavailableError ? new HttpError(503, 'model_unavailable', error.message) : error;
+            const status = known instanceof HttpError ? known.status : 500;
+            const code = known instanceof HttpError ? known.code : 'server_error';
+            const message = error instanceof Error ? error.message : String(error);
+            if (!res.headersSent) {
+                this.sendJson(res, status, { error: { message, type: status >= 500 ? 'server_error' : 'invalid_request_error', code } });
+            } else if (!res.writableEnded) {
+                // Mid-stream the status is already sent; report in the stream and stop
+                res.end(`data: ${JSON.stringify({ error: { message, type: 'server_error', code } })}\n\ndata: [DONE]\n\n`);
+            }
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private async chatCompletion(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        // A web page can POST text/plain anywhere without asking; JSON needs a CORS preflight it won't get
+        if (req.headers['content-type']?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+            throw new HttpError(415, 'unsupported_media_type', 'The request body must be application/json.');
+        }
+        const body: ChatRequest = await readJson(req);
+        if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+            throw new HttpError(400, 'invalid_messages', '"messages" must be a non-empty array.');
+        }
+        if (body.messages.at(-1)?.role !== 'user') {
+            throw new HttpError(400, 'invalid_messages', 'The last message must be from the user.');
+        }
+
+        const sessionId = req.headers[SESSION_HEADER];
+        if (typeof sessionId !== 'string' || !sessionId) {
+            await this.respond(body, null, res);
+            return;
+        }
+        // The ID names a file in the sessions directory; nothing may lead out of it
+        if (!SESSION_ID.test(sessionId) || sessionId.includes('..')) {
+            throw new HttpError(400, 'invalid_session', `Invalid ${SESSION_HEADER} header.`);
+        }
+        const previous = this.sessionQueues.get(sessionId) ?? Promise.resolve();
+        const run = previous.then(() => this.respond(body, sessionId, res));
+        const queued = run.catch(() => undefined);
+        this.sessionQueues.set(sessionId, queued);
+        try {
+            await run;
+        } finally {
+            if (this.sessionQueues.get(sessionId) === queued) this.sessionQueues.delete(sessionId);
+        }
+    }
+
+    private async respond(body: ChatRequest, sessionId: string | null, res: http.ServerResponse): Promise<void> {
+        const { config } = this;
+        const generation = requestGeneration(body, config.generation);
+        const info = { model: config.modelId, provider: config.provider };
+        const sessionManager = new SessionManager();
+        const guardrails = new Guardrails(this.options.guardrails, event => void sessionManager.logGuardrail(event));
+
+        let messages: SessionMessage[];
+        let summary: ConversationSummary | null;
+        let incoming: ChatRequestMessage[];
+        if (sessionId) {
+            const session = await sessionManager.loadSession(sessionId);
+            if (!session) throw new HttpError(404, 'session_not_found', `Session not found: ${sessionId}`);
+            messages = session.messages;
+            summary = session.summary ?? null;
+            const lastReply = body.messages.map(message => message.role).lastIndexOf('assistant');
+            incoming = body.messages.slice(lastReply + 1).filter(message => message.role === 'user');
+        } else {
+            await sessionManager.createSession(info);
+            messages = [];
+            summary = null;
+            incoming = body.messages.filter(message => message.role === 'user' || message.role === 'assistant');
+        }
+
+        // Earlier replies come from the client too, so they are scanned like replies of ours before being saved or sent
+        for (const message of incoming) {
+            const role = message.role === 'assistant' ? 'assistant' : 'user';
+            const scanned = guardrails.scan(textOf(message.content), role === 'assistant' ? 'output' : 'input');
+            if (scanned.blocked) {
+                throw new HttpError(400, 'guardrail_blocked', `Message not sent: it matched the "${scanned.blocked.id}" guardrail.`);
+            }
+            messages.push({ role, content: scanned.text, timestamp: new Date().toISOString() });
+        }
+        await sessionManager.logInteraction(messages, info);
+
+        const compacted = await compactIfNeeded(messages, summary, contextLimitFor(config),
+            (older, previous) => summarizeConversation(config, older, previous));
+        if (compacted) {
+            summary = compacted;
+            await sessionManager.saveSummary(summary);
+        }
+
+        // The client's own system prompt (e.g. an editor's) is added to ours, keeping a single system message
+        const systemPrompts = body.messages.filter(m => m.role === 'system' || m.role === 'developer').map(m => textOf(m.content)).filter(Boolean);
+        let endpoint: Endpoint = config;
+        const agent = createAgent(config, {
+            permissions: new ToolPermissions(this.options.toolPermissions),
+            sessionManager,
+            mcp: this.options.mcp,
+            plugins: this.options.plugins,
+            guardrails,
+            onProviderEvent: event => {
+                if (event.type === 'answered') endpoint = event.endpoint;
+            },
+        });
+        const id = sessionManager.currentId!;
+        const turn: Turn = {
+            agent,
+            prompt: activeMessages(messages, summary),
+            instructions: [turnInstructions(config, summary), ...systemPrompts].join('\n\n'),
+            generation,
+            guardrails,
+            sessionId: id,
+            save: async reply => {
+                messages.push({ role: 'assistant', timestamp: new Date().toISOString(), ...reply, provider: endpoint.provider, model: endpoint.modelId, endpoint: endpoint.baseUrl, ...(generation && { generation }) });
+                await sessionManager.logInteraction(messages, { model: endpoint.modelId, provider: endpoint.provider });
+                if (messages.filter(m => m.role === 'assistant').length === 1) {
+                    generateTitle(config, messages)
+                        .then(title => sessionManager.applyGeneratedTitle(id, title))
+                        .catch(() => { /* listed by the first message instead */ });
+                }
+            },
+        };
+
+        if (body.stream) await this.streamReply(turn, res);
+        else await this.generateReply(turn, res);
+    }
+
+    /** Sends a chat.completion */
+    private async generateReply({ agent, prompt, instructions, generation, guardrails, sessionId, save }: Turn, res: http.ServerResponse): Promise<void> {
+        const result = await agent.generate(prompt, { instructions, modelSettings: modelSettings(generation) });
+        const scanned = guardrails.scan(result.text, 'output');
+        const scannedReasoning = guardrails.scan(result.reasoningText ?? '', 'output');
+        const blocked = scanned.blocked ?? scannedReasoning.blocked;
+
+        const answer = blocked ? '' : scanned.text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trim();
+        const blocks = [...scanned.text.matchAll(/<think>([\s\S]*?)(<\/think>|$)/g)].map(match => match[1].trim());
+        const thinking = blocked ? '' : [scannedReasoning.text.trim(), ...blocks].filter(Boolean).join('\n\n');
+        const toolCalls: ToolCallRecord[] = result.toolCalls.map(call => ({
+            name: call.payload.toolName,
+            args: call.payload.args,
+            result: result.toolResults.find(r => r.payload.toolCallId === call.payload.toolCallId)?.payload.result,
+        }));
+        const usage = result.totalUsage;
+
+        if (answer) await save({ content: answer, ...(thinking && { thinking }), ...(toolCalls.length > 0 && { toolCalls }) });
+        res.writeHead(200, { 'Content-Type': 'application/json', [SESSION_HEADER]: sessionId });
+        res.end(JSON.stringify({
+            id: `chatcmpl-${randomUUID()}`,
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model: this.config.modelId,
+            choices: [{
+                index: 0,
+                message: { role: 'assistant', content: answer, ...(thinking && { reasoning_content: thinking }) },
+                finish_reason: blocked ? 'content_filter' : result.finishReason === 'length' ? 'length' : 'stop',
+            }],
+            usage: {
+                prompt_tokens: usage?.inputTokens ?? 0,
+                completion_tokens: usage?.outputTokens ?? 0,
+                total_tokens: usage?.totalTokens ?? 0,
+            },
+        }));
+    }
+
+    /**
+     * Relays the agent's stream as server-sent chat.completion.chunk events.
+     * Text goes through the same stream guards as the chat loop, and
+     * reasoning (native or <think>) is sent as `reasoning_content`.
+     */
+    private async streamReply({ agent, prompt, instructions, generation, guardrails, sessionId, save }: Turn, res: http.ServerResponse): Promise<void> {
+        const id = `chatcmpl-${randomUUID()}`;
+        const created = Math.floor(Date.now() / 1000);
+        const send = (delta: Record<string, string>, finishReason: string | null = null) => {
+            res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: this.config.modelId, choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`);
+        };
+
+        const textGuard = guardrails.streamGuard();
+        const reasoningGuard = guardrails.streamGuard();
+        const splitter = new ThinkSplitter();
+        const toolCalls: ToolCallRecord[] = [];
+        const pendingCalls = new Map<string, ToolCallRecord>();
+        let content = '';
+        let thinking = '';
+        const emit = (part: { content: string; reasoning: string }) => {
+            if (part.reasoning) send({ reasoning_content: part.reasoning });
+            if (part.content) send({ content: part.content });
+            content += part.content;
+            thinking += part.reasoning;
+        };
+
+        // Opened before the model answers, so a slow first token doesn't look like a dead server
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive', [SESSION_HEADER]: sessionId });
+        send({ role: 'assistant', content: '' });
+
+        // A client that hangs up stops the generation
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+
+        const stream = await agent.stream(prompt, { instructions, modelSettings: modelSettings(generation), abortSignal: controller.signal });
+        let blocked: GuardrailRule | null = null;
+        for await (const chunk of stream.fullStream) {
+            if (res.destroyed) return;
+            if (chunk.type === 'text-delta') {
+                emit(splitter.push(textGuard.push(chunk.payload.text)));
+            } else if (chunk.type === 'reasoning-delta') {
+                emit({ content: '', reasoning: reasoningGuard.push(chunk.payload.text) });
+            } else if (chunk.type === 'tool-call') {
+                const call: ToolCallRecord = { name: chunk.payload.toolName, args: chunk.payload.args };
+                toolCalls.push(call);
+                pendingCalls.set(chunk.payload.toolCallId, call);
+            } else if (chunk.type === 'tool-result') {
+                const call = pendingCalls.get(chunk.payload.toolCallId);
+                if (call) call.result = chunk.payload.result;
+            } else if (chunk.type === 'error') {
+                throw chunk.payload.error;
+            }
+            blocked = textGuard.blocked ?? reasoningGuard.blocked;
+            if (blocked) break;
+        }
+        if (!blocked) {
+            emit({ content: '', reasoning: reasoningGuard.end() });
+            emit(splitter.push(textGuard.end(), true));
+            blocked = textGuard.blocked ?? reasoningGuard.blocked;
+        }
+
+        send({}, blocked ? 'content_filter' : 'stop');
+        const answer = content.trim();
+        if (answer && !blocked) {
+            await save({ content: answer, ...(thinking.trim() && { thinking: thinking.trim() }), ...(toolCalls.length > 0 && { toolCalls }) });
+        }
+        res.end('data: [DONE]\n\n');
+    }
+}
+
+/** `safellm serve`: runs the API server until interrupted */
+export async function runServeCommand(options: CliOptions): Promise<number> {
+    const host = options.host ?? DEFAULT_HOST;
+    const configuredToken = process.env[TOKEN_ENV] || undefined;
+    if (!isLoopback(host) && !configuredToken) {
+        process.stderr.write(`Refusing to listen on ${host} without ${TOKEN_ENV}: anyone who can reach it could use the agent and its tools.\n`);
+        return EXIT_USAGE;
+    }
+
+    let config;
+    try {
+        config = await ensureConfig({ interactive: false, profile: options.profile });
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        process.stderr.write(`${error.message}\n`);
+        return EXIT_USAGE;
+    }
+
+    // Other local programs and users could reach a loopback port too, so there is always a token
+    const token = configuredToken ?? randomBytes(24).toString('base64url');
+    const mcp = new McpManager(await loadMcpServers());
+    await mcp.connectAll();
+    const plugins = await loadPlugins({ reservedToolIds: builtInToolIds() });
+    await warnIfUntrusted(plugins);
+    const server = new AgentServer(config, {
+        token,
+        toolPermissions: await loadToolPermissions(),
+        guardrails: await loadGuardrails(),
+        mcp,
+        plugins,
+    });
+
+    try {
+        await server.listen(options.port ?? DEFAULT_PORT, host);
+    } catch (error) {
+        process.stderr.write(`Could not listen on ${host}:${options.port ?? DEFAULT_PORT}: ${error instanceof Error ? error.message : String(error)}\n`);
+        await mcp.close();
+        return EXIT_FAILURE;
+    }
+
+    process.stderr.write(`Serving ${config.modelId} (profile ${config.profile}) at ${server.url}/v1\n`);
+    process.stderr.write(configuredToken
+        ? `Clients must send "Authorization: Bearer $${TOKEN_ENV}".\n`
+        : `Clients must send "Authorization: Bearer ${token}" (set ${TOKEN_ENV} to choose the token).\n`);
+    process.stderr.write(`Send "${SESSION_HEADER}: <id>" to continue a session. Press Ctrl+C to stop.\n`);
+
+    await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+    });
+    await server.close();
+    await mcp.close();
+    return EXIT_OK;
+}
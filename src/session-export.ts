@@ -0,0 +1,199 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Marked } from 'marked';
+import type { Session, SessionMessage, ToolCallRecord } from './session-manager';
+
+export type ExportFormat = 'markdown' | 'html' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'jsonl'];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    jsonl: 'jsonl',
+};
+
+const ROLE_LABELS: Record<SessionMessage['role'], string> = {
+    user: '🧑 User',
+    assistant: '🤖 Assistant',
+    system: '⚙️ System',
+    tool: '🔧 Tool',
+};
+
+// Separate instance: the global `marked` is wired to the terminal renderer
+const htmlMarked = new Marked({
+    gfm: true,
+    breaks: false,
+    renderer: {
+        // Raw HTML in messages is shown as text, never injected into the page
+        html({ text }) {
+            return escapeHtml(text);
+        },
+    },
+});
+
+/** Accepts "md" and "htm" as well as the full format names */
+export function parseExportFormat(value: string): ExportFormat | null {
+    const normalized = value.toLowerCase();
+    if (normalized === 'md' || normalized === 'markdown') return 'markdown';
+    if (normalized === 'html' || normalized === 'htm') return 'html';
+    if (normalized === 'jsonl') return 'jsonl';
+    return null;
+}
+
+/**
+ * Parses `[format] [path]` arguments. The format may be left out when the
+ * path's extension implies it (`notes.html`); with neither it's markdown.
+ * Returns null for an unknown format.
+ */
+export function parseExportArgs(args: string[]): { format: ExportFormat; path?: string } | null {
+    if (args.length === 0) return { format: 'markdown' };
+
+    const format = parseExportFormat(args[0]);
+    if (format) {
+        return { format, path: args.slice(1).join(' ') || undefined };
+    }
+
+    const target = args.join(' ');
+    if (!path.extname(target) && !target.includes(path.sep)) return null;
+    return { format: parseExportFormat(path.extname(target).slice(1)) ?? 'markdown', path: target };
+}
+
+function markdownToHtml(text: string): string {
+    return htmlMarked.parse(text) as string;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function formatTime(timestamp?: string): string {
+    return timestamp ? new Date(timestamp).toLocaleString() : '';
+}
+
+function renderMarkdown(session: Session): string {
+    const lines: string[] = [
+        `# ${session.id}`,
+        '',
+        `_Created ${formatTime(session.createdAt)} · ${session.messages.length} messages_`,
+        '',
+    ];
+
+    for (const message of session.messages) {
+        const time = formatTime(message.timestamp);
+        lines.push('---', '', `### ${ROLE_LABELS[message.role] ?? message.role}${time ? ` · ${time}` : ''}`, '');
+
+        if (message.thinking) {
+            lines.push('<details>', '<summary>Thinking</summary>', '', message.thinking, '', '</details>', '');
+        }
+        for (const call of message.toolCalls ?? []) {
+            lines.push(`**Tool call:** \`${call.name}\``, '', '```json', formatValue(call.args), '```', '');
+            if (call.result !== undefined) {
+                lines.push('**Result:**', '', '```json', formatValue(call.result), '```', '');
+            }
+        }
+        lines.push(message.content, '');
+    }
+
+    return lines.join('\n');
+}
+
+function renderToolCallHtml(call: ToolCallRecord): string {
+    const result = call.result === undefined
+        ? ''
+        : `<h4>Result</h4><pre>${escapeHtml(formatValue(call.result))}</pre>`;
+    return `<details class="tool"><summary>🔧 ${escapeHtml(call.name)}</summary><h4>Arguments</h4><pre>${escapeHtml(formatValue(call.args))}</pre>${result}</details>`;
+}
+
+function renderHtml(session: Session): string {
+    const body = session.messages.map(message => {
+        const time = formatTime(message.timestamp);
+        const thinking = message.thinking
+            ? `<details class="thinking"><summary>Thinking</summary><div>${markdownToHtml(message.thinking)}</div></details>`
+            : '';
+        const tools = (message.toolCalls ?? []).map(renderToolCallHtml).join('');
+
+        return `<article class="message ${escapeHtml(message.role)}">
+<header><strong>${escapeHtml(ROLE_LABELS[message.role] ?? message.role)}</strong>${time ? ` <time datetime="${escapeHtml(message.timestamp!)}">${escapeHtml(time)}</time>` : ''}</header>
+${thinking}${tools}<div class="content">${markdownToHtml(message.content ?? '')}</div>
+</article>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.id)} · SafeLLM</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 820px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+h1 { font-size: 1.4rem; margin-bottom: 0; }
+.meta { color: #6e7781; margin-top: 0.25rem; }
+.message { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #f6f8fa; }
+.message header { display: flex; justify-content: space-between; color: #57606a; font-size: 0.9rem; }
+details { margin: 0.5rem 0; color: #57606a; }
+details summary { cursor: pointer; }
+details.thinking div { border-left: 3px solid #d0d7de; padding-left: 0.75rem; }
+pre { background: #f6f8fa; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.id)}</h1>
+<p class="meta">Created ${escapeHtml(formatTime(session.createdAt))} · ${session.messages.length} messages</p>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * OpenAI fine-tuning format: the whole session is one line of
+ * `{"messages": [...]}`, with tool calls as assistant `tool_calls` followed
+ * by `tool` messages carrying their results.
+ */
+function renderJsonl(session: Session): string {
+    const messages: any[] = [];
+    let callIndex = 0;
+
+    for (const message of session.messages) {
+        if (message.role === 'assistant' && message.toolCalls?.length) {
+            const calls = message.toolCalls.map(call => ({
+                id: `call_${++callIndex}`,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+            }));
+            messages.push({ role: 'assistant', content: null, tool_calls: calls });
+            message.toolCalls.forEach((call, i) => {
+                messages.push({ role: 'tool', tool_call_id: calls[i].id, content: JSON.stringify(call.result ?? null) });
+            });
+        }
+        messages.push({ role: message.role, content: message.content });
+    }
+
+    return JSON.stringify({ messages }) + '\n';
+}
+
+export function renderSession(session: Session, format: ExportFormat): string {
+    switch (format) {
+        case 'markdown': return renderMarkdown(session);
+        case 'html': return renderHtml(session);
+        case 'jsonl': return renderJsonl(session);
+    }
+}
+
+/** Writes the export and returns the path; defaults to `<session id>.<ext>` in the cwd */
+export async function exportSession(session: Session, format: ExportFormat, outputPath?: string): Promise<string> {
+    const target = path.resolve(outputPath || `${session.id}.${EXTENSIONS[format]}`);
+    await fs.writeFile(target, renderSession(session, format));
+    return target;
+}
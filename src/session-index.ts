@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Session } from './session-manager';
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Prefix matches ("migrat" -> "migration") count for less than exact ones
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+
+// A query term appearing in the session name
+const NAME_MATCH_BOOST = 2;
+
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'is', 'are', 'was', 'were', 'to', 'of', 'and', 'or', 'in', 'on', 'for', 'with', 'it', 'that', 'this', 'we', 'me', 'my', 'i', 'you']);
+
+interface IndexedMessage {
+    role: string;
+    content: string;
+    timestamp?: string;
+    /** Token count, for length normalization */
+    length: number;
+}
+
+interface IndexedSession {
+    id: string;
+    createdAt: string;
+    /** File modification time when indexed; a mismatch means it changed elsewhere */
+    mtimeMs: number;
+    messages: IndexedMessage[];
+}
+
+/** [session filename, message index, term frequency] */
+type Posting = [string, number, number];
+
+interface IndexFile {
+    version: 1;
+    /** Keyed by session filename */
+    sessions: Record<string, IndexedSession>;
+    terms: Record<string, Posting[]>;
+}
+
+export interface SessionSearchResult {
+    sessionId: string;
+    /** Index of the best-matching message, or -1 when only the session name matched */
+    messageIndex: number;
+    role: string;
+    snippet: string;
+    /** Timestamp of the matching message, or the session's creation date */
+    date: string;
+    score: number;
+    /** Number of messages in the session that matched */
+    matches: number;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function countTerms(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/** Text around the first occurrence of the phrase or any query term */
+function makeSnippet(content: string, query: string, terms: string[]): string {
+    const text = content.replace(/\s+/g, ' ').trim();
+    const lower = text.toLowerCase();
+
+    let position = lower.indexOf(query.toLowerCase().trim());
+    if (position < 0) {
+        const found = terms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+        position = found.length ? Math.min(...found) : 0;
+    }
+
+    let start = Math.max(0, position - Math.floor(SNIPPET_LENGTH / 3));
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space >= 0 && space < position) start = space + 1;
+    }
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > position) end = space;
+    }
+
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Inverted index over message content in the session directory, kept in a
+ * single JSON file. Sessions are indexed incrementally as they are logged;
+ * files changed or removed by other means are picked up by comparing
+ * modification times before each search.
+ */
+export class SessionIndex {
+    // Serializes read-modify-write cycles of the index file
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private indexPath: string,
+        private sessionDir: string,
+    ) { }
+
+    /** Indexes the session's messages, appending when only new messages were added */
+    async update(session: Session): Promise<void> {
+        await this.mutate(async file => {
+            const filename = session.filename || `${session.id}.json`;
+            this.indexSession(file, filename, session, await this.modifiedTime(filename));
+            return true;
+        });
+    }
+
+    async search(query: string, options: { limit?: number } = {}): Promise<SessionSearchResult[]> {
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0) return [];
+
+        const file = await this.mutate(file => this.sync(file));
+        return this.rank(file, query, terms).slice(0, options.limit ?? 5);
+    }
+
+    private rank(file: IndexFile, query: string, terms: string[]): SessionSearchResult[] {
+        const sessions = Object.entries(file.sessions);
+        const totalMessages = sessions.reduce((total, [, session]) => total + session.messages.length, 0);
+        if (totalMessages === 0) return [];
+
+        const averageLength = sessions.reduce(
+            (total, [, session]) => total + session.messages.reduce((sum, message) => sum + message.length, 0),
+            0,
+        ) / totalMessages || 1;
+
+        // filename -> message index -> [score, distinct query terms matched]
+        const scores = new Map<string, Map<number, [number, Set<string>]>>();
+        const allTerms = Object.keys(file.terms);
+
+        for (const term of terms) {
+            const variants: [string, number][] = allTerms
+                .filter(candidate => candidate === term || (term.length >= MIN_PREFIX_LENGTH && candidate.startsWith(term)))
+                .map(candidate => [candidate, candidate === term ? 1 : PREFIX_WEIGHT]);
+
+            for (const [variant, weight] of variants) {
+                const postings = file.terms[variant];
+                const idf = Math.log(1 + (totalMessages - postings.length + 0.5) / (postings.length + 0.5));
+
+                for (const [filename, messageIndex, frequency] of postings) {
+                    const message = file.sessions[filename]?.messages[messageIndex];
+                    if (!message) continue;
+
+                    const normalized = frequency * (K1 + 1) /
+                        (frequency + K1 * (1 - B + B * message.length / averageLength));
+
+                    const bySession = scores.get(filename) ?? new Map<number, [number, Set<string>]>();
+                    const entry = bySession.get(messageIndex) ?? [0, new Set<string>()];
+                    entry[0] += weight * idf * normalized;
+                    entry[1].add(term);
+                    bySession.set(messageIndex, entry);
+                    scores.set(filename, bySession);
+                }
+            }
+        }
+
+        const results: SessionSearchResult[] = [];
+        const phrase = query.toLowerCase().trim();
+
+        for (const [filename, session] of sessions) {
+            // Generated `session-<timestamp>` IDs carry no meaning worth matching
+            const nameTokens = new Set(session.id.startsWith('session-') ? [] : tokenize(session.id));
+            const nameScore = terms.filter(term => nameTokens.has(term)).length * NAME_MATCH_BOOST;
+            const matched = scores.get(filename);
+            if (!matched && nameScore === 0) continue;
+
+            let best = -1;
+            let bestScore = 0;
+            let otherScores = 0;
+            for (const [messageIndex, [score, matchedTerms]] of matched ?? []) {
+                let adjusted = score * (matchedTerms.size / terms.length);
+                if (terms.length > 1 && session.messages[messageIndex].content.toLowerCase().includes(phrase)) {
+                    adjusted *= 1.5;
+                }
+                if (adjusted > bestScore) {
+                    otherScores += bestScore;
+                    bestScore = adjusted;
+                    best = messageIndex;
+                } else {
+                    otherScores += adjusted;
+                }
+            }
+
+            // The best message dominates; further matches in the session add a little
+            const score = bestScore + otherScores * 0.1 + nameScore;
+            const message = best >= 0 ? session.messages[best] : session.messages[0];
+
+            results.push({
+                sessionId: session.id,
+                messageIndex: best,
+                role: message?.role ?? '',
+                snippet: message ? makeSnippet(message.content, query, terms) : '',
+                date: message?.timestamp ?? session.createdAt,
+                score: Math.round(score * 100) / 100,
+                matches: matched?.size ?? 0,
+            });
+        }
+
+        return results.sort((a, b) => b.score - a.score || b.date.localeCompare(a.date));
+    }
+
+    private indexSession(file: IndexFile, filename: string, session: Session, mtimeMs: number) {
+        const existing = file.sessions[filename];
+        const messages = session.messages ?? [];
+
+        // Logging only ever appends, so unchanged earlier messages need no work
+        const appendOnly = existing &&
+            existing.id === session.id &&
+            existing.messages.length <= messages.length &&
+            existing.messages.every((message, i) => message.content === messages[i].content);
+
+        if (!appendOnly) this.removeSession(file, filename);
+
+        const indexed: IndexedSession = appendOnly
+            ? existing
+            : { id: session.id, createdAt: session.createdAt, mtimeMs, messages: [] };
+        indexed.mtimeMs = mtimeMs;
+
+        for (let i = indexed.messages.length; i < messages.length; i++) {
+            const message = messages[i];
+            const content = typeof message.content === 'string' ? message.content : '';
+            const counts = countTerms(content);
+
+            indexed.messages.push({
+                role: message.role,
+                content,
+                timestamp: message.timestamp,
+                length: [...counts.values()].reduce((total, count) => total + count, 0),
+            });
+            for (const [term, count] of counts) {
+                (file.terms[term] ??= []).push([filename, i, count]);
+            }
+        }
+
+        file.sessions[filename] = indexed;
+    }
+
+    private removeSession(file: IndexFile, filename: string) {
+        if (!file.sessions[filename]) return;
+        delete file.sessions[filename];
+
+        for (const [term, postings] of Object.entries(file.terms)) {
+            const remaining = postings.filter(([posting]) => posting !== filename);
+            if (remaining.length === 0) delete file.terms[term];
+            else if (remaining.length !== postings.length) file.terms[term] = remaining;
+        }
+    }
+
+    /**
+     * Brings the index in line with the session directory: new or modified
+     * files are (re)indexed and deleted ones dropped. Only files whose
+     * modification time changed are read. Returns whether anything changed.
+     */
+    private async sync(file: IndexFile): Promise<boolean> {
+        let names: string[];
+        try {
+            names = (await fs.readdir(this.sessionDir)).filter(name => name.endsWith('.json'));
+        } catch {
+            names = [];
+        }
+
+        let changed = false;
+        for (const filename of Object.keys(file.sessions)) {
+            if (!names.includes(filename)) {
+                this.removeSession(file, filename);
+                changed = true;
+            }
+        }
+
+        for (const filename of names) {
+            const mtimeMs = await this.modifiedTime(filename);
+            if (file.sessions[filename]?.mtimeMs === mtimeMs) continue;
+
+            try {
+                const session: Session = JSON.parse(await fs.readFile(path.join(this.sessionDir, filename), 'utf-8'));
+                this.indexSession(file, filename, session, mtimeMs);
+                changed = true;
+            } catch {
+                // Ignore corrupted files, as listSessions does
+            }
+        }
+
+        return changed;
+    }
+
+    private async modifiedTime(filename: string): Promise<number> {
+        try {
+            return (await fs.stat(path.join(this.sessionDir, filename))).mtimeMs;
+        } catch {
+            return 0;
+        }
+    }
+
+    /** Applies `change` to the loaded index, saving it when `change` reports a modification */
+    private async mutate(change: (file: IndexFile) => Promise<boolean>): Promise<IndexFile> {
+        const run = this.queue.then(async () => {
+            const file = await this.load();
+            if (await change(file)) {
+                await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+                await fs.writeFile(this.indexPath, JSON.stringify(file));
+            }
+            return file;
+        });
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async load(): Promise<IndexFile> {
+        try {
+            const file: IndexFile = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+            if (file.version === 1) return file;
+        } catch {
+            // Missing or unreadable: rebuilt from the session files on the next search
+        }
+        return { version: 1, sessions: {}, terms: {} };
+    }
+}
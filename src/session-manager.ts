@@ -1,160 +1,430 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { ConversationSummary } from './context-window';
+import type { CommandRecord } from './command-runner';
+import type { GuardrailEvent } from './guardrails';
+import type { GenerationParams } from './generation';
+import { SessionIndex, type SessionSearchResult } from './session-index';
+import { resolvePaths } from './paths';
 
-const SESSION_DIR = path.join(process.cwd(), '.safellm');
+export interface ToolCallRecord {
+    name: string;
+    args: unknown;
+    result?: unknown;
+}
+
+/**
+ * A chat message as stored in the session file. Only role and content are
+ * sent to the model; the rest is kept for export and review.
+ */
+export interface SessionMessage {
+    role: 'user' | 'assistant' | 'system' | 'tool';
+    content: string;
+    timestamp?: string;
+    /** Reasoning shown in the "Thinking Process" area */
+    thinking?: string;
+    toolCalls?: ToolCallRecord[];
+    /** Provider, model and base URL that wrote an assistant message; a fallback's when the profile's endpoint failed */
+    provider?: string;
+    model?: string;
+    endpoint?: string;
+    /** Generation params the reply was requested with; unset ones were left to the server */
+    generation?: GenerationParams;
+}
 
 export interface Session {
     id: string;
     filename: string;
     createdAt: string;
-    messages: any[];
+    /** Short description, generated after the first exchange or set by /rename */
+    title?: string;
+    updatedAt: string;
+    /** Model and provider that produced the latest reply */
+    model?: string;
+    provider?: string;
+    tags: string[];
+    /** Pinned sessions are listed first */
+    pinned: boolean;
+    /** Set on sessions created by /branch: the session forked from... */
+    parentId?: string;
+    /** ...and how many of its messages were copied */
+    branchedAt?: number;
+    messages: SessionMessage[];
+    /** Summary standing in for the oldest messages once the context filled up */
+    summary?: ConversationSummary;
+    /** Audit log of run-command calls, including refused ones */
+    commands?: CommandRecord[];
+    /** Every guardrail that fired, with the rule and what was done */
+    guardrailEvents?: GuardrailEvent[];
+}
+
+/** The model in use, recorded on the session whenever it is logged */
+export interface SessionInfo {
+    model?: string;
+    provider?: string;
+}
+
+export interface SessionFilter {
+    tag?: string;
+    /** Only sessions last active on or after this date */
+    since?: Date;
+    /** Only sessions last active before this date */
+    until?: Date;
+}
+
+/** Fills in fields that session files written by older versions lack */
+function normalizeSession(data: any): Session {
+    return {
+        ...data,
+        updatedAt: data.updatedAt ?? data.createdAt,
+        tags: Array.isArray(data.tags) ? data.tags : [],
+        pinned: data.pinned === true,
+        messages: Array.isArray(data.messages) ? data.messages : [],
+    };
+}
+
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/** Accepts YYYY-MM-DD (or anything Date parses) and relative "<n>d" / "<n>w" */
+function parseDate(value: string): Date | null {
+    const relative = value.match(/^(\d+)([dw])$/i);
+    if (relative) {
+        const days = Number(relative[1]) * (relative[2].toLowerCase() === 'w' ? 7 : 1);
+        const date = new Date();
+        date.setHours(0, 0, 0, 0);
+        date.setDate(date.getDate() - days);
+        return date;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parses `/history` arguments: a page number, `#tag` or `tag:<tag>`,
+ * `since:<date>` and `until:<date>`. Returns an error message for anything else.
+ */
+export function parseHistoryArgs(args: string[]): { page: number; filter: SessionFilter } | string {
+    const filter: SessionFilter = {};
+    let page = 1;
+
+    for (const arg of args) {
+        const [key, value] = arg.includes(':') ? [arg.slice(0, arg.indexOf(':')).toLowerCase(), arg.slice(arg.indexOf(':') + 1)] : ['', arg];
+        if (!key && /^\d+$/.test(value) && Number(value) > 0) {
+            page = Number(value);
+        } else if (!key && value.startsWith('#') && value.length > 1) {
+            filter.tag = normalizeTag(value);
+        } else if (key === 'tag' && value) {
+            filter.tag = normalizeTag(value);
+        } else if (key === 'since' || key === 'until') {
+            const date = parseDate(value);
+            if (!date) return `Invalid date: ${value}`;
+            if (key === 'since') {
+                filter.since = date;
+            } else {
+                // A bare date means up to the end of that day
+                if (/^\d{4}-\d{2}-\d{2}$/.test(value)) date.setDate(date.getDate() + 1);
+                filter.until = date;
+            }
+        } else {
+            return `Unknown argument: ${arg}`;
+        }
+    }
+
+    return { page, filter };
 }
 
 export class SessionManager {
     private currentSessionId: string | null = null;
+    private searchIndex: { dir: string; index: SessionIndex } | null = null;
+    // Serializes read-modify-write cycles; titles are generated in the background
+    private queue: Promise<unknown> = Promise.resolve();
 
     public get currentId(): string | null {
         return this.currentSessionId;
     }
 
 
-    constructor() {
-        this.ensureSessionDir();
+    /** `dir` defaults to the session directory in effect (see paths.ts), looked up on each use */
+    constructor(private customDir?: string) { }
+
+    private get dir(): string {
+        return this.customDir ?? resolvePaths().sessionDir;
+    }
+
+    private get index(): SessionIndex {
+        if (this.searchIndex?.dir !== this.dir) {
+            // In a subdirectory so listSessions doesn't mistake it for a session
+            this.searchIndex = { dir: this.dir, index: new SessionIndex(path.join(this.dir, 'index', 'search.json'), this.dir) };
+        }
+        return this.searchIndex.index;
     }
 
     private async ensureSessionDir() {
         try {
-            await fs.access(SESSION_DIR);
+            await fs.access(this.dir);
         } catch {
-            await fs.mkdir(SESSION_DIR, { recursive: true });
+            await fs.mkdir(this.dir, { recursive: true });
+        }
+    }
+
+    /** Runs `task` after every read-modify-write queued before it */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Applies `change` to a session file; returns null if it doesn't exist */
+    private async modify(id: string, change: (session: Session) => void): Promise<Session | null> {
+        return this.enqueue(async () => {
+            const filepath = path.join(this.dir, `${id}.json`);
+            let data: string;
+            try {
+                data = await fs.readFile(filepath, 'utf-8');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw error;
+            }
+            const session = normalizeSession(JSON.parse(data));
+            change(session);
+            await fs.writeFile(filepath, JSON.stringify(session, null, 2));
+            return session;
+        });
+    }
+
+    /** modify() on the current session; failures, a missing file included, are reported rather than thrown */
+    private async modifyCurrent(what: string, change: (session: Session) => void): Promise<Session | null> {
+        if (!this.currentSessionId) return null;
+        try {
+            const session = await this.modify(this.currentSessionId, change);
+            if (!session) console.error(`Failed to ${what}: session file ${this.currentSessionId}.json is missing`);
+            return session;
+        } catch (error) {
+            console.error(`Failed to ${what}:`, error);
+            return null;
         }
     }
 
-    async createSession(): Promise<string> {
+    async createSession(info: SessionInfo = {}): Promise<string> {
         await this.ensureSessionDir();
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const id = `session-${timestamp}`;
+        const now = new Date().toISOString();
+        const id = `session-${now.replace(/[:.]/g, '-')}`;
         const filename = `${id}.json`;
 
         const session: Session = {
             id,
             filename,
-            createdAt: new Date().toISOString(),
+            createdAt: now,
+            updatedAt: now,
+            ...info,
+            tags: [],
+            pinned: false,
             messages: []
         };
 
-        await fs.writeFile(path.join(SESSION_DIR, filename), JSON.stringify(session, null, 2));
+        await fs.writeFile(path.join(this.dir, filename), JSON.stringify(session, null, 2));
         this.currentSessionId = id;
         return id;
     }
 
-    async logInteraction(messages: any[]): Promise<void> {
-        if (!this.currentSessionId) return;
+    async logInteraction(messages: any[], info: SessionInfo = {}): Promise<void> {
+        const session = await this.modifyCurrent('log interaction', session => {
+            session.messages = messages;
+            session.updatedAt = new Date().toISOString();
+            if (info.model) session.model = info.model;
+            if (info.provider) session.provider = info.provider;
+        });
 
-        const filepath = path.join(SESSION_DIR, `${this.currentSessionId}.json`);
         try {
-            const data = await fs.readFile(filepath, 'utf-8');
-            const session: Session = JSON.parse(data);
-            session.messages = messages;
-            await fs.writeFile(filepath, JSON.stringify(session, null, 2));
+            if (session) await this.index.update(session);
         } catch (error) {
-            console.error('Failed to log interaction:', error);
+            console.error('Failed to update search index:', error);
         }
     }
 
-    async listSessions(): Promise<Session[]> {
+    /** Full-text search over message content in all sessions, best matches first */
+    async searchSessions(query: string, options: { limit?: number } = {}): Promise<SessionSearchResult[]> {
+        await this.ensureSessionDir();
+        return this.index.search(query, options);
+    }
+
+    async saveSummary(summary: ConversationSummary | null): Promise<void> {
+        await this.modifyCurrent('save summary', session => {
+            if (summary) session.summary = summary;
+            else delete session.summary;
+        });
+    }
+
+    /** Appends a run-command call to the current session's audit log */
+    async logCommand(record: CommandRecord): Promise<void> {
+        await this.modifyCurrent('log command', session => {
+            session.commands = [...(session.commands ?? []), record];
+        });
+    }
+
+    /** Appends a guardrail trigger to the current session */
+    async logGuardrail(event: GuardrailEvent): Promise<void> {
+        await this.modifyCurrent('log guardrail event', session => {
+            session.guardrailEvents = [...(session.guardrailEvents ?? []), event];
+        });
+    }
+
+    /** Updates tags or the pinned flag; returns false if the session doesn't exist */
+    async updateSession(id: string, changes: Partial<Pick<Session, 'title' | 'tags' | 'pinned'>>): Promise<boolean> {
+        const session = await this.modify(id, session => {
+            if (changes.title !== undefined) session.title = changes.title;
+            if (changes.tags) session.tags = [...new Set(changes.tags.map(normalizeTag).filter(Boolean))];
+            if (changes.pinned !== undefined) session.pinned = changes.pinned;
+        });
+        return session !== null;
+    }
+
+    /** Sets a generated title, unless the session was titled in the meantime (e.g. by /rename) */
+    async applyGeneratedTitle(id: string, title: string): Promise<void> {
+        await this.modify(id, session => {
+            if (!session.title) session.title = title;
+        });
+    }
+
+    /**
+     * Forks the current session into a new file with its first `messageCount`
+     * messages (all by default) and switches to it. Returns the new session.
+     */
+    async branchSession(messageCount?: number): Promise<Session | null> {
+        if (!this.currentSessionId) return null;
+        const parent = await this.loadSession(this.currentSessionId);
+        if (!parent) return null;
+
+        const count = Math.min(messageCount ?? parent.messages.length, parent.messages.length);
+        const id = await this.createSession({ model: parent.model, provider: parent.provider });
+        const branch = await this.modify(id, session => {
+            session.title = parent.title;
+            session.tags = [...parent.tags];
+            session.parentId = parent.id;
+            session.branchedAt = count;
+            session.messages = parent.messages.slice(0, count);
+            // The summary only carries over if it covers nothing past the branch point
+            if (parent.summary && parent.summary.coveredMessages <= count) {
+                session.summary = parent.summary;
+            }
+        });
+
+        if (branch) await this.index.update(branch);
+        return branch;
+    }
+
+    /** Sessions matching the filter, pinned first, then most recently active */
+    async listSessions(filter: SessionFilter = {}): Promise<Session[]> {
         await this.ensureSessionDir();
-        const files = await fs.readdir(SESSION_DIR);
+        const files = await fs.readdir(this.dir);
         const sessions: Session[] = [];
 
         for (const file of files) {
             if (file.endsWith('.json')) {
                 try {
-                    const data = await fs.readFile(path.join(SESSION_DIR, file), 'utf-8');
-                    sessions.push(JSON.parse(data));
+                    const data = await fs.readFile(path.join(this.dir, file), 'utf-8');
+                    sessions.push(normalizeSession(JSON.parse(data)));
                 } catch {
                     // Ignore corrupted files
                 }
             }
         }
 
-        return sessions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        const tag = filter.tag && normalizeTag(filter.tag);
+        return sessions
+            .filter(s =>
+                (!tag || s.tags.includes(tag)) &&
+                (!filter.since || new Date(s.updatedAt) >= filter.since) &&
+                (!filter.until || new Date(s.updatedAt) < filter.until)
+            )
+            .sort((a, b) =>
+                Number(b.pinned) - Number(a.pinned) ||
+                new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+            );
     }
 
+    /** Loads a session and makes it the current one */
     async loadSession(filenameOrId: string): Promise<Session | null> {
+        const session = await this.getSession(filenameOrId);
+        if (session) this.currentSessionId = session.id;
+        return session;
+    }
+
+    /** Reads a session by ID or filename without switching to it */
+    async getSession(filenameOrId: string): Promise<Session | null> {
         let filename = filenameOrId;
         if (!filename.endsWith('.json')) {
             filename = `${filename}.json`;
         }
+        // Only files directly inside the sessions directory
+        if (path.basename(filename) !== filename) return null;
 
-        // Handle cases where user passes just the ID but the file might be renamed
-        // Actually, renaming via renameSession updates the filename property but what about the actual file?
-        // Let's assume renameSession renames the actual file too.
-
-        // If exact filename doesn't exist, search by ID
         try {
-            const filepath = path.join(SESSION_DIR, filename);
-            const data = await fs.readFile(filepath, 'utf-8');
-            const session = JSON.parse(data);
-            this.currentSessionId = session.id; // Switch active session
-            return session;
+            const data = await fs.readFile(path.join(this.dir, filename), 'utf-8');
+            return normalizeSession(JSON.parse(data));
         } catch {
-            // Try finding by ID if filename failed
+            // Renamed files no longer match their ID; look through them all
             const sessions = await this.listSessions();
-            const session = sessions.find(s => s.id === filenameOrId || s.filename === filenameOrId || s.filename === filename);
-            if (session) {
-                this.currentSessionId = session.id;
-                return session;
-            }
+            return sessions.find(s => s.id === filenameOrId || s.filename === filenameOrId || s.filename === filename) ?? null;
         }
-        return null;
     }
 
+    /**
+     * Renames a session's file and ID after `newName`, and sets its title.
+     * Queued with every other change, so a title generated in the
+     * background can't write the old file back or be lost.
+     */
     async renameSession(oldIdOrFilename: string, newName: string): Promise<boolean> {
-        const session = await this.loadSession(oldIdOrFilename);
-        if (!session) return false;
-
-        const oldPath = path.join(SESSION_DIR, session.filename);
-
-        // Sanitize new name
-        const sanitized = newName.replace(/[^a-zA-Z0-9-_ ]/g, '').trim().replace(/\s+/g, '-');
-        const newFilename = `${sanitized}.json`;
-        const newPath = path.join(SESSION_DIR, newFilename);
+        const found = await this.getSession(oldIdOrFilename);
+        if (!found) return false;
+        const oldId = found.id;
+        const newId = newName.replace(/[^a-zA-Z0-9-_ ]/g, '').trim().replace(/\s+/g, '-');
+        if (!newId) return false;
 
+        let renamed: Session | null;
         try {
-            session.filename = newFilename;
-            // We keep the internal ID same, just change filename
-
-            // First write the updated content to the old file to ensure consistency
-            await fs.writeFile(oldPath, JSON.stringify(session, null, 2));
-
-            // Then rename the file
-            await fs.rename(oldPath, newPath);
-
-            // Update current session ID if we just renamed the active one
-            // (ID stays same, but next logInteraction relies on ID to find file... wait)
-            // logInteraction uses currentSessionId to construct filename?
-            // checking logInteraction: `path.join(SESSION_DIR, \`${this.currentSessionId}.json\`)`
-            // usage of ID as filename in logInteraction is a bug if we rename files!
+            renamed = await this.enqueue(async () => {
+                const oldPath = path.join(this.dir, found.filename);
+                const newPath = path.join(this.dir, `${newId}.json`);
+                let data: string;
+                try {
+                    data = await fs.readFile(oldPath, 'utf-8');
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                    throw error;
+                }
+                // Never write over another session
+                if (newPath !== oldPath && await fs.access(newPath).then(() => true, () => false)) return null;
 
-            // FIX: We need to update logInteraction to find file by ID or update the tracked filename.
-            // Simpler: Update internal ID to match new filename if we rely on that, OR separate ID from Filename lookup.
-            // Let's change the ID to match the new filename for simplicity, so logInteraction works content-agnostically.
+                const session = normalizeSession(JSON.parse(data));
+                session.id = newId;
+                session.filename = `${newId}.json`;
+                session.title = newName.trim();
+                await fs.writeFile(newPath, JSON.stringify(session, null, 2));
+                if (newPath !== oldPath) await fs.unlink(oldPath);
+                return session;
+            });
+        } catch (error) {
+            console.error('Failed to rename session:', error);
+            return false;
+        }
+        if (!renamed) return false;
 
-            const newId = sanitized;
-            session.id = newId;
-            await fs.writeFile(newPath, JSON.stringify(session, null, 2)); // Save with new ID
+        // The chat keeps writing to the session it has open, under its new ID
+        if (this.currentSessionId === oldId) {
+            this.currentSessionId = newId;
+        }
 
-            if (this.currentSessionId === oldIdOrFilename || this.currentSessionId === session.id) {
-                this.currentSessionId = newId;
+        // Keep branches pointing at their parent
+        for (const child of await this.listSessions()) {
+            if (child.parentId === oldId) {
+                await this.modify(child.id, s => { s.parentId = newId; });
             }
-
-            return true;
-        } catch (e) {
-            console.error(e);
-            return false;
         }
+        return true;
     }
 
     // Fix logInteraction to use listSessions or map if we allowed ID != Filename.
@@ -0,0 +1,147 @@
+import * as readline from 'readline';
+import chalk from 'chalk';
+import stripAnsi from 'strip-ansi';
+
+/**
+ * Writes a streamed model reply to the terminal as it arrives.
+ *
+ * Text inside <think>...</think> (and native reasoning deltas) goes to a dim
+ * "Thinking Process" area. Everything else is written raw so that, once the
+ * stream finishes, the caller can erase it with `clearAnswer()` and print the
+ * markdown-rendered version in its place.
+ *
+ * Anything else printed mid-stream (e.g. a tool approval prompt) must go
+ * through `interrupt()` first so it isn't erased along with the answer.
+ */
+export class StreamPrinter {
+    private buffer = '';
+    private inThink = false;
+    private thinkingShown = false;
+    private answerShown = false;
+    private answerOutput = '';
+
+    /** Full raw text received so far, including any <think> block */
+    public text = '';
+    /** Reasoning received outside of the text channel */
+    public reasoning = '';
+
+    constructor(private out: NodeJS.WriteStream = process.stdout) { }
+
+    writeText(delta: string) {
+        this.text += delta;
+        this.buffer += delta;
+        this.drain();
+    }
+
+    writeReasoning(delta: string) {
+        this.reasoning += delta;
+        this.printThinking(delta);
+    }
+
+    /** Flush anything held back while waiting to see if it was a tag */
+    finish() {
+        if (this.buffer) {
+            if (this.inThink) this.printThinking(this.buffer);
+            else this.printAnswer(this.buffer);
+            this.buffer = '';
+        }
+        if (this.thinkingShown && !this.answerShown) {
+            this.out.write('\n');
+        }
+    }
+
+    /** Native reasoning plus the contents of any <think> blocks */
+    get thinking(): string {
+        const blocks = [...this.text.matchAll(/<think>([\s\S]*?)(<\/think>|$)/g)].map(match => match[1].trim());
+        return [this.reasoning.trim(), ...blocks].filter(Boolean).join('\n\n');
+    }
+
+    /** Answer text without the thinking block */
+    get answer(): string {
+        return this.text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trim();
+    }
+
+    /** End the current output line and stop tracking what was printed so far */
+    interrupt() {
+        const last = this.answerShown ? this.answerOutput : this.thinkingShown ? this.text + this.reasoning : '';
+        if (last && !last.endsWith('\n')) {
+            this.out.write('\n');
+        }
+        this.answerOutput = '';
+        this.answerShown = false;
+    }
+
+    /**
+     * Erase the raw answer text printed since the last interruption so the
+     * rendered version can replace it. Returns the erased text, or '' if
+     * nothing could be erased.
+     */
+    clearAnswer(): string {
+        if (!this.answerShown || !this.out.isTTY) return '';
+
+        const columns = this.out.columns || 80;
+        const rows = stripAnsi(this.answerOutput)
+            .split('\n')
+            .reduce((total, line) => total + Math.max(1, Math.ceil(line.length / columns)), 0);
+
+        readline.moveCursor(this.out, 0, -(rows - 1));
+        readline.cursorTo(this.out, 0);
+        readline.clearScreenDown(this.out);
+
+        const cleared = this.answerOutput;
+        this.answerOutput = '';
+        this.answerShown = false;
+        return cleared;
+    }
+
+    private drain() {
+        while (this.buffer) {
+            const tag = this.inThink ? '</think>' : '<think>';
+            const index = this.buffer.indexOf(tag);
+
+            if (index !== -1) {
+                const before = this.buffer.slice(0, index);
+                if (this.inThink) this.printThinking(before);
+                else this.printAnswer(before);
+                this.buffer = this.buffer.slice(index + tag.length);
+                this.inThink = !this.inThink;
+                continue;
+            }
+
+            // Hold back a trailing partial tag (e.g. "<thi") until more text arrives
+            let keep = 0;
+            for (let i = 1; i < tag.length && i <= this.buffer.length; i++) {
+                if (tag.startsWith(this.buffer.slice(-i))) keep = i;
+            }
+
+            const ready = this.buffer.slice(0, this.buffer.length - keep);
+            if (this.inThink) this.printThinking(ready);
+            else this.printAnswer(ready);
+            this.buffer = this.buffer.slice(this.buffer.length - keep);
+            break;
+        }
+    }
+
+    private printThinking(text: string) {
+        if (!text) return;
+        if (!this.thinkingShown) {
+            this.thinkingShown = true;
+            this.out.write(chalk.dim.bold('Thinking Process:\n'));
+            text = text.replace(/^\s+/, '');
+        }
+        this.out.write(chalk.dim(text));
+    }
+
+    private printAnswer(text: string) {
+        if (!this.answerShown) {
+            text = text.replace(/^\s+/, '');
+            if (!text) return;
+            if (this.thinkingShown) {
+                this.out.write('\n\n');
+            }
+            this.answerShown = true;
+        }
+        this.answerOutput += text;
+        this.out.write(text);
+    }
+}
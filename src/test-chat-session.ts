@@ -0,0 +1,136 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { pathToFileURL } from 'url';
+import type { AddressInfo } from 'net';
+import type { MockResponse } from './mock-provider';
+import { tempDir } from './testing';
+
+const ENTRY = path.join(__dirname, 'index.ts');
+// Resolved here: the child runs in a temp workspace where "tsx" can't be found
+const TSX = pathToFileURL(require.resolve('tsx')).href;
+const PROMPT = '\n> ';
+
+// Every run replays the fixture from the start, so later runs pick their answers by `match`
+const RESPONSES: MockResponse[] = [
+    { match: 'Title this conversation', repeat: true, text: 'Reading the notes' },
+    { match: 'still there?', text: 'The notes still say hello.' },
+    { toolCalls: [{ name: 'readFileTool', args: { path: 'notes.txt', startLine: null, endLine: null } }] },
+    { text: '<think>The file says hello.</think>The notes say **hello**.' },
+];
+
+interface Run {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Runs safellm against the mock profile. With `lines`, the REPL is forced on
+ * and each line is typed once a prompt appears, as a user would; sending them
+ * all at once would start every turn together.
+ */
+function safellm(dir: string, args: string[], lines: string[] = []): Promise<Run> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, ['--import', TSX, ENTRY, '--config', path.join(dir, 'config.json'), '--data-dir', path.join(dir, 'data'), ...args], {
+            cwd: path.join(dir, 'workspace'),
+            env: { ...process.env, NO_COLOR: '1' },
+        });
+        let stdout = '';
+        let stderr = '';
+        let prompts = 0;
+        const timer = setTimeout(() => {
+            child.kill();
+            reject(new Error(`safellm did not finish:\n${stdout}\n${stderr}`));
+        }, 60_000);
+
+        child.stdout.on('data', chunk => {
+            stdout += chunk;
+            const seen = stdout.split(PROMPT).length - 1;
+            while (prompts < seen && lines.length > 0) {
+                prompts++;
+                child.stdin.write(`${lines.shift()}\n`);
+            }
+        });
+        child.stderr.on('data', chunk => stderr += chunk);
+        child.on('close', code => {
+            clearTimeout(timer);
+            resolve({ code, stdout, stderr });
+        });
+        if (lines.length === 0) child.stdin.end();
+    });
+}
+
+describe('Chat session against the mock provider', () => {
+    const dir = tempDir('chat');
+
+    before(async () => {
+        // A port nothing listens on, for a profile whose endpoint is down
+        const closed = http.createServer();
+        await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+        const { port } = closed.address() as AddressInfo;
+        await new Promise(resolve => closed.close(resolve));
+
+        await fs.mkdir(path.join(dir, 'workspace'));
+        await fs.writeFile(path.join(dir, 'workspace', 'notes.txt'), 'hello\n');
+        await fs.writeFile(path.join(dir, 'fixture.json'), JSON.stringify({ responses: RESPONSES }));
+        await fs.writeFile(path.join(dir, 'config.json'), JSON.stringify({
+            defaultProfile: 'mock',
+            profiles: {
+                mock: { provider: 'mock', baseUrl: 'http://mock.invalid/v1', modelId: 'mock-model', fixturePath: path.join(dir, 'fixture.json') },
+                down: {
+                    provider: 'custom', baseUrl: `http://127.0.0.1:${port}/v1`, modelId: 'main-model',
+                    retry: { retries: 1, backoffSeconds: 0.01 },
+                    fallbacks: [{ provider: 'mock', baseUrl: 'http://mock.invalid/v1', modelId: 'mock-model', fixturePath: path.join(dir, 'fixture.json') }],
+                },
+            },
+        }));
+    });
+
+    async function sessions() {
+        const sessionDir = path.join(dir, 'data', 'sessions');
+        const files = (await fs.readdir(sessionDir)).filter(file => file.endsWith('.json')).sort();
+        return Promise.all(files.map(async file => JSON.parse(await fs.readFile(path.join(sessionDir, file), 'utf-8'))));
+    }
+
+    it('runs a tool call and answers in the REPL', async () => {
+        const run = await safellm(dir, ['--interactive'], ['read notes.txt', '/exit']);
+        assert.equal(run.code, 0, run.stderr);
+        assert.ok(run.stdout.includes('Connected to mock'), 'connection check uses the fixture');
+        assert.ok(run.stdout.includes('The notes say'), 'answer printed');
+        assert.ok(!run.stdout.includes('The file says hello.</think>'), 'thinking not printed as the answer');
+
+        const [session] = await sessions();
+        assert.equal(session.provider, 'mock');
+        assert.deepEqual(session.messages.map((m: any) => m.role), ['user', 'assistant']);
+        const reply = session.messages[1];
+        assert.equal(reply.content, 'The notes say **hello**.');
+        assert.equal(reply.thinking, 'The file says hello.');
+        assert.equal(reply.toolCalls[0].name, 'readFileTool');
+        assert.equal(reply.toolCalls[0].result.content, 'hello\n', 'tool ran in the working directory');
+    });
+
+    it('answers once with --json', async () => {
+        const run = await safellm(dir, ['--json', 'still there?']);
+        assert.equal(run.code, 0, run.stderr);
+        const output = JSON.parse(run.stdout);
+        assert.equal(output.provider, 'mock');
+        assert.equal(output.text, 'The notes still say hello.');
+        assert.equal((await sessions()).length, 2);
+    });
+
+    it('falls back when the endpoint is down and records which one answered', async () => {
+        const run = await safellm(dir, ['--profile', 'down', '--json', 'still there?']);
+        assert.equal(run.code, 0, run.stderr);
+        assert.ok(run.stderr.includes('trying mock-model at http://mock.invalid/v1'), 'failover reported');
+        const output = JSON.parse(run.stdout);
+        assert.equal(output.text, 'The notes still say hello.');
+        assert.equal(output.endpoint, 'http://mock.invalid/v1');
+
+        const reply = (await sessions())[2].messages[1];
+        assert.deepEqual([reply.provider, reply.model, reply.endpoint], ['mock', 'mock-model', 'http://mock.invalid/v1']);
+    });
+});
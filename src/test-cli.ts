@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCliArgs, isNonInteractive, CliUsageError } from './cli';
+
+describe('CLI argument parsing', () => {
+    it('joins positionals into the prompt', () => {
+        const options = parseCliArgs(['what', 'time', 'is', 'it']);
+        assert.equal(options.prompt, 'what time is it');
+        assert.ok(!options.json && !options.plain, 'defaults to rendered, non-JSON output');
+    });
+
+    it('parses flags', () => {
+        const options = parseCliArgs(['-p', 'hello', '--json', '--session', 'work-notes', '--no-color']);
+        assert.equal(options.prompt, 'hello');
+        assert.ok(options.json);
+        assert.equal(options.session, 'work-notes');
+        assert.ok(options.plain, '--no-color implies plain output');
+
+        const locations = parseCliArgs(['--config', 'team.json', '--data-dir', '/tmp/safellm']);
+        assert.equal(locations.config, 'team.json');
+        assert.equal(locations.dataDir, '/tmp/safellm');
+    });
+
+    it('leaves the prompt undefined without one', () => {
+        assert.equal(parseCliArgs([]).prompt, undefined);
+    });
+
+    it('reads stdin only when asked with "-"', () => {
+        assert.ok(!parseCliArgs(['summarize', 'this']).stdin);
+        const options = parseCliArgs(['-', 'summarize', 'this']);
+        assert.ok(options.stdin);
+        assert.equal(options.prompt, 'summarize this', '"-" is not part of the prompt');
+        const alone = parseCliArgs(['-']);
+        assert.equal(alone.prompt, undefined);
+        assert.ok(isNonInteractive(alone));
+    });
+
+    it('takes export as a command only in its own form', () => {
+        const command = parseCliArgs(['export', 'work-notes', 'html', 'notes.html']);
+        assert.equal(command.command, 'export');
+        assert.deepEqual(command.commandArgs, ['work-notes', 'html', 'notes.html']);
+        assert.equal(parseCliArgs(['export', 'work-notes', 'notes.md']).command, 'export');
+
+        for (const argv of [['export', 'this', 'table', 'to', 'csv'], ['export', 'the', 'summary'], ['--', 'export', 'work-notes']]) {
+            const options = parseCliArgs(argv);
+            assert.equal(options.command, undefined, argv.join(' '));
+            assert.equal(options.prompt, argv.filter(arg => arg !== '--').join(' '));
+        }
+    });
+
+    it('rejects unknown options', () => {
+        assert.throws(() => parseCliArgs(['--bogus']), CliUsageError);
+    });
+
+    it('parses serve with host and port', () => {
+        const serve = parseCliArgs(['serve', '--host', '0.0.0.0', '--port', '9000']);
+        assert.equal(serve.command, 'serve');
+        assert.equal(serve.host, '0.0.0.0');
+        assert.equal(serve.port, 9000);
+        assert.equal(serve.prompt, undefined);
+        assert.throws(() => parseCliArgs(['serve', '--port', 'http']), CliUsageError);
+
+        const prompt = parseCliArgs(['serve', 'the', 'soup', 'hot']);
+        assert.equal(prompt.command, undefined, 'only "serve" on its own starts the server');
+        assert.equal(prompt.prompt, 'serve the soup hot');
+        assert.equal(parseCliArgs(['--', 'serve']).prompt, 'serve');
+    });
+
+    it('records and forces the REPL', () => {
+        const options = parseCliArgs(['--record', 'fixture.json', '-i']);
+        assert.equal(options.record, 'fixture.json');
+        assert.ok(!isNonInteractive(options), '--interactive opens the REPL without a terminal');
+        assert.ok(isNonInteractive({ ...options, prompt: 'hi' }), 'a prompt still answers once');
+    });
+});
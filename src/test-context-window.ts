@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compactIfNeeded, contextUsage, contextLimitFor, activeMessages, type ConversationSummary } from './context-window';
+
+describe('Context window management', () => {
+    const messages: any[] = [];
+    for (let i = 0; i < 10; i++) {
+        messages.push({ role: 'user', content: `question ${i} ${'x'.repeat(400)}` });
+        messages.push({ role: 'assistant', content: `answer ${i} ${'y'.repeat(400)}` });
+    }
+
+    let calls = 0;
+    const summarize = async (older: any[], previous?: string) => {
+        calls++;
+        return `${previous ? previous + ' + ' : ''}summary of ${older.length}`;
+    };
+    let summary: ConversationSummary | null = null;
+
+    it('picks the context limit', () => {
+        assert.equal(contextLimitFor({ provider: 'custom', baseUrl: '', modelId: 'llama3', contextWindow: 4000 }), 4000, 'profile override wins');
+        assert.equal(contextLimitFor({ provider: 'ollama', baseUrl: '', modelId: 'llama3' }), 8192, 'known model guessed');
+    });
+
+    it('leaves a conversation under the limit alone', async () => {
+        assert.equal(await compactIfNeeded(messages, null, 100000, summarize), null);
+        assert.equal(calls, 0);
+    });
+
+    it('summarizes near the limit', async () => {
+        summary = await compactIfNeeded(messages, null, 4000, summarize);
+        assert.ok(summary && summary.coveredMessages > 0, 'summary created');
+        assert.equal(messages[summary.coveredMessages].role, 'user', 'kept part starts at a user message');
+        assert.equal(activeMessages(messages, summary).at(-1)?.content, messages.at(-1).content, 'latest message still sent');
+        assert.ok(contextUsage(messages, summary, 4000).used < 4000 * 0.75, 'usage back under threshold');
+    });
+
+    it('folds into an existing summary', async () => {
+        messages.push(...messages.slice(0, 8).map(m => ({ ...m })));
+        const next = await compactIfNeeded(messages, summary, 4000, summarize);
+        assert.ok(next && next.coveredMessages > summary!.coveredMessages, 'coverage extended');
+        assert.ok(next.content.startsWith(summary!.content), 'previous summary passed on');
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { createAgent } from './agent';
+import { endpointConfigs, type ProviderEvent, type RetryConfig } from './failover';
+import { maskConfig, type AgentConfig } from './config-wizard';
+
+type Behaviour = 'ok' | 'unavailable' | 'bad-request' | 'hang';
+
+interface Stub {
+    server: http.Server;
+    baseUrl: string;
+    /** How the next requests are answered, in order; then "ok" */
+    script: Behaviour[];
+    requests: { model: string; authorization?: string }[];
+}
+
+// Stand-in for a provider that fails on cue
+async function startStub(name: string): Promise<Stub> {
+    const stub = { script: [], requests: [] } as unknown as Stub;
+    stub.server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const request = JSON.parse(body);
+            stub.requests.push({ model: request.model, authorization: req.headers.authorization });
+            const behaviour = stub.script.shift() ?? 'ok';
+            if (behaviour === 'hang') return;
+            if (behaviour !== 'ok') {
+                const status = behaviour === 'unavailable' ? 503 : 400;
+                res.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+                res.end(JSON.stringify({ error: { message: behaviour, type: behaviour } }));
+                return;
+            }
+            const text = `${name} answered`;
+            if (request.stream) {
+                const chunk = (delta: object, finish: string | null = null) =>
+                    `data: ${JSON.stringify({ id: '1', object: 'chat.completion.chunk', created: 1, model: request.model, choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.end(chunk({ content: text }) + chunk({}, 'stop') + 'data: [DONE]\n\n');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                id: '1', object: 'chat.completion', created: 1, model: request.model,
+                choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 },
+            }));
+        });
+    });
+    await new Promise<void>(resolve => stub.server.listen(0, '127.0.0.1', resolve));
+    stub.baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}/v1`;
+    return stub;
+}
+
+/** A URL nothing listens on */
+async function closedUrl(): Promise<string> {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise(resolve => server.close(resolve));
+    return `http://127.0.0.1:${port}/v1`;
+}
+
+const FAST: RetryConfig = { retries: 1, backoffSeconds: 0.01, connectTimeoutSeconds: 0.3, generateTimeoutSeconds: 0.5 };
+const KEY = 'sk-primary-secret-0123456789';
+
+describe('Retries and failover', () => {
+    let primary: Stub;
+    let backup: Stub;
+
+    before(async () => {
+        primary = await startStub('primary');
+        backup = await startStub('backup');
+    });
+
+    after(() => {
+        for (const stub of [primary, backup]) {
+            stub?.server.closeAllConnections();
+            stub?.server.close();
+        }
+    });
+
+    /** A profile on the primary stub, with the backup as its only fallback unless given others */
+    function profile(overrides: Partial<AgentConfig> = {}): AgentConfig {
+        primary.script = [];
+        primary.requests = [];
+        backup.script = [];
+        backup.requests = [];
+        return {
+            provider: 'custom', baseUrl: primary.baseUrl, modelId: 'main-model', apiKey: KEY, profile: 'test',
+            retry: FAST, fallbacks: [{ baseUrl: backup.baseUrl, modelId: 'backup-model' }], ...overrides,
+        };
+    }
+
+    function agentFor(config: AgentConfig) {
+        const events: ProviderEvent[] = [];
+        return { agent: createAgent(config, { onProviderEvent: event => events.push(event) }), events };
+    }
+
+    it('retries a 503 on the same endpoint', async () => {
+        const { agent, events } = agentFor(profile());
+        primary.script = ['unavailable'];
+        assert.equal((await agent.generate('Hi')).text, 'primary answered');
+        assert.equal(primary.requests.length, 2);
+        assert.deepEqual(events.map(event => event.type), ['retry', 'answered']);
+        assert.equal(events[1].type === 'answered' && events[1].fallback, false);
+    });
+
+    it('fails over once retries run out, without sending the key elsewhere', async () => {
+        const { agent, events } = agentFor(profile({ baseUrl: await closedUrl() }));
+        assert.equal(await (await agent.stream('Hi')).text, 'backup answered');
+        assert.deepEqual(events.map(event => event.type), ['retry', 'failover', 'answered']);
+        const answered = events[2];
+        assert.ok(answered.type === 'answered' && answered.fallback && answered.endpoint.modelId === 'backup-model');
+        assert.equal(backup.requests[0].model, 'backup-model');
+        assert.notEqual(backup.requests[0].authorization, `Bearer ${KEY}`, 'the profile\'s key stays with its host');
+    });
+
+    it('fails over when a stream does not start in time', async () => {
+        const { agent, events } = agentFor(profile({ retry: { ...FAST, retries: 0 } }));
+        primary.script = ['hang'];
+        assert.equal(await (await agent.stream('Hi')).text, 'backup answered');
+        const failover = events.find(event => event.type === 'failover');
+        assert.ok(failover?.type === 'failover' && /timed out/.test(failover.error));
+    });
+
+    it('gives up on a hung reply and lists what failed', async () => {
+        const { agent } = agentFor(profile({ retry: { ...FAST, retries: 0 }, fallbacks: [] }));
+        primary.script = ['hang'];
+        await assert.rejects(agent.generate('Hi'), /No model endpoint answered \(main-model at .*: Reply timed out after 0.5s\)/);
+        assert.equal(primary.requests.length, 1, 'not retried again by the SDK');
+    });
+
+    it('does not retry errors that would repeat', async () => {
+        const { agent, events } = agentFor(profile());
+        primary.script = ['bad-request'];
+        await assert.rejects(agent.generate('Hi'));
+        assert.equal(primary.requests.length, 1);
+        assert.equal(backup.requests.length, 0);
+        assert.deepEqual(events, []);
+    });
+
+    it('stops retrying when the caller aborts', async () => {
+        const { agent, events } = agentFor(profile({ retry: { ...FAST, retries: 3, backoffSeconds: 5 } }));
+        primary.script = ['unavailable'];
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 100);
+        const stream = await agent.stream('Hi', { abortSignal: controller.signal });
+        for await (const _ of stream.fullStream) { /* drained until aborted */ }
+        assert.ok(Date.now() - started < 2000, 'backoff cut short');
+        assert.equal(primary.requests.length, 1);
+        assert.deepEqual(events.map(event => event.type), ['retry']);
+    });
+
+    it('fills in fallbacks from the profile', () => {
+        const config = profile({ fallbacks: [{ modelId: 'smaller-model' }, { baseUrl: 'http://other/v1', modelId: 'x', apiKey: 'sk-other-secret-0123456789' }] });
+        const [, sameHost, otherHost] = endpointConfigs(config);
+        assert.equal(sameHost.apiKey, KEY, 'another model on the same endpoint keeps the key');
+        assert.equal(sameHost.baseUrl, primary.baseUrl);
+        assert.equal(otherHost.apiKey, 'sk-other-secret-0123456789');
+        assert.equal(endpointConfigs({ ...config, fallbacks: [{ baseUrl: 'http://other/v1' }] })[1].apiKey, undefined);
+        assert.ok(!JSON.stringify(maskConfig(config)).includes('sk-other-secret'), 'fallback keys masked');
+    });
+});
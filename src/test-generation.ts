@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { setParam, modelSettings, GenerationParamError } from './generation';
+import { createAgent, turnInstructions } from './agent';
+import { loadConfig, ConfigError } from './config-wizard';
+import { isolatePaths } from './testing';
+
+describe('Generation params', () => {
+    const dir = isolatePaths('generation');
+
+    it('parses /set values', () => {
+        let params = setParam({}, 'temperature', '0.2');
+        params = setParam(params, 'max_tokens', '256');
+        params = setParam(params, 'stop', 'END');
+        assert.deepEqual(params, { temperature: 0.2, maxTokens: 256, stop: ['END'] });
+        assert.deepEqual(setParam(params, 'stop', '["\\n\\n", "###"]').stop, ['\n\n', '###'], 'JSON lists and escapes');
+        assert.deepEqual(setParam(params, 'temperature', 'default'), { maxTokens: 256, stop: ['END'] });
+        assert.throws(() => setParam(params, 'temperature', '3'), { message: 'temperature must be a number from 0 to 2' });
+        assert.throws(() => setParam(params, 'seed', '1.5'), GenerationParamError);
+        assert.throws(() => setParam(params, 'topK', '40'), /Unknown parameter "topK"/);
+    });
+
+    it('keeps SDK retries off in per-call settings', () => {
+        assert.deepEqual(modelSettings({ maxTokens: 10, seed: 7 }), { maxOutputTokens: 10, seed: 7, maxRetries: 0 });
+    });
+
+    it('lets a profile override the shared params and set its own system prompt', async () => {
+        await fs.writeFile(path.join(dir, 'config.json'), JSON.stringify({
+            defaultProfile: 'default',
+            generation: { temperature: 0.7, seed: 1 },
+            profiles: {
+                default: { provider: 'custom', baseUrl: 'http://localhost:8000/v1', modelId: 'm' },
+                precise: { provider: 'custom', baseUrl: 'http://localhost:8000/v1', modelId: 'm', generation: { temperature: 0 }, systemPrompt: 'Be terse.' },
+                broken: { provider: 'custom', baseUrl: 'http://localhost:8000/v1', modelId: 'm', generation: { topP: 2 } },
+            },
+        }));
+        assert.deepEqual((await loadConfig()).generation, { temperature: 0.7, seed: 1 });
+        const precise = await loadConfig('precise');
+        assert.deepEqual(precise.generation, { temperature: 0, seed: 1 });
+        assert.ok(turnInstructions(precise).startsWith('Be terse.\n\n'));
+        await assert.rejects(loadConfig('broken'), (error: unknown) => error instanceof ConfigError && /"broken": topP must be/.test(error.message));
+    });
+
+    it('does not let the SDK retry a call made with params', async () => {
+        let requests = 0;
+        const server = http.createServer(() => requests++);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const agent = createAgent({
+                provider: 'custom', baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`, modelId: 'm', profile: 'test',
+                retry: { retries: 0, generateTimeoutSeconds: 0.3 },
+            });
+            await assert.rejects(agent.generate('Hi', { modelSettings: modelSettings({ temperature: 0.1 }) }), /Reply timed out/);
+            assert.equal(requests, 1);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
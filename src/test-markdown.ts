@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import stripAnsi from 'strip-ansi';
+import { renderMarkdown } from './markdown';
+
+const render = (text: string) => stripAnsi(renderMarkdown(text)).trim();
+
+describe('Markdown rendering', () => {
+    it('drops inline markup', () => {
+        assert.equal(render('**Bold Text**'), 'Bold Text');
+        assert.equal(render('`code`'), 'code');
+    });
+
+    it('renders headings, quotes and lists', () => {
+        assert.equal(render('# Header'), '# Header');
+        assert.equal(render('> This is a blockquote'), 'This is a blockquote');
+        assert.equal(render('- one\n- two'), '* one\n  * two');
+    });
+
+    it('draws tables', () => {
+        const table = render('| a | b |\n|---|---|\n| 1 | 2 |');
+        assert.ok(table.startsWith('┌───┬───┐') && table.includes('│ 1 │ 2 │'), 'box-drawn table');
+    });
+});
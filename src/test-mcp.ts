@@ -0,0 +1,83 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { z } from 'zod';
+import { McpManager, jsonSchemaToZod } from './mcp';
+
+describe('MCP client', () => {
+    it('converts JSON schemas', () => {
+        const schema = jsonSchemaToZod({
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Search text' },
+                limit: { type: 'integer' },
+                mode: { type: 'string', enum: ['fast', 'full'] },
+                tags: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['query'],
+        });
+        assert.ok(schema instanceof z.ZodObject);
+        assert.ok(schema.safeParse({ query: 'x' }).success && !schema.safeParse({}).success, 'required and optional fields');
+        assert.ok(!schema.safeParse({ query: 'x', mode: 'slow' }).success && !schema.safeParse({ query: 'x', limit: 1.5 }).success, 'enums and integers');
+        assert.equal((schema as z.ZodObject<any>).shape.query.description, 'Search text');
+    });
+
+    it('keeps tools apart whose names collide once made valid', async () => {
+        const mcp = new McpManager({ more: { command: process.execPath, args: ['--import', 'tsx', path.join(__dirname, 'mcp-test-server.ts'), '--colliding'], timeoutSeconds: 20 } });
+        try {
+            await mcp.connectAll();
+            const tools = mcp.tools();
+            const names = Object.keys(tools).filter(name => !/_(add|echo|fail)$/.test(name));
+            assert.equal(names.length, 4, 'none replaced another');
+            assert.ok(names.includes('mcp_more_a_b') && names.every(name => /^[a-zA-Z0-9_-]{1,64}$/.test(name)));
+            const results = await Promise.all(names.map(async name => (await tools[name].execute({}, {})).result));
+            assert.deepEqual(results.sort(), ['a.b', 'a_b', `${'x'.repeat(70)}1`, `${'x'.repeat(70)}2`]);
+            assert.equal(mcp.status()[0].error, undefined);
+        } finally {
+            await mcp.close();
+        }
+    });
+
+    describe('stdio servers', () => {
+        const server = path.join(__dirname, 'mcp-test-server.ts');
+        const mcp = new McpManager({
+            test: { command: process.execPath, args: ['--import', 'tsx', server], timeoutSeconds: 20 },
+            broken: { command: 'safellm-no-such-mcp-server' },
+            remote: { url: 'https://example.com/mcp' },
+            off: { command: 'unused', enabled: false },
+        });
+        after(() => mcp.close());
+
+        it('connects and discovers tools', async () => {
+            await mcp.connectAll();
+            const status = Object.fromEntries(mcp.status().map(s => [s.name, s]));
+            assert.equal(status.test.state, 'connected');
+            assert.equal(status.test.tools.map(t => t.id).sort().join(','), 'test.add,test.echo,test.fail');
+            assert.ok(status.broken.state === 'failed' && !!status.broken.error, 'failing server reported, others unaffected');
+            assert.ok(status.remote.state === 'failed' && status.remote.error!.includes('this machine'), 'remote URLs refused');
+            assert.equal(status.off.state, 'disabled');
+
+            const tools = mcp.tools();
+            assert.equal(Object.keys(tools).sort().join(','), 'mcp_test_add,mcp_test_echo,mcp_test_fail', 'tools namespaced');
+            assert.equal(tools.mcp_test_echo.id, 'test.echo');
+        });
+
+        it('calls tools', async () => {
+            const tools = mcp.tools();
+            assert.equal((await tools.mcp_test_echo.execute({ text: 'hi', shout: null }, {})).result, 'hi', 'null optionals dropped');
+            assert.equal((await tools.mcp_test_add.execute({ a: 2, b: 3 }, {})).sum, 5, 'structured result');
+            const failed = await tools.mcp_test_fail.execute({}, {});
+            assert.equal(failed.error, 'MCP_TOOL_ERROR');
+            assert.equal(failed.message, 'something went wrong');
+        });
+
+        it('reconnects', async () => {
+            const tools = mcp.tools();
+            await mcp.reconnect('test');
+            assert.equal((await mcp.tools().mcp_test_echo.execute({ text: 'back', shout: true }, {})).result, 'BACK');
+            assert.ok(!await mcp.reconnect('nope'), 'unknown server');
+            await mcp.close();
+            assert.equal((await tools.mcp_test_echo.execute({ text: 'x' }, {})).error, 'MCP_SERVER_UNAVAILABLE', 'stale tool reports the server as unavailable');
+        });
+    });
+});
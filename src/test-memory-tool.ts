@@ -1,48 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { saveMemoryTool, searchMemoryTool, deleteMemoryTool, replaceMemoryTool } from './tools';
+import { MemoryStore } from './memory-store';
+import { isolatePaths, tempDir } from './testing';
 
-import { saveMemoryTool, readMemoryTool, deleteMemoryTool } from './tools';
-
-async function testMemoryTools() {
-    console.log('🧪 Testing Memory Tools...');
-
-    const testMemory = `Test Memory ${Date.now()}`;
-
-    // 1. Save Memory
-    console.log(`\n1. Saving memory: "${testMemory}"`);
-    // @ts-ignore
-    const saveResult = await saveMemoryTool.execute({ memory: testMemory });
-    console.log('   Save Result:', saveResult);
-
-    // 2. Read Memory
-    console.log('\n2. Reading memories...');
-    // @ts-ignore
-    const readResult1 = await readMemoryTool.execute({});
-    // @ts-ignore
-    if (readResult1.memories.includes(testMemory)) {
-        console.log('   ✅ Memory found in storage.');
-    } else {
-        console.error('   ❌ Memory NOT found in storage!');
-        process.exit(1);
-    }
-
-    // 3. Delete Memory
-    console.log(`\n3. Deleting memory: "${testMemory}"`);
-    // @ts-ignore
-    const deleteResult = await deleteMemoryTool.execute({ memory: testMemory });
-    console.log('   Delete Result:', deleteResult);
-
-    // 4. Verify Deletion
-    console.log('\n4. Verifying deletion...');
-    // @ts-ignore
-    const readResult2 = await readMemoryTool.execute({});
-    // @ts-ignore
-    if (!readResult2.memories.includes(testMemory)) {
-        console.log('   ✅ Memory successfully deleted.');
-    } else {
-        console.error('   ❌ Memory STILL present in storage!');
-        process.exit(1);
-    }
-
-    console.log('\n✅ All tests passed!');
-}
-
-testMemoryTools().catch(console.error);
+describe('Memory tools', () => {
+    isolatePaths('memory');
+    const store = new MemoryStore();
+    const testMemory = 'Test memory about zebra marker';
+    let id: string;
+    let newId: string;
+
+    it('saves a memory', async () => {
+        const result: any = await saveMemoryTool.execute!({ memory: testMemory, category: 'test', tags: ['zebra'] } as any, {} as any);
+        id = result.memory?.id;
+        assert.ok(id, 'memory assigned an id');
+    });
+
+    it('detects a near-duplicate', async () => {
+        const result: any = await saveMemoryTool.execute!({ memory: testMemory + '.' } as any, {} as any);
+        assert.ok(!result.success);
+        assert.equal(result.existing?.id, id);
+    });
+
+    it('finds it by search', async () => {
+        const result: any = await searchMemoryTool.execute!({ query: 'zebra marker' } as any, {} as any);
+        assert.ok(result.results.some((r: any) => r.id === id));
+    });
+
+    it('replaces it', async () => {
+        const result: any = await replaceMemoryTool.execute!({ id, newContent: `${testMemory} (updated)` } as any, {} as any);
+        newId = result.memory?.id;
+        assert.ok(newId);
+        assert.equal((await store.get(id))?.supersededBy, newId, 'old entry marked as superseded');
+    });
+
+    it('deletes both entries', async () => {
+        await deleteMemoryTool.execute!({ id: newId } as any, {} as any);
+        await deleteMemoryTool.execute!({ id } as any, {} as any);
+        assert.ok(!await store.get(newId) && !await store.get(id));
+    });
+
+    it('imports a legacy MEMORY.md', async () => {
+        const dir = tempDir('memory-legacy');
+        await fs.writeFile(path.join(dir, 'MEMORY.md'), [
+            '# safe-llm',
+            '',
+            '- [2026-02-05T16:22:19.674Z] User prefers greetings with enthusiasm and playful energy.',
+            '- [2026-02-05T16:22:29.026Z] User prefers greetings with enthusiasm and playful energy!',
+            '- [2026-02-05T19:51:15.668Z] User\'s favorite car is a Camaro.',
+        ].join('\n'));
+        const legacy = new MemoryStore(path.join(dir, 'memory.json'), path.join(dir, 'MEMORY.md'));
+        // Read at the same time, as parallel tool calls do; the file is imported once
+        const [active, all] = await Promise.all([legacy.list(), legacy.list({ includeSuperseded: true })]);
+        assert.equal(active.length, 2, 'duplicates collapsed');
+        assert.equal(all.length, 3);
+        assert.deepEqual((await legacy.list({ includeSuperseded: true })).map(entry => entry.id), all.map(entry => entry.id));
+    });
+
+    it('keeps a corrupt memory file instead of overwriting it', async () => {
+        const dir = tempDir('memory-corrupt');
+        const half = '{"version":1,"legacyImported":true,"entries":[{"id":"mem-1","content":"User likes te';
+        await fs.writeFile(path.join(dir, 'memory.json'), half);
+        const corrupt = new MemoryStore(path.join(dir, 'memory.json'), path.join(dir, 'MEMORY.md'));
+        assert.deepEqual(await Promise.all([corrupt.list(), corrupt.search('tea'), corrupt.get('mem-1')]), [[], [], null], 'moved aside once');
+        const kept = (await fs.readdir(dir)).filter(name => name.startsWith('memory.json.corrupt-'));
+        assert.equal(kept.length, 1);
+        assert.equal(await fs.readFile(path.join(dir, kept[0]), 'utf-8'), half, 'old contents preserved');
+        assert.ok((await corrupt.save('Fresh memory')).entry.id, 'starts fresh');
+        assert.equal((await fs.readdir(dir)).filter(name => name.startsWith('memory.json.corrupt-')).length, 1);
+    });
+});
@@ -1,46 +1,26 @@
-
-import { loadConfig, saveConfig, AgentConfig } from './config-wizard';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import chalk from 'chalk';
-
-const CONFIG_FILE = path.join(process.cwd(), 'config.json');
-
-async function testMigration() {
-    console.log(chalk.bold('🧪 Testing Config Migration...'));
-
-    // 1. Create legacy config
-    const legacyConfig = {
-        lmStudioUrl: 'http://legacy-host:1234/v1',
-        modelId: 'legacy-model',
-        apiKey: 'legacy-key'
-    };
-
-    console.log('📝 Writing legacy config:', legacyConfig);
-    await fs.writeFile(CONFIG_FILE, JSON.stringify(legacyConfig, null, 2));
-
-    // 2. Load config (should trigger migration)
-    console.log('🔄 Loading config...');
-    const migratedConfig = await loadConfig();
-
-    // 3. Verify
-    console.log('✅ Loaded config:', migratedConfig);
-
-    const passed =
-        migratedConfig.provider === 'lm-studio' &&
-        migratedConfig.baseUrl === 'http://legacy-host:1234/v1' &&
-        migratedConfig.modelId === 'legacy-model' &&
-        migratedConfig.apiKey === 'legacy-key' &&
-        !('lmStudioUrl' in migratedConfig);
-
-    if (passed) {
-        console.log(chalk.green('✅ PASS: Migration successful!'));
-        process.exit(0);
-    } else {
-        console.error(chalk.red('❌ FAIL: Migration failed!'));
-        console.error('Expected provider="lm-studio", baseUrl="...", etc.');
-        process.exit(1);
-    }
-}
-
-testMigration().catch(console.error);
+import { loadConfig } from './config-wizard';
+import { isolatePaths } from './testing';
+
+describe('Config migration', () => {
+    const configFile = path.join(isolatePaths('migration'), 'config.json');
+
+    it('turns a legacy config into the default profile', async () => {
+        await fs.writeFile(configFile, JSON.stringify({
+            lmStudioUrl: 'http://legacy-host:1234/v1',
+            modelId: 'legacy-model',
+            apiKey: 'legacy-key',
+        }, null, 2));
+
+        const config = await loadConfig();
+        assert.equal(config.provider, 'lm-studio');
+        assert.equal(config.baseUrl, 'http://legacy-host:1234/v1');
+        assert.equal(config.modelId, 'legacy-model');
+        assert.equal(config.apiKey, 'legacy-key');
+        assert.equal(config.profile, 'default');
+        assert.ok(!('lmStudioUrl' in config));
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { createAgent } from './agent';
+import { fetchModels } from './models';
+import { providerFetch, recordTo, recordingsWritten, MockFixtureError, type MockResponse } from './mock-provider';
+import type { AgentConfig } from './config-wizard';
+import { isolatePaths } from './testing';
+
+describe('Mock provider', () => {
+    const dir = isolatePaths('mock');
+    let fixtures = 0;
+
+    /** Writes a fixture and returns a mock profile replaying it */
+    async function mockProfile(responses: MockResponse[]): Promise<AgentConfig> {
+        const fixturePath = path.join(dir, `fixture-${++fixtures}.json`);
+        await fs.writeFile(fixturePath, JSON.stringify({ responses }));
+        return { provider: 'mock', baseUrl: 'http://mock.invalid/v1', modelId: 'mock-model', profile: 'test', fixturePath, workspaceRoot: dir };
+    }
+
+    /** Sends a chat request straight through the replay fetch */
+    async function ask(config: AgentConfig, content: string): Promise<{ status: number; body: any }> {
+        const response = await providerFetch(config)!(`${config.baseUrl}/chat/completions`, {
+            method: 'POST',
+            body: JSON.stringify({ model: config.modelId, messages: [{ role: 'user', content }] }),
+        });
+        return { status: response.status, body: await response.json() };
+    }
+
+    it('lists the profile\'s model', async () => {
+        assert.deepEqual(await fetchModels(await mockProfile([])), ['mock-model']);
+        const unset: AgentConfig = { provider: 'mock', baseUrl: 'http://mock.invalid/v1', modelId: 'm', profile: 'test' };
+        await assert.rejects(fetchModels(unset), MockFixtureError, 'fixturePath required');
+        await assert.rejects(fetchModels({ ...unset, fixturePath: path.join(dir, 'missing.json') }), MockFixtureError);
+    });
+
+    it('picks responses by match, then in order', async () => {
+        const config = await mockProfile([
+            { match: 'weather', repeat: true, text: 'Sunny' },
+            { match: 'joke', text: 'Knock knock' },
+            { text: 'first' },
+            { text: 'second' },
+        ]);
+        assert.equal((await ask(config, 'hi')).body.choices[0].message.content, 'first');
+        assert.equal((await ask(config, 'the weather?')).body.choices[0].message.content, 'Sunny');
+        assert.equal((await ask(config, 'tell a joke')).body.choices[0].message.content, 'Knock knock');
+        assert.equal((await ask(config, 'weather again')).body.choices[0].message.content, 'Sunny', 'repeat entries are not used up');
+        assert.equal((await ask(config, 'another joke')).body.choices[0].message.content, 'second', 'used-up matches fall through');
+
+        const exhausted = await ask(config, 'anything else');
+        assert.equal(exhausted.status, 404);
+        assert.match(exhausted.body.error.message, /no response left for: anything else/);
+    });
+
+    it('replays text with thinking', async () => {
+        const config = await mockProfile([
+            { text: '<think>Simple greeting.</think>Hello **there**!' },
+            { text: '<think>Again.</think>Hello once more, with a longer reply to split.' },
+        ]);
+        const agent = createAgent(config);
+        const result = await agent.generate('Hi');
+        assert.equal(result.text, '<think>Simple greeting.</think>Hello **there**!');
+
+        const stream = await agent.stream('Hi again');
+        let streamed = '';
+        for await (const chunk of stream.fullStream) {
+            if (chunk.type === 'text-delta') streamed += chunk.payload.text;
+        }
+        assert.equal(streamed, '<think>Again.</think>Hello once more, with a longer reply to split.', 'streamed in pieces');
+    });
+
+    it('replays tool calls', async () => {
+        await fs.writeFile(path.join(dir, 'notes.txt'), 'buy milk\n');
+        const config = await mockProfile([
+            { toolCalls: [{ name: 'readFileTool', args: { path: 'notes.txt', startLine: null, endLine: null } }] },
+            { text: 'Your note says to buy milk.' },
+        ]);
+        const stream = await createAgent(config).stream('What does notes.txt say?');
+        const results: any[] = [];
+        let streamed = '';
+        for await (const chunk of stream.fullStream) {
+            if (chunk.type === 'tool-result') results.push(chunk.payload);
+            if (chunk.type === 'text-delta') streamed += chunk.payload.text;
+        }
+        assert.equal(results.length, 1);
+        assert.equal(results[0].toolName, 'readFileTool');
+        assert.equal(results[0].result.content, 'buy milk\n', 'tool ran against the workspace');
+        assert.equal(streamed, 'Your note says to buy milk.', 'final answer after the tool result');
+    });
+
+    describe('record mode', () => {
+        const file = path.join(dir, 'recorded.json');
+        const requests: any[] = [];
+        let upstream: http.Server;
+        let live: AgentConfig;
+
+        // Stand-in for a real provider, answering once as JSON and once as a stream
+        before(async () => {
+            upstream = http.createServer((req, res) => {
+                let body = '';
+                req.on('data', chunk => body += chunk);
+                req.on('end', () => {
+                    const request = JSON.parse(body);
+                    requests.push({ request, authorization: req.headers.authorization });
+                    if (request.stream) {
+                        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                        const chunk = (delta: object, finish: string | null = null) =>
+                            `data: ${JSON.stringify({ id: '2', object: 'chat.completion.chunk', created: 1, model: request.model, choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+                        res.end(chunk({ content: 'Streamed ' }) + chunk({ content: 'answer' }) + chunk({}, 'stop') + 'data: [DONE]\n\n');
+                        return;
+                    }
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({
+                        id: '1', object: 'chat.completion', created: 1, model: request.model,
+                        choices: [{ index: 0, message: { role: 'assistant', content: 'Recorded answer' }, finish_reason: 'stop' }],
+                        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+                    }));
+                });
+            });
+            await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+            live = { provider: 'custom', baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`, modelId: 'live-model', apiKey: 'sk-live-secret-key-0123456789', profile: 'live' };
+        });
+
+        after(() => {
+            recordTo(null);
+            upstream?.close();
+        });
+
+        it('captures real responses into a fixture', async () => {
+            recordTo(file);
+            const agent = createAgent(live);
+            assert.equal((await agent.generate('Hi')).text, 'Recorded answer');
+            assert.equal(await (await agent.stream('Hi')).text, 'Streamed answer');
+            await recordingsWritten();
+            recordTo(null);
+
+            const raw = await fs.readFile(file, 'utf-8');
+            const fixture = JSON.parse(raw);
+            assert.equal(requests.length, 2);
+            assert.equal(requests[0].authorization, `Bearer ${live.apiKey}`, 'the provider still got the key');
+            assert.ok(!raw.includes(live.apiKey!), 'the key is never recorded');
+            assert.equal(fixture.responses.length, 2);
+            assert.equal(fixture.responses[0].request.messages.at(-1).content, 'Hi');
+            assert.equal(fixture.responses[1].recorded.contentType, 'text/event-stream');
+        });
+
+        it('replays the recording without the provider', async () => {
+            const agent = createAgent({ provider: 'mock', baseUrl: live.baseUrl, modelId: 'live-model', profile: 'replay', fixturePath: file });
+            assert.equal((await agent.generate('Hi')).text, 'Recorded answer');
+            assert.equal(await (await agent.stream('Hi')).text, 'Streamed answer');
+            assert.equal(requests.length, 2, 'nothing sent upstream');
+        });
+    });
+});
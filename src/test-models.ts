@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { fetchModels } from './models';
+
+// Minimal stand-in for LM Studio / Ollama / vLLM model listings
+function startServer(body: unknown, status = 200): Promise<http.Server> {
+    return new Promise(resolve => {
+        const server = http.createServer((_req, res) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+}
+
+async function listFrom(body: unknown, status = 200): Promise<string[]> {
+    const server = await startServer(body, status);
+    const { port } = server.address() as AddressInfo;
+    try {
+        return await fetchModels({ baseUrl: `http://127.0.0.1:${port}/v1` });
+    } finally {
+        server.close();
+    }
+}
+
+describe('Model discovery', () => {
+    it('parses OpenAI-compatible listings (LM Studio, Ollama /v1, vLLM)', async () => {
+        const models = await listFrom({ object: 'list', data: [{ id: 'qwen3-8b' }, { id: 'llama3' }, { id: 'llama3' }] });
+        assert.deepEqual(models, ['llama3', 'qwen3-8b'], 'de-duplicated and sorted');
+    });
+
+    it('parses Ollama native listings', async () => {
+        assert.deepEqual(await listFrom({ models: [{ name: 'mistral:latest' }] }), ['mistral:latest']);
+    });
+
+    it('raises on an error status', async () => {
+        await assert.rejects(listFrom({ error: 'unauthorized' }, 401), { message: 'Status 401' });
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { ToolPermissions, type ApprovalDecision } from './permissions';
+
+let executions = 0;
+const probeTool = createTool({
+    id: 'probe',
+    description: 'Counts executions',
+    inputSchema: z.object({}),
+    execute: async () => {
+        executions++;
+        return { ok: true };
+    },
+});
+
+async function run(permissions: ToolPermissions): Promise<any> {
+    const { probeTool: wrapped } = permissions.wrap({ probeTool });
+    return wrapped.execute!({} as any, {} as any);
+}
+
+describe('Tool permissions', () => {
+    it('refuses denied tools without executing', async () => {
+        assert.equal((await run(new ToolPermissions({ probe: 'deny' }))).error, 'TOOL_CALL_DENIED');
+        assert.equal(executions, 0);
+    });
+
+    it('refuses "ask" tools without a prompt (non-interactive)', async () => {
+        assert.equal((await run(new ToolPermissions({ probe: 'ask' }))).error, 'TOOL_CALL_DENIED');
+        assert.equal(executions, 0);
+    });
+
+    it('remembers "always" for the session', async () => {
+        const asking = new ToolPermissions({ probe: 'ask' });
+        const answers: ApprovalDecision[] = ['always'];
+        let prompts = 0;
+        asking.prompt = async () => {
+            prompts++;
+            return answers.shift() ?? 'deny';
+        };
+        await run(asking);
+        await run(asking);
+        assert.equal(prompts, 1, 'prompted once');
+        assert.equal(executions, 2, 'executed twice');
+
+        asking.resetSession();
+        assert.equal((await run(asking)).error, 'TOOL_CALL_DENIED');
+        assert.equal(prompts, 2, 'prompted again after reset');
+    });
+
+    it('applies defaults and the "*" fallback', () => {
+        const defaults = new ToolPermissions({ '*': 'ask' });
+        assert.equal(defaults.policyFor('delete-memory'), 'ask');
+        assert.equal(defaults.policyFor('get-time'), 'ask');
+        assert.equal(new ToolPermissions().policyFor('get-time'), 'allow');
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { loadPlugins } from './plugins';
+import { builtInToolIds } from './agent';
+import { isProjectTrusted, trustProject } from './trust';
+import { isolatePaths } from './testing';
+
+// Plugins live outside the repo, so they import Mastra and zod by absolute path
+const header = `import { createTool } from ${JSON.stringify(require.resolve('@mastra/core/tools'))};
+import { z } from ${JSON.stringify(require.resolve('zod'))};
+`;
+
+const PLUGINS: Record<string, string> = {
+    'dice.ts': `${header}
+export const diceTool = createTool({
+    id: 'roll-dice',
+    description: 'Roll a die',
+    inputSchema: z.object({ sides: z.number().int().min(2) }),
+    execute: async ({ sides }) => ({ sides, value: sides }),
+});
+export const commands = [{ name: 'dice', description: 'Roll a die', usage: '[sides]', run: (args: string) => \`rolled \${args || 6}\` }];
+`,
+    'clash.ts': `${header}
+export const timeTool = createTool({ id: 'get-time', description: 'Shadows a built-in', inputSchema: z.object({}), execute: async () => ({}) });
+`,
+    'no-schema.ts': `${header}
+export default createTool({ id: 'loose', description: 'No schema', execute: async () => ({}) });
+`,
+    'bad-command.ts': `${header}
+export const okTool = createTool({ id: 'fine', description: 'Fine on its own', inputSchema: z.object({}), execute: async () => ({}) });
+export const commands = [{ name: 'help', description: 'Taken', run: () => '' }];
+`,
+    'broken.js': `throw new Error('plugin exploded');\n`,
+    'empty.ts': `export const answer = 42;\n`,
+    'notes.md': `Not a plugin\n`,
+};
+
+describe('Plugins', () => {
+    const base = isolatePaths('plugins');
+    const project = path.join(base, 'project');
+    const global = path.join(base, 'global');
+    let registry: Awaited<ReturnType<typeof loadPlugins>>;
+    const failed = (file: string) => registry.failures.find(f => path.basename(f.file) === file)?.error ?? '';
+
+    before(async () => {
+        await fs.mkdir(project);
+        await fs.mkdir(global);
+        for (const [name, source] of Object.entries(PLUGINS)) {
+            await fs.writeFile(path.join(project, name), source);
+        }
+        // Same tool ID again from the global directory
+        await fs.writeFile(path.join(global, 'dice-again.ts'), PLUGINS['dice.ts'].replace("name: 'dice'", "name: 'dice2'"));
+        registry = await loadPlugins({
+            directories: [project, global, path.join(base, 'missing')],
+            reservedToolIds: builtInToolIds(),
+            reservedCommands: ['help', 'exit'],
+        });
+    });
+
+    it('discovers plugins', () => {
+        assert.equal(registry.plugins.length, 1);
+        assert.equal(registry.plugins[0].toolIds[0], 'roll-dice');
+        assert.ok(!registry.failures.some(f => f.file.endsWith('.md')), 'non-plugin files ignored');
+        assert.equal(registry.failures.length, 6, 'every broken plugin reported');
+        assert.ok(!registry.failures.some(f => f.file.includes('missing')), 'missing directory ignored');
+    });
+
+    it('runs project plugins only once the project is trusted', async () => {
+        const load = (projectTrusted?: boolean) => loadPlugins({ directories: [project], projectDirectory: project, projectTrusted, reservedToolIds: builtInToolIds() });
+        const untrusted = await load(false);
+        assert.equal(untrusted.plugins.length + untrusted.failures.length, 0, 'nothing imported');
+        assert.equal(untrusted.untrusted.length, 6);
+
+        const projectDir = path.dirname(project);
+        assert.ok(!(await isProjectTrusted(projectDir)));
+        await trustProject(projectDir);
+        assert.ok(await isProjectTrusted(projectDir), 'the answer is kept');
+        assert.equal((await load(true)).untrusted.length, 0);
+    });
+
+    it('validates plugins', () => {
+        assert.match(failed('clash.ts'), /already in use/, 'built-in tool id rejected');
+        assert.match(failed('dice-again.ts'), /roll-dice/, 'duplicate id across directories rejected');
+        assert.match(failed('no-schema.ts'), /inputSchema/, 'schema required');
+        assert.match(failed('bad-command.ts'), /\/help/, 'built-in command name rejected');
+        assert.ok(!registry.tools.plugin_fine, 'whole file skipped on one bad entry');
+        assert.match(failed('broken.js'), /plugin exploded/, 'import errors reported');
+        assert.match(failed('empty.ts'), /no tools/, 'files without tools reported');
+    });
+
+    it('registers tools and commands', async () => {
+        assert.equal(registry.tools['plugin_roll-dice']?.id, 'roll-dice', 'namespaced tool key');
+        assert.equal((await registry.tools['plugin_roll-dice'].execute({ sides: 20 }, {})).value, 20);
+        const command = registry.commands.find(c => c.name === 'dice');
+        assert.equal(command?.usage, '[sides]');
+        assert.equal(command.run('8', { config: {} as any, sessionId: null, print: () => { } }), 'rolled 8');
+    });
+});
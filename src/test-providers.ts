@@ -0,0 +1,202 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { APICallError } from 'ai';
+import { createAgent } from './agent';
+import { adapterFor, listModels } from './providers';
+import { ollamaRoot } from './ollama-provider';
+import type { AgentConfig } from './config-wizard';
+import { tempDir } from './testing';
+
+interface Received {
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+type Handler = (request: Received, res: http.ServerResponse) => void;
+
+/** A local server answering with `handler`; every request is kept */
+async function startStub(handler: Handler): Promise<{ server: http.Server; url: string; received: Received[] }> {
+    const received: Received[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const request = { url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : null };
+            received.push(request);
+            handler(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, received };
+}
+
+function json(res: http.ServerResponse, body: unknown, status = 200) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+describe('Ollama adapter', () => {
+    const workspace = tempDir('ollama');
+    let stub: Awaited<ReturnType<typeof startStub>>;
+    let config: AgentConfig;
+
+    // Calls the read tool first, then answers with what it returned; thinking comes separately
+    const answer = (request: Received) => {
+        const last = request.body.messages.at(-1);
+        if (last.role === 'tool') return { thinking: 'The file says hi.', content: `The note says: ${JSON.parse(last.content).content.trim()}` };
+        if (last.content.includes('note')) return { content: '', tool_calls: [{ function: { name: 'readFileTool', arguments: { path: 'note.txt', startLine: null, endLine: null } } }] };
+        return { thinking: 'A greeting.', content: 'Hello from Ollama' };
+    };
+
+    before(async () => {
+        await fs.writeFile(path.join(workspace, 'note.txt'), 'hi\n');
+        stub = await startStub((request, res) => {
+            if (request.url === '/api/tags') return json(res, { models: [{ name: 'qwen3:8b' }, { name: 'llama3:latest' }] });
+            if (request.url === '/api/pull') {
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                // Never finishes, like a large download
+                if (request.body.model === 'huge') return void res.write(JSON.stringify({ status: 'pulling manifest' }) + '\n');
+                const lines = request.body.model === 'missing'
+                    ? [{ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }]
+                    : [{ status: 'pulling manifest' }, { status: 'pulling abc', total: 100, completed: 50 }, { status: 'success' }];
+                res.end(lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+                return;
+            }
+            if (request.url !== '/api/chat') return json(res, { error: 'not found' }, 404);
+
+            const message = { role: 'assistant', ...answer(request) };
+            const done = { done: true, done_reason: 'stop', prompt_eval_count: 12, eval_count: 5 };
+            if (!request.body.stream) return json(res, { model: request.body.model, created_at: new Date().toISOString(), message, ...done });
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            const pieces = [
+                ...(message.thinking ? [{ role: 'assistant', content: '', thinking: message.thinking }] : []),
+                ...(message.content.match(/.{1,6}/gs) ?? []).map(content => ({ role: 'assistant', content })),
+                ...('tool_calls' in message ? [{ role: 'assistant', content: '', tool_calls: message.tool_calls }] : []),
+            ];
+            for (const piece of pieces) res.write(JSON.stringify({ model: request.body.model, message: piece, done: false }) + '\n');
+            res.end(JSON.stringify({ model: request.body.model, message: { role: 'assistant', content: '' }, ...done }) + '\n');
+        });
+        // A profile from before the native adapter, still pointing at /v1
+        config = {
+            provider: 'ollama', baseUrl: `${stub.url}/v1`, modelId: 'qwen3:8b', profile: 'test', workspaceRoot: workspace,
+            contextWindow: 16384, ollama: { keepAlive: '30m', think: true, options: { num_ctx: 2048, repeat_penalty: 1.1 } },
+        };
+    });
+
+    after(() => stub?.server.close());
+
+    it('checks health with /api/tags at the server root', async () => {
+        assert.equal(ollamaRoot('http://localhost:11434/v1/'), 'http://localhost:11434');
+        assert.deepEqual(await listModels(config), ['llama3:latest', 'qwen3:8b']);
+        assert.equal(stub.received.at(-1)?.url, '/api/tags');
+    });
+
+    it('generates with native options', async () => {
+        const result = await createAgent(config).generate('Hi');
+        assert.equal(result.text, 'Hello from Ollama');
+        assert.equal(result.reasoningText, 'A greeting.');
+        const sent = stub.received.at(-1)!.body;
+        assert.equal(sent.keep_alive, '30m');
+        assert.equal(sent.think, true);
+        assert.equal(sent.options.num_ctx, 16384, 'contextWindow wins over the profile\'s raw options');
+        assert.equal(sent.options.repeat_penalty, 1.1);
+        assert.equal(sent.messages[0].role, 'system');
+    });
+
+    it('streams thinking, text and a tool call round trip', async () => {
+        const stream = await createAgent(config).stream('What does my note say?');
+        let text = '';
+        let reasoning = '';
+        const results: any[] = [];
+        for await (const chunk of stream.fullStream) {
+            if (chunk.type === 'text-delta') text += chunk.payload.text;
+            if (chunk.type === 'reasoning-delta') reasoning += chunk.payload.text;
+            if (chunk.type === 'tool-result') results.push(chunk.payload);
+        }
+        assert.equal(results[0]?.result.content, 'hi\n', 'the tool ran');
+        assert.equal(text, 'The note says: hi');
+        assert.equal(reasoning, 'The file says hi.');
+        const toolMessage = stub.received.at(-1)!.body.messages.at(-1);
+        assert.equal(toolMessage.role, 'tool');
+        assert.equal(toolMessage.tool_name, 'readFileTool');
+    });
+
+    it('pulls models, reports failures and stops when aborted', async () => {
+        const statuses: string[] = [];
+        await adapterFor(config).pullModel!(config, 'llama3', progress => statuses.push(progress.status));
+        assert.deepEqual(statuses, ['pulling manifest', 'pulling abc', 'success']);
+        await assert.rejects(adapterFor(config).pullModel!(config, 'missing', () => { }), /file does not exist/);
+
+        const pull = new AbortController();
+        await assert.rejects(adapterFor(config).pullModel!(config, 'huge', () => pull.abort(), pull.signal), { name: 'AbortError' });
+    });
+
+    it('raises retryable errors like the SDK providers', async () => {
+        const model = adapterFor(config).createModel({ ...config, baseUrl: 'http://127.0.0.1:9' });
+        await assert.rejects(Promise.resolve(model.doGenerate({ prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] })),
+            (error: unknown) => APICallError.isInstance(error) && error.isRetryable);
+    });
+});
+
+describe('Anthropic adapter', () => {
+    const KEY = 'sk-ant-test-0123456789';
+    let stub: Awaited<ReturnType<typeof startStub>>;
+    let config: AgentConfig;
+
+    before(async () => {
+        stub = await startStub((request, res) => {
+            if (request.headers['x-api-key'] !== KEY) return json(res, { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }, 401);
+            if (request.url?.startsWith('/v1/models')) return json(res, { data: [{ id: 'claude-sonnet-4-5', type: 'model' }, { id: 'claude-haiku-4-5', type: 'model' }] });
+
+            const usage = { input_tokens: 10, output_tokens: 4 };
+            if (!request.body.stream) {
+                return json(res, { id: 'msg_1', type: 'message', role: 'assistant', model: request.body.model, content: [{ type: 'text', text: 'Hello from Claude' }], stop_reason: 'end_turn', usage });
+            }
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            const event = (type: string, data: object) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+            res.end([
+                event('message_start', { message: { id: 'msg_2', type: 'message', role: 'assistant', model: request.body.model, content: [], stop_reason: null, usage } }),
+                event('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+                event('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'Streamed ' } }),
+                event('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'from Claude' } }),
+                event('content_block_stop', { index: 0 }),
+                event('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } }),
+                event('message_stop', {}),
+            ].join(''));
+        });
+        config = { provider: 'anthropic', baseUrl: `${stub.url}/v1`, modelId: 'claude-sonnet-4-5', apiKey: KEY, profile: 'test' };
+    });
+
+    after(() => stub?.server.close());
+
+    it('checks health with the key', async () => {
+        assert.deepEqual(await listModels(config), ['claude-haiku-4-5', 'claude-sonnet-4-5']);
+        await assert.rejects(listModels({ ...config, apiKey: 'wrong' }), { message: 'Status 401' });
+    });
+
+    it('generates and streams over the Messages API', async () => {
+        const agent = createAgent(config);
+        assert.equal((await agent.generate('Hi')).text, 'Hello from Claude');
+        const sent = stub.received.at(-1)!;
+        assert.equal(sent.url, '/v1/messages');
+        assert.ok(sent.body.system, 'system prompt sent as Anthropic\'s own field');
+        assert.ok(sent.body.messages.every((message: any) => message.role !== 'system'));
+        assert.equal(await (await agent.stream('Hi')).text, 'Streamed from Claude');
+    });
+});
+
+describe('OpenAI-compatible adapter', () => {
+    it('checks health with /models', async () => {
+        const stub = await startStub((request, res) => json(res, request.url === '/v1/models' ? { data: [{ id: 'local-model' }] } : {}, request.url === '/v1/models' ? 200 : 404));
+        try {
+            assert.deepEqual(await listModels({ provider: 'lm-studio', baseUrl: `${stub.url}/v1`, modelId: 'local-model' }), ['local-model']);
+        } finally {
+            stub.server.close();
+        }
+    });
+});
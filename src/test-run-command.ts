@@ -0,0 +1,93 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CommandRunner, CommandError, parseCommandLine, isCommandAllowed, type CommandRecord } from './command-runner';
+import { Workspace } from './workspace';
+import { ToolPermissions, type ApprovalDecision } from './permissions';
+import { createRunCommandTool } from './tools';
+import { tempDir } from './testing';
+
+describe('Run command tool', () => {
+    it('parses command lines', () => {
+        assert.deepEqual(parseCommandLine(`git commit -m "fix: a \\"b\\"" 'c d' e\\ f`), ['git', 'commit', '-m', 'fix: a "b"', 'c d', 'e f']);
+        assert.throws(() => parseCommandLine('ls | sh'), CommandError, 'pipes refused');
+        assert.throws(() => parseCommandLine('git status && rm -rf x'), CommandError, 'chaining refused');
+        assert.equal(parseCommandLine(`grep "a|b"`)[1], 'a|b', 'operators inside quotes are literal');
+    });
+
+    it('matches the allowlist', () => {
+        const allow = ['ls', 'git status', 'git log *'];
+        assert.ok(isCommandAllowed(['ls', '-la'], allow), 'bare program allows any arguments');
+        assert.ok(isCommandAllowed(['git', 'status'], allow) && !isCommandAllowed(['git', 'status', '--porcelain'], allow), 'exact pattern');
+        assert.ok(isCommandAllowed(['git', 'log', '--oneline'], allow) && !isCommandAllowed(['git', 'push'], allow), 'wildcard pattern');
+        assert.ok(!isCommandAllowed(['lsblk'], allow), 'program name must match exactly');
+    });
+
+    describe('in a workspace', () => {
+        const root = path.join(tempDir('commands'), 'project');
+        const node = process.execPath;
+        const workspace = new Workspace(root);
+        const runner = new CommandRunner({ allow: [node, 'ls', 'cat'], timeoutSeconds: 1, maxOutputBytes: 1000, allowNetwork: true }, workspace);
+
+        before(async () => {
+            await fs.mkdir(path.join(root, 'src'), { recursive: true });
+            await fs.writeFile(path.join(root, 'src', 'a.txt'), 'hello\n');
+        });
+
+        it('confines commands to the workspace', async () => {
+            await assert.rejects(runner.prepare('rm -rf src'), CommandError, 'unlisted command blocked');
+            await assert.rejects(runner.prepare('ls', '..'), CommandError, 'working directory outside rejected');
+            await assert.rejects(runner.prepare('cat ../../etc/passwd'), CommandError, 'path argument outside rejected');
+            await assert.rejects(runner.prepare('cat /etc/passwd'), CommandError, 'absolute path outside rejected');
+            await assert.rejects(runner.prepare('ls ~/.ssh'), CommandError, 'home paths rejected');
+            assert.equal((await runner.prepare('ls', 'src')).displayCwd, 'src');
+        });
+
+        it('runs commands', async () => {
+            const listing = await runner.run(await runner.prepare('ls', 'src'));
+            assert.equal(listing.exitCode, 0);
+            assert.equal(listing.stdout.trim(), 'a.txt');
+            assert.equal((await runner.run(await runner.prepare(`${node} -e "process.exit(3)"`))).exitCode, 3);
+            const slow = await runner.run(await runner.prepare(`${node} -e "setTimeout(() => {}, 10000)"`));
+            assert.ok(slow.timedOut && slow.exitCode === null && slow.durationMs < 5000, 'timeout enforced');
+            const noisy = await runner.run(await runner.prepare(`${node} -e "process.stdout.write('x'.repeat(100000))"`));
+            assert.ok(noisy.truncated && noisy.stdout.length === 1000, 'output capped');
+
+            const isolated = new CommandRunner({ allow: [node] }, workspace);
+            const fetchScript = `fetch('http://example.com').then(() => console.log('online'), () => console.log('offline'))`;
+            const offline = await isolated.run(await isolated.prepare(`${node} -e "${fetchScript}"`)).catch(error => error);
+            assert.ok(offline instanceof CommandError || offline.stdout.trim() === 'offline', 'no network by default');
+        });
+
+        it('asks before every run and keeps an audit log', async () => {
+            const records: CommandRecord[] = [];
+            const audit = async (record: CommandRecord) => { records.push(record); };
+            const permissions = new ToolPermissions();
+            let answer: ApprovalDecision = 'deny';
+            const previews: string[] = [];
+            permissions.prompt = async (_toolId, _args, preview) => {
+                previews.push(preview ?? '');
+                return answer;
+            };
+            const tool = createRunCommandTool({ allow: ['ls'], allowNetwork: true }, root, permissions, audit);
+            const execute = (args: object): Promise<any> => tool.execute!(args as any, {} as any);
+
+            const rejected = await execute({ command: 'ls src' });
+            assert.equal(rejected.error, 'COMMAND_REJECTED');
+            assert.ok(previews[0].startsWith('$ ls src'));
+            answer = 'always';
+            const ran = await execute({ command: 'ls', cwd: 'src' });
+            await execute({ command: 'ls', cwd: 'src' });
+            assert.ok(ran.exitCode === 0 && ran.stdout.includes('a.txt'), 'approved command runs');
+            assert.equal(previews.length, 3, 'every invocation asks');
+            assert.equal((await execute({ command: 'cat src/a.txt' })).error, 'COMMAND_NOT_ALLOWED');
+            assert.equal(previews.length, 3, 'blocked before asking');
+            assert.equal(records.map(r => r.status).join(','), 'rejected,completed,completed,blocked');
+            assert.equal(records[1].exitCode, 0);
+
+            const unattended: any = await createRunCommandTool({ allow: ['ls'] }, root).execute!({ command: 'ls' } as any, {} as any);
+            assert.equal(unattended.error, 'COMMAND_REJECTED', 'refused without a prompt');
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SecretStore, SecretsError, maskSecret, PASSPHRASE_ENV } from './secrets';
+import { resolveApiKey, unlockSecrets, describeApiKey, maskConfig, hasPlaintextApiKey, ConfigError, type AgentConfig } from './config-wizard';
+import { tempDir } from './testing';
+
+const KEY = 'sk-test-0123456789abcdefghij';
+const BASE: AgentConfig = { provider: 'custom', baseUrl: 'http://localhost:8000/v1', modelId: 'm', profile: 'work' };
+
+describe('Secrets', () => {
+    delete process.env[PASSPHRASE_ENV];
+    const dir = tempDir('secrets');
+    const file = path.join(dir, 'nested', 'secrets.enc');
+
+    it('encrypts the store', async () => {
+        const store = new SecretStore(file);
+        await store.unlock('correct horse');
+        await store.set('work', KEY);
+        const raw = await fs.readFile(file, 'utf-8');
+        assert.ok(!raw.includes(KEY) && !raw.includes('work'), 'key not stored in plain text');
+        assert.equal((await fs.stat(file)).mode & 0o777, 0o600, 'file is owner-only');
+
+        const reopened = new SecretStore(file);
+        await reopened.unlock('correct horse');
+        assert.equal(reopened.get('work'), KEY);
+
+        await assert.rejects(new SecretStore(file).unlock('wrong'), (error: Error) => error instanceof SecretsError && error.message.includes('Wrong passphrase'));
+
+        await fs.chmod(file, 0o644);
+        await new SecretStore(file).unlock('correct horse');
+        assert.equal((await fs.stat(file)).mode & 0o777, 0o600, 'loose permissions tightened');
+    });
+
+    it('resolves keys', async () => {
+        process.env.TEST_SAFELLM_KEY = 'from-env';
+        assert.equal((await resolveApiKey({ ...BASE, apiKeyEnv: 'TEST_SAFELLM_KEY' })).apiKey, 'from-env');
+        await assert.rejects(resolveApiKey({ ...BASE, apiKeyEnv: 'TEST_SAFELLM_MISSING' }), { constructor: ConfigError, message: /TEST_SAFELLM_MISSING is not set/ });
+
+        await assert.rejects(resolveApiKey({ ...BASE, apiKeySecret: 'work' }, { store: new SecretStore(file) }), { constructor: ConfigError, message: new RegExp(PASSPHRASE_ENV) });
+        const asked: string[] = [];
+        const answers = ['nope', 'correct horse'];
+        const resolved = await resolveApiKey({ ...BASE, apiKeySecret: 'work' }, {
+            store: new SecretStore(file),
+            passphrase: async question => { asked.push(question); return answers.shift()!; },
+        });
+        assert.equal(resolved.apiKey, KEY);
+        assert.equal(asked.length, 2, 'passphrase asked again after a wrong one');
+
+        process.env[PASSPHRASE_ENV] = 'correct horse';
+        assert.equal((await resolveApiKey({ ...BASE, apiKeySecret: 'work' }, { store: new SecretStore(file) })).apiKey, KEY, 'passphrase from environment');
+        await assert.rejects(resolveApiKey({ ...BASE, apiKeySecret: 'home' }, { store: new SecretStore(file) }), { constructor: ConfigError, message: /No secret named "home"/ });
+        delete process.env[PASSPHRASE_ENV];
+
+        const fresh = new SecretStore(path.join(dir, 'new.enc'));
+        await assert.rejects(unlockSecrets(fresh, async question => question.startsWith('Repeat') ? 'b' : 'a'), { constructor: ConfigError, message: /do not match/ });
+    });
+
+    it('masks keys when printing', () => {
+        assert.equal(maskSecret(KEY), 'sk-t…ghij');
+        assert.equal(maskSecret('short'), '••••••••');
+        assert.equal(maskConfig({ ...BASE, apiKey: KEY }).apiKey, 'sk-t…ghij');
+        assert.equal(describeApiKey({ ...BASE, apiKeyEnv: 'OPENAI_API_KEY', apiKey: KEY }), '$OPENAI_API_KEY');
+        assert.ok(describeApiKey({ ...BASE, apiKey: KEY })!.startsWith('sk-t…ghij'), 'source described without the key');
+        assert.ok(hasPlaintextApiKey({ ...BASE, apiKey: KEY }) && !hasPlaintextApiKey({ ...BASE, apiKey: KEY, apiKeySecret: 'work' }), 'plain-text keys detected');
+    });
+});
@@ -0,0 +1,186 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { AgentServer, SESSION_HEADER } from './server';
+import { SessionManager } from './session-manager';
+import { isolatePaths } from './testing';
+
+const REPLY = '<think>pondering</think>Hello **there**!';
+const TOKEN = 'test-token';
+
+// Stand-in for the upstream model: answers every chat request with REPLY, streamed in small pieces when asked
+function startUpstream(requests: any[]): Promise<http.Server> {
+    return new Promise(resolve => {
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                const request = JSON.parse(body);
+                requests.push(request);
+                const chunk = (delta: object, finishReason: string | null = null) =>
+                    `data: ${JSON.stringify({ id: '1', object: 'chat.completion.chunk', created: 1, model: request.model, choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`;
+                if (request.stream) {
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    for (const piece of REPLY.match(/.{1,4}/gs)!) res.write(chunk({ content: piece }));
+                    res.end(chunk({}, 'stop') + 'data: [DONE]\n\n');
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({
+                    id: '1', object: 'chat.completion', created: 1, model: request.model,
+                    choices: [{ index: 0, message: { role: 'assistant', content: REPLY }, finish_reason: 'stop' }],
+                    usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+                }));
+            });
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+}
+
+describe('API server', () => {
+    isolatePaths('server');
+    const requests: any[] = [];
+    const manager = new SessionManager();
+    let upstream: http.Server;
+    let server: AgentServer;
+    let sessionId: string;
+
+    before(async () => {
+        upstream = await startUpstream(requests);
+        server = new AgentServer(
+            { provider: 'custom', baseUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`, modelId: 'mock-model', profile: 'test' },
+            { token: TOKEN, guardrails: { actions: { email: 'block' } } },
+        );
+        await server.listen(0);
+    });
+
+    after(async () => {
+        await server?.close();
+        upstream?.closeAllConnections();
+        upstream?.close();
+    });
+
+    const call = (route: string, body?: object, headers: Record<string, string> = {}) => fetch(`${server.url}${route}`, {
+        method: body ? 'POST' : 'GET',
+        headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json', ...headers },
+        body: body && JSON.stringify(body),
+    });
+    // Requests the agent made for the chat itself, not for a session title
+    const chatRequests = () => requests.filter(request => !request.messages[0].content.startsWith('You name chat sessions'));
+
+    it('lists models behind auth', async () => {
+        assert.equal((await fetch(`${server.url}/v1/models`)).status, 401, 'missing token rejected');
+        const models: any = await (await call('/v1/models')).json();
+        assert.equal(models.object, 'list');
+        assert.equal(models.data[0].id, 'mock-model');
+        assert.equal((await call('/v1/embeddings', {})).status, 404, 'unknown route');
+    });
+
+    it('answers a chat completion', async () => {
+        const response = await call('/v1/chat/completions', {
+            model: 'anything',
+            messages: [{ role: 'system', content: 'Answer in French.' }, { role: 'user', content: 'Hi' }],
+        });
+        const completion: any = await response.json();
+        sessionId = response.headers.get(SESSION_HEADER)!;
+        assert.equal(completion.object, 'chat.completion');
+        assert.equal(completion.choices[0].message.content, 'Hello **there**!', 'answer without the think block');
+        assert.equal(completion.choices[0].message.reasoning_content, 'pondering', 'reasoning returned separately');
+        const system = chatRequests()[0].messages[0];
+        assert.ok(system.role === 'system' && system.content.endsWith('Answer in French.'), 'client system prompt added to ours');
+
+        const session = await manager.loadSession(sessionId);
+        assert.equal(session?.messages.length, 2, 'stored in a new session');
+        assert.equal(session.messages[1].thinking, 'pondering');
+    });
+
+    it('continues a session', async () => {
+        const response = await call('/v1/chat/completions', {
+            messages: [
+                { role: 'user', content: 'Hi' },
+                { role: 'assistant', content: 'Hello **there**!' },
+                { role: 'user', content: [{ type: 'text', text: 'My key is sk-proj-abcdefghijklmnopqrstuvwxyz0123456789' }] },
+            ],
+        }, { [SESSION_HEADER]: sessionId });
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get(SESSION_HEADER), sessionId, 'same session echoed');
+        assert.equal((await manager.loadSession(sessionId))?.messages.length, 4, 'only the new turn added');
+        const sent = JSON.stringify(chatRequests().at(-1).messages);
+        assert.ok(sent.includes('[REDACTED:api-key]') && !sent.includes('sk-proj'), 'secrets redacted before the model sees them');
+        assert.equal((await call('/v1/chat/completions', { messages: [{ role: 'user', content: 'mail jane@example.com' }] })).status, 400, 'blocked input refused');
+        assert.equal((await call('/v1/chat/completions', { messages: [{ role: 'user', content: 'Hi' }] }, { [SESSION_HEADER]: 'session-missing' })).status, 404, 'unknown session');
+    });
+
+    it('scans earlier replies sent by the client', async () => {
+        const response = await call('/v1/chat/completions', {
+            messages: [
+                { role: 'user', content: 'Hi' },
+                { role: 'assistant', content: 'Your key is sk-proj-abcdefghijklmnopqrstuvwxyz0123456789' },
+                { role: 'user', content: 'Thanks' },
+            ],
+        });
+        const session = await manager.loadSession(response.headers.get(SESSION_HEADER)!);
+        assert.equal(session?.messages[1].content, 'Your key is [REDACTED:api-key]', 'redacted before it is saved');
+        assert.ok(!JSON.stringify(chatRequests().at(-1).messages).includes('sk-proj'), 'and before the model sees it');
+        const blocked = await call('/v1/chat/completions', { messages: [{ role: 'assistant', content: 'Mail jane@example.com' }, { role: 'user', content: 'Hi' }] });
+        assert.equal(blocked.status, 400);
+    });
+
+    it('refuses requests a web page could forge', async () => {
+        // fetch() won't set Host, so these go out as raw requests
+        const raw = (headers: Record<string, string>, body = '{"messages":[{"role":"user","content":"Hi"}]}') => new Promise<number>((resolve, reject) => {
+            const req = http.request(`${server.url}/v1/chat/completions`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json', ...headers },
+            }, res => {
+                res.resume();
+                resolve(res.statusCode!);
+            });
+            req.on('error', reject);
+            req.end(body);
+        });
+        const port = new URL(server.url).port;
+        assert.equal(await raw({ Host: `attacker.example:${port}` }), 403, 'DNS rebinding');
+        assert.equal(await raw({ Origin: 'https://attacker.example' }), 403, 'cross-site page');
+        assert.equal(await raw({ 'Content-Type': 'text/plain' }), 415, 'simple request without preflight');
+        assert.equal(await raw({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` }), 200);
+    });
+
+    it('refuses session IDs that point outside the sessions directory', async () => {
+        for (const id of ['../../config', '..', 'a/b', '/etc/passwd']) {
+            const response = await call('/v1/chat/completions', { messages: [{ role: 'user', content: 'Hi' }] }, { [SESSION_HEADER]: id });
+            assert.equal(response.status, 400, id);
+            assert.equal(((await response.json()) as any).error.code, 'invalid_session');
+        }
+        assert.equal(await manager.loadSession('../config'), null);
+    });
+
+    it('passes sampling params through and records them', async () => {
+        const response = await call('/v1/chat/completions', {
+            temperature: 0.3, top_p: 0.9, max_tokens: 64, stop: 'END', seed: 42,
+            messages: [{ role: 'user', content: 'Hi' }],
+        });
+        const sent = chatRequests().at(-1);
+        assert.deepEqual([sent.temperature, sent.top_p, sent.max_tokens, sent.stop, sent.seed], [0.3, 0.9, 64, ['END'], 42]);
+        const session = await manager.loadSession(response.headers.get(SESSION_HEADER)!);
+        assert.deepEqual(session?.messages[1].generation, { temperature: 0.3, topP: 0.9, maxTokens: 64, stop: ['END'], seed: 42 });
+        const invalid = await call('/v1/chat/completions', { temperature: 5, messages: [{ role: 'user', content: 'Hi' }] });
+        assert.equal(invalid.status, 400);
+        assert.equal(((await invalid.json()) as any).error.code, 'invalid_parameter');
+    });
+
+    it('streams', async () => {
+        const response = await call('/v1/chat/completions', { stream: true, messages: [{ role: 'user', content: 'Hi' }] }, { [SESSION_HEADER]: sessionId });
+        const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''));
+        const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+        assert.equal(response.headers.get('content-type'), 'text/event-stream');
+        assert.equal(events.at(-1), '[DONE]');
+        assert.equal(chunks.map(chunk => chunk.choices[0].delta.content ?? '').join(''), 'Hello **there**!');
+        assert.equal(chunks.map(chunk => chunk.choices[0].delta.reasoning_content ?? '').join(''), 'pondering', 'reasoning split out across chunks');
+        assert.equal(chunks.at(-1).choices[0].finish_reason, 'stop');
+        const session = await manager.loadSession(sessionId);
+        assert.equal(session?.messages.length, 6);
+        assert.equal(session.messages[5].content, 'Hello **there**!', 'streamed reply stored');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderSession, parseExportArgs } from './session-export';
+import type { Session } from './session-manager';
+
+const session: Session = {
+    id: 'postgres-migration',
+    filename: 'postgres-migration.json',
+    createdAt: '2026-02-05T16:00:00.000Z',
+    updatedAt: '2026-02-05T16:00:05.000Z',
+    tags: [],
+    pinned: false,
+    messages: [
+        { role: 'user', content: 'What time is it? <script>alert(1)</script>', timestamp: '2026-02-05T16:00:01.000Z' },
+        {
+            role: 'assistant',
+            content: 'It is **4pm**.',
+            timestamp: '2026-02-05T16:00:05.000Z',
+            thinking: 'The user wants the time.',
+            toolCalls: [{ name: 'get-time', args: {}, result: { time: '4:00:00 PM' } }],
+        },
+    ],
+};
+
+describe('Session export', () => {
+    it('parses arguments', () => {
+        assert.equal(parseExportArgs([])?.format, 'markdown', 'defaults to markdown');
+        assert.equal(parseExportArgs(['html', 'out file.html'])?.path, 'out file.html');
+        assert.equal(parseExportArgs(['notes.jsonl'])?.format, 'jsonl', 'format from extension');
+        assert.equal(parseExportArgs(['pdf']), null, 'unknown format rejected');
+    });
+
+    it('renders Markdown', () => {
+        const markdown = renderSession(session, 'markdown');
+        assert.ok(markdown.includes('**Tool call:** `get-time`'), 'includes tool call');
+        assert.ok(markdown.includes('<summary>Thinking</summary>'), 'thinking collapsed');
+    });
+
+    it('renders HTML', () => {
+        const html = renderSession(session, 'html');
+        assert.ok(html.startsWith('<!DOCTYPE html>'), 'standalone document');
+        assert.ok(!html.includes('<script>') && html.includes('&lt;script&gt;'), 'raw HTML escaped');
+        assert.ok(html.includes('<details class="thinking">'), 'thinking collapsed');
+        assert.ok(html.includes('<strong>4pm</strong>'), 'markdown rendered');
+    });
+
+    it('renders JSONL', () => {
+        const lines = renderSession(session, 'jsonl').trim().split('\n');
+        assert.equal(lines.length, 1, 'one line per session');
+        const { messages } = JSON.parse(lines[0]);
+        assert.equal(messages.map((m: any) => m.role).join(','), 'user,assistant,tool,assistant', 'tool call then result then answer');
+        assert.equal(messages[1].tool_calls[0].id, messages[2].tool_call_id, 'tool call id linked');
+    });
+});
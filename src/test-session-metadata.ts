@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SessionManager, parseHistoryArgs } from './session-manager';
+import { createSessionTools } from './tools';
+import { isolatePaths } from './testing';
+
+describe('Session metadata', () => {
+    const sessionDir = path.join(isolatePaths('sessions'), 'data', 'sessions');
+    const manager = new SessionManager();
+    let id: string;
+
+    it('parses history arguments', () => {
+        const parsed = parseHistoryArgs(['2', '#Work', 'since:2026-01-01', 'until:2026-01-31']);
+        assert.ok(typeof parsed !== 'string');
+        assert.equal(parsed.page, 2);
+        assert.equal(parsed.filter.tag, 'work');
+        assert.equal(parsed.filter.until!.getDate(), new Date('2026-02-01').getDate(), 'until includes the whole day');
+        assert.ok(typeof parseHistoryArgs(['since:7d']) !== 'string', 'relative dates');
+        assert.equal(parseHistoryArgs(['since:someday']), 'Invalid date: someday');
+        assert.equal(typeof parseHistoryArgs(['postgres']), 'string', 'unknown argument rejected');
+    });
+
+    it('loads old session files with defaults', async () => {
+        await fs.mkdir(sessionDir, { recursive: true });
+        await fs.writeFile(path.join(sessionDir, 'session-old.json'), JSON.stringify({
+            id: 'session-old',
+            filename: 'session-old.json',
+            createdAt: '2025-06-01T10:00:00.000Z',
+            messages: [{ role: 'user', content: 'hello' }],
+        }));
+        const old = await manager.loadSession('session-old');
+        assert.ok(old);
+        assert.equal(old.updatedAt, old.createdAt);
+        assert.deepEqual(old.tags, []);
+        assert.equal(old.pinned, false);
+    });
+
+    it('records metadata on new sessions', async () => {
+        id = await manager.createSession({ model: 'llama3', provider: 'ollama' });
+        await manager.logInteraction([{ role: 'user', content: 'Plan the Postgres migration' }]);
+        await manager.updateSession(id, { tags: ['#Work', 'db'], pinned: true });
+        await manager.applyGeneratedTitle(id, 'Postgres migration plan');
+        await manager.applyGeneratedTitle(id, 'A later title');
+
+        const sessions = await manager.listSessions();
+        assert.ok(sessions[0].id === id && sessions[0].pinned, 'pinned session listed first');
+        assert.equal(sessions[0].model, 'llama3');
+        assert.equal(sessions[0].provider, 'ollama');
+        assert.equal(sessions[0].title, 'Postgres migration plan', 'generated title kept once set');
+        assert.deepEqual(sessions[0].tags, ['work', 'db'], 'tags normalized');
+
+        assert.deepEqual((await manager.listSessions({ tag: 'work' })).map(s => s.id), [id], 'filtered by tag');
+        assert.deepEqual((await manager.listSessions({ until: new Date('2026-01-01') })).map(s => s.id), ['session-old'], 'filtered by date');
+    });
+
+    it('branches a session', async () => {
+        await manager.logInteraction([
+            { role: 'user', content: 'Plan the Postgres migration' },
+            { role: 'assistant', content: 'Use pg_dump.' },
+        ]);
+        const branch = await manager.branchSession(1);
+        assert.ok(branch && manager.currentId === branch.id && branch.id !== id, 'branch is the current session');
+        assert.equal(branch.parentId, id);
+        assert.equal(branch.branchedAt, 1);
+        assert.equal(branch.messages.length, 1, 'messages copied up to the branch point');
+        assert.equal((await manager.loadSession(id))?.messages.length, 2, 'parent left unchanged');
+    });
+
+    it('keeps writing to the active session after the agent renames it', async () => {
+        const chat = new SessionManager();
+        const active = await chat.createSession();
+        const other = await new SessionManager().createSession();
+        const { renameSessionTool } = createSessionTools(chat);
+
+        await renameSessionTool.execute!({ sessionId: other, newName: 'Someone else' } as any, {} as any);
+        assert.equal(chat.currentId, active, 'renaming another session does not switch to it');
+
+        const result: any = await renameSessionTool.execute!({ sessionId: active, newName: 'Trip plans' } as any, {} as any);
+        assert.ok(result.success);
+        assert.equal(chat.currentId, 'Trip-plans');
+        await chat.logInteraction([{ role: 'user', content: 'Book the train' }]);
+        assert.equal((await chat.getSession('Trip-plans'))?.messages.length, 1, 'the next turn is saved under the new name');
+    });
+
+    it('renames in turn with background titling', async () => {
+        const manager = new SessionManager();
+        const id = await manager.createSession();
+        const [, renamed] = await Promise.all([
+            manager.applyGeneratedTitle(id, 'Generated title'),
+            manager.renameSession(id, 'Chosen name'),
+            manager.applyGeneratedTitle(id, 'Late title'),
+        ]);
+        assert.ok(renamed);
+        const files = await fs.readdir(sessionDir);
+        assert.ok(files.includes('Chosen-name.json') && !files.includes(`${id}.json`), 'the old file is not written back');
+        assert.equal((await manager.getSession('Chosen-name'))?.title, 'Chosen name');
+        assert.equal(await manager.renameSession('Chosen-name', 'Trip plans'), false, 'another session\'s name is not taken');
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SessionIndex } from './session-index';
+import type { Session } from './session-manager';
+import { tempDir } from './testing';
+
+function makeSession(id: string, createdAt: string, contents: string[]): Session {
+    return {
+        id,
+        filename: `${id}.json`,
+        createdAt,
+        updatedAt: createdAt,
+        tags: [],
+        pinned: false,
+        messages: contents.map((content, i) => ({
+            role: i % 2 === 0 ? 'user' : 'assistant',
+            content,
+            timestamp: createdAt,
+        })),
+    };
+}
+
+async function write(dir: string, session: Session) {
+    await fs.writeFile(path.join(dir, session.filename), JSON.stringify(session, null, 2));
+}
+
+describe('Session search', () => {
+    const dir = tempDir('search');
+    const indexPath = path.join(dir, 'index', 'search.json');
+    const index = new SessionIndex(indexPath, dir);
+
+    const postgres = makeSession('session-a', '2026-01-10T10:00:00.000Z', [
+        'We need to plan the Postgres migration for the billing service.',
+        'Start by dumping the MySQL schema, then convert it for Postgres. The migration can run over a weekend.',
+    ]);
+    const weather = makeSession('session-b', '2026-01-12T10:00:00.000Z', [
+        'What is the weather in Berlin?',
+        'It is sunny in Berlin today.',
+    ]);
+    const passing = makeSession('session-c', '2026-01-14T10:00:00.000Z', [
+        'Does the Postgres driver support TLS?',
+        'Yes, pass ssl: true.',
+    ]);
+
+    it('builds from existing files', async () => {
+        await Promise.all([write(dir, postgres), write(dir, weather), write(dir, passing)]);
+        const results = await index.search('postgres migration');
+        await fs.access(indexPath);
+        assert.equal(results[0]?.sessionId, 'session-a', 'best match ranked first');
+        assert.equal(results[1]?.sessionId, 'session-c', 'partial match ranked lower');
+        assert.ok(!results.some(r => r.sessionId === 'session-b'), 'unrelated session left out');
+        assert.ok(results[0].snippet.toLowerCase().includes('postgres migration'), 'snippet shows the match');
+        assert.equal(results[0].date, postgres.createdAt, 'date from the matching message');
+        assert.equal((await index.search('migrat'))[0]?.sessionId, 'session-a', 'prefix matches');
+    });
+
+    it('updates incrementally', async () => {
+        weather.messages.push({ role: 'user', content: 'Remind me about the Kubernetes upgrade.', timestamp: '2026-01-12T11:00:00.000Z' });
+        await write(dir, weather);
+        await index.update(weather);
+        const upgrade = await index.search('kubernetes');
+        assert.equal(upgrade[0]?.sessionId, 'session-b');
+        assert.equal(upgrade[0].messageIndex, 2, 'appended message found');
+
+        weather.messages = weather.messages.slice(0, 1);
+        await write(dir, weather);
+        await index.update(weather);
+        assert.equal((await index.search('kubernetes')).length, 0, 'removed message no longer found');
+    });
+
+    it('notices changes made outside the index', async () => {
+        await fs.rename(path.join(dir, 'session-a.json'), path.join(dir, 'postgres-planning.json'));
+        await write(dir, { ...postgres, id: 'postgres-planning', filename: 'postgres-planning.json' });
+        assert.deepEqual((await index.search('billing')).map(r => r.sessionId), ['postgres-planning'], 'renamed session reindexed');
+        assert.equal((await index.search('planning'))[0]?.sessionId, 'postgres-planning', 'session name matches');
+
+        await fs.unlink(path.join(dir, 'session-c.json'));
+        assert.equal((await index.search('tls')).length, 0, 'deleted session dropped');
+    });
+});
@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamPrinter } from './stream-printer';
+
+describe('Stream printer', () => {
+    it('strips a thinking block split across chunks', () => {
+        const printer = new StreamPrinter();
+        for (const chunk of ['<th', 'ink>\n  Let me check', ' the memory.</thi', 'nk>\n\nHello **there**', '!']) {
+            printer.writeText(chunk);
+        }
+        printer.finish();
+        assert.equal(printer.answer, 'Hello **there**!');
+    });
+
+    it('does not treat unterminated thinking as the answer', () => {
+        const partial = new StreamPrinter();
+        partial.writeText('<think>still going');
+        partial.finish();
+        assert.equal(partial.answer, '');
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeTime, parseDateTime, addDuration, nearestWeekday, timeDifference, summarizeDuration, resolveTimezone, TimeError } from './time';
+import { turnInstructions } from './agent';
+
+describe('Time tools', () => {
+    // Sunday 2026-03-01 12:00 UTC
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    it('handles timezones', () => {
+        const tokyo = describeTime(now, 'Asia/Tokyo');
+        assert.equal(tokyo.iso, '2026-03-01T21:00:00+09:00');
+        assert.equal(tokyo.weekday, 'Sunday');
+        assert.equal(tokyo.utc, '2026-03-01T12:00:00Z');
+        assert.throws(() => resolveTimezone('Mars/Olympus'), TimeError);
+        assert.equal(describeTime(parseDateTime('5pm', 'America/New_York', now), 'UTC').time, '22:00:00', 'wall time read in its zone');
+        assert.equal(parseDateTime('2026-03-01T09:00:00+09:00', 'Europe/Berlin').toISOString(), '2026-03-01T00:00:00.000Z', 'absolute timestamps keep their offset');
+        assert.throws(() => parseDateTime('next blursday', 'UTC', now), TimeError);
+    });
+
+    it('does date arithmetic', () => {
+        assert.equal(describeTime(nearestWeekday(now, 'friday', 'UTC'), 'UTC').date, '2026-03-06');
+        assert.equal(describeTime(nearestWeekday(now, 'Sunday', 'UTC'), 'UTC').date, '2026-03-08', 'next Sunday skips today');
+        assert.equal(describeTime(nearestWeekday(now, 'monday', 'UTC', -1), 'UTC').date, '2026-02-23');
+        assert.equal(describeTime(addDuration(new Date('2026-01-31T10:00:00Z'), '1 month', 'UTC'), 'UTC').date, '2026-02-28', 'month end clamped');
+        // US clocks spring forward on 2026-03-08; a day later is the same wall time, 23 hours later
+        const beforeDst = parseDateTime('2026-03-07 09:00', 'America/New_York');
+        const dayLater = addDuration(beforeDst, '1d', 'America/New_York');
+        assert.equal(describeTime(dayLater, 'America/New_York').time, '09:00:00');
+        assert.equal(dayLater.getTime() - beforeDst.getTime(), 23 * 3600 * 1000);
+        assert.equal(describeTime(addDuration(now, '2h30m', 'UTC', -1), 'UTC').time, '09:30:00');
+
+        const until = timeDifference(now, parseDateTime('17:00', 'UTC', now), 'UTC');
+        assert.equal(until.totalSeconds, 5 * 3600);
+        assert.equal(until.human, '5 hours');
+        assert.equal(until.direction, 'future');
+    });
+
+    it('parses durations', () => {
+        assert.equal(summarizeDuration('1h30m').totalSeconds, 5400);
+        assert.equal(summarizeDuration('2 weeks, 1.5 days').totalSeconds, (14 + 1.5) * 86400);
+        assert.equal(summarizeDuration('P1DT2H').totalSeconds, 93600);
+        assert.equal(summarizeDuration('P1DT2H').iso, 'P1DT2H');
+        assert.equal(summarizeDuration('01:15:30').totalSeconds, 4530);
+        assert.equal(summarizeDuration('-45m').totalSeconds, -2700);
+        assert.equal(summarizeDuration('2 months').totalSeconds, null, 'months have no fixed length');
+        assert.throws(() => summarizeDuration('a while'), TimeError);
+    });
+
+    it('puts the current date in the system prompt', () => {
+        assert.ok(turnInstructions({}, null, now).includes(describeTime(now).date));
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { FixtureWeatherProvider, OpenMeteoProvider, WeatherError } from './weather';
+import { createWeatherTool } from './tools';
+
+/** Stands in for the Open-Meteo geocoding and forecast APIs */
+function startStubServer(): Promise<{ server: http.Server; url: string; requests: string[] }> {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        requests.push(url.pathname);
+        res.setHeader('Content-Type', 'application/json');
+
+        if (url.pathname === '/search') {
+            const found = url.searchParams.get('name') === 'Berlin';
+            res.end(JSON.stringify(found ? { results: [{ name: 'Berlin', admin1: 'Land Berlin', country: 'Germany', latitude: 52.52, longitude: 13.41 }] } : {}));
+        } else if (url.pathname === '/forecast') {
+            const days = Number(url.searchParams.get('forecast_days'));
+            const fahrenheit = url.searchParams.get('temperature_unit') === 'fahrenheit';
+            res.end(JSON.stringify({
+                current: { time: '2026-03-01T12:00', temperature_2m: fahrenheit ? 41 : 5, apparent_temperature: 3, relative_humidity_2m: 70, wind_speed_10m: 11, weather_code: 61 },
+                daily: {
+                    time: Array.from({ length: days }, (_, i) => `2026-03-0${i + 1}`),
+                    weather_code: Array(days).fill(3),
+                    temperature_2m_max: Array(days).fill(7),
+                    temperature_2m_min: Array(days).fill(1),
+                    precipitation_probability_max: Array(days).fill(40),
+                },
+            }));
+        } else {
+            res.statusCode = 404;
+            res.end('{}');
+        }
+    });
+
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests });
+    }));
+}
+
+describe('Weather providers', () => {
+    it('reports unavailable without a provider instead of inventing data', async () => {
+        const unavailable: any = await createWeatherTool(undefined).execute!({ location: 'London' } as any, {} as any);
+        assert.equal(unavailable.error, 'WEATHER_UNAVAILABLE');
+        assert.ok(!('current' in unavailable));
+    });
+
+    it('serves fixtures', async () => {
+        const fixtures = new FixtureWeatherProvider(undefined, () => new Date('2026-03-01T12:00:00Z'));
+        const metric = await fixtures.getWeather('London', { units: 'metric', days: 3 });
+        const imperial = await fixtures.getWeather('london, uk', { units: 'imperial', days: 1 });
+        assert.equal(metric.forecast.length, 3);
+        assert.equal(metric.forecast[2].date, '2026-03-03');
+        assert.equal(imperial.current.temperature, 53.6, 'converted to imperial');
+        assert.equal(imperial.forecast.length, 1);
+        assert.ok(metric.source.startsWith('fixture'), 'labelled as fixture data');
+        await assert.rejects(fixtures.getWeather('Atlantis', { units: 'metric', days: 1 }), WeatherError);
+    });
+
+    describe('Open-Meteo against a stub server', () => {
+        let stub: Awaited<ReturnType<typeof startStubServer>>;
+        let provider: OpenMeteoProvider;
+        after(() => stub?.server.close());
+
+        it('geocodes and describes the weather', async () => {
+            stub = await startStubServer();
+            provider = new OpenMeteoProvider({ forecastUrl: `${stub.url}/forecast`, geocodingUrl: `${stub.url}/search` });
+            const report = await provider.getWeather('Berlin', { units: 'metric', days: 2 });
+            assert.equal(report.location, 'Berlin, Land Berlin, Germany');
+            assert.equal(report.current.conditions, 'Slight rain');
+            assert.equal(report.forecast[0].conditions, 'Overcast');
+            assert.equal(report.forecast.length, 2, 'forecast days requested');
+            assert.equal(report.forecast[1].precipitationChance, 40);
+        });
+
+        it('caches and passes units upstream', async () => {
+            await provider.getWeather('berlin', { units: 'metric', days: 2 });
+            assert.equal(stub.requests.length, 2, 'repeated request served from cache');
+            const fahrenheit = await provider.getWeather('Berlin', { units: 'imperial', days: 2 });
+            assert.equal(fahrenheit.current.temperature, 41);
+            assert.equal(stub.requests.filter(p => p === '/search').length, 1);
+        });
+
+        it('reports unknown locations from the tool', async () => {
+            const tool = createWeatherTool({ provider: 'open-meteo', forecastUrl: `${stub.url}/forecast`, geocodingUrl: `${stub.url}/search` });
+            const missing: any = await tool.execute!({ location: 'Nowhere' } as any, {} as any);
+            assert.equal(missing.error, 'WEATHER_ERROR');
+            assert.match(missing.message, /Nowhere/);
+        });
+    });
+});
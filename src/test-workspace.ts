@@ -0,0 +1,106 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Workspace, WorkspaceError, unifiedDiff } from './workspace';
+import { ToolPermissions, type ApprovalDecision } from './permissions';
+import { createFileTools } from './tools';
+import { Guardrails } from './guardrails';
+import { tempDir } from './testing';
+
+describe('Workspace file tools', () => {
+    const base = tempDir('workspace');
+    const root = path.join(base, 'project');
+    const outside = path.join(base, 'outside');
+    const workspace = new Workspace(root);
+
+    before(async () => {
+        await fs.mkdir(path.join(root, 'src'), { recursive: true });
+        await fs.mkdir(path.join(root, 'node_modules', 'dep'), { recursive: true });
+        await fs.mkdir(outside);
+        await fs.writeFile(path.join(root, 'src', 'app.ts'), 'const a = 1;\nconst b = 2;\nconsole.log(a + b);\n');
+        await fs.writeFile(path.join(root, 'README.md'), '# Demo\nTODO: write docs\n');
+        await fs.writeFile(path.join(root, '.env'), 'API_KEY=secret\n');
+        await fs.writeFile(path.join(root, 'node_modules', 'dep', 'index.js'), '// TODO in a dependency\n');
+        await fs.writeFile(path.join(outside, 'secret.txt'), 'top secret\n');
+        await fs.symlink(outside, path.join(root, 'escape'));
+        await fs.symlink(path.join(outside, 'missing.txt'), path.join(root, 'dangling'));
+    });
+
+    it('confines paths to the workspace', async () => {
+        await assert.rejects(workspace.readFile('../outside/secret.txt'), WorkspaceError, 'traversal rejected');
+        await assert.rejects(workspace.readFile(path.join(outside, 'secret.txt')), WorkspaceError, 'absolute path outside rejected');
+        await assert.rejects(workspace.readFile('escape/secret.txt'), WorkspaceError, 'symlink escape rejected');
+        await assert.rejects(workspace.planWrite('escape/new.txt', 'x'), WorkspaceError, 'write through symlinked directory rejected');
+        await assert.rejects(workspace.planWrite('dangling', 'x'), WorkspaceError, 'write through dangling symlink rejected');
+        await assert.rejects(workspace.readFile('.env'), WorkspaceError, '.env is protected');
+    });
+
+    it('reads, lists and searches', async () => {
+        const file = await workspace.readFile('src/app.ts', { startLine: 2, endLine: 3 });
+        assert.equal(file.content, 'const b = 2;\nconsole.log(a + b);');
+        assert.equal(file.path, 'src/app.ts');
+        const paths = (await workspace.listDirectory('.', { recursive: true })).entries.map(e => e.path);
+        assert.ok(paths.includes('src/app.ts') && paths.includes('node_modules') && !paths.includes('node_modules/dep'), 'recursive listing');
+        const search = await workspace.searchFiles('todo');
+        assert.deepEqual(search.matches.map(m => [m.path, m.line]), [['README.md', 2]], 'search skips node_modules');
+        const filtered = await workspace.searchFiles('const \\w = 2', { regex: true, include: '*.ts' });
+        assert.deepEqual(filtered.matches.map(m => m.path), ['src/app.ts'], 'regex search with glob');
+        assert.equal((await workspace.searchFiles('API_KEY')).matches.length, 0, 'protected files not searched');
+    });
+
+    it('plans diffs and patches', async () => {
+        assert.equal(unifiedDiff('a\nb\nc\n', 'a\nB\nc\n', 'x.txt'), '--- a/x.txt\n+++ b/x.txt\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c');
+        const patch = await workspace.planPatch('src/app.ts', [{ find: 'const b = 2;', replace: 'const b = 3;' }]);
+        assert.equal(patch.additions, 1);
+        assert.equal(patch.deletions, 1);
+        assert.ok(patch.diff.includes('+const b = 3;'));
+        await assert.rejects(workspace.planPatch('src/app.ts', [{ find: 'const', replace: 'let' }]), WorkspaceError, 'ambiguous find rejected');
+        await assert.rejects(workspace.planPatch('src/app.ts', [{ find: 'nope', replace: '' }]), WorkspaceError, 'missing find rejected');
+    });
+
+    it('writes only once confirmed', async () => {
+        const permissions = new ToolPermissions();
+        const previews: string[] = [];
+        let answer: ApprovalDecision = 'deny';
+        permissions.prompt = async (_toolId, _args, preview) => {
+            previews.push(preview ?? '');
+            return answer;
+        };
+        const tools = createFileTools(root, permissions);
+        const execute = (tool: keyof typeof tools, args: object): Promise<any> => tools[tool].execute!(args as any, {} as any);
+
+        const rejected = await execute('patchFileTool', { path: 'src/app.ts', edits: [{ find: 'const b = 2;', replace: 'const b = 3;' }] });
+        assert.equal(rejected.error, 'WRITE_REJECTED');
+        assert.ok((await fs.readFile(path.join(root, 'src', 'app.ts'), 'utf-8')).includes('const b = 2;'), 'rejected write leaves the file alone');
+        assert.ok(previews[0]?.includes('-const b = 2;'), 'diff shown before asking');
+
+        answer = 'always';
+        const written = await execute('writeFileTool', { path: 'docs/notes.md', content: 'hello\n' });
+        assert.ok(written.success && written.created);
+        assert.equal(await fs.readFile(path.join(root, 'docs', 'notes.md'), 'utf-8'), 'hello\n');
+        await execute('writeFileTool', { path: 'docs/notes.md', content: 'hello again\n' });
+        assert.equal(previews.length, 3, '"always" is not remembered for writes');
+
+        const unattended: any = await createFileTools(root).writeFileTool.execute!({ path: 'x.txt', content: 'x' } as any, {} as any);
+        assert.equal(unattended.error, 'WRITE_REJECTED', 'writes refused without a prompt');
+        assert.equal((await execute('readFileTool', { path: '../outside/secret.txt' })).error, 'WORKSPACE_ERROR');
+    });
+
+    it('refuses to write redacted secrets back over the real ones', async () => {
+        const config = 'const key = "sk-proj-abcdefghijklmnopqrstuvwxyz0123456789";\nconst retries = 3;\n';
+        await fs.writeFile(path.join(root, 'src', 'config.ts'), config);
+        const permissions = new ToolPermissions();
+        permissions.prompt = async () => 'allow';
+        const tools = new Guardrails().wrap(createFileTools(root, permissions));
+        const execute = (tool: keyof typeof tools, args: object): Promise<any> => tools[tool].execute!(args as any, {} as any);
+
+        const read = await execute('readFileTool', { path: 'src/config.ts' });
+        assert.ok(read.content.includes('[REDACTED:api-key]'), 'the model only sees the marker');
+        const rewritten = await execute('writeFileTool', { path: 'src/config.ts', content: read.content.replace('retries = 3', 'retries = 5') });
+        assert.equal(rewritten.error, 'WORKSPACE_ERROR');
+        const patched = await execute('patchFileTool', { path: 'src/config.ts', edits: [{ find: 'retries = 3', replace: 'retries = 5' }] });
+        assert.ok(patched.success, 'edits around the secret still work');
+        assert.equal(await fs.readFile(path.join(root, 'src', 'config.ts'), 'utf-8'), config.replace('retries = 3', 'retries = 5'));
+    });
+});
@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after } from 'node:test';
+import { configurePaths } from './paths';
+
+/** A fresh directory under the OS temp dir, removed once the calling suite has run */
+export function tempDir(prefix: string): string {
+    const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), `safellm-${prefix}-`)));
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+/** Points config and data at a temp dir, so a test never reads or writes the user's own */
+export function isolatePaths(prefix: string): string {
+    const dir = tempDir(prefix);
+    configurePaths({ configFile: path.join(dir, 'config.json'), dataDir: path.join(dir, 'data') });
+    return dir;
+}
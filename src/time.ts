@@ -0,0 +1,333 @@
+/** Raised for invalid zones, dates and durations; its message is safe to show the model */
+export class TimeError extends Error { }
+
+/** A moment as seen in one timezone; everything a model needs without parsing locale strings */
+export interface ZonedTime {
+    /** ISO 8601 with the zone's offset, e.g. 2026-03-01T21:00:00+09:00 */
+    iso: string;
+    utc: string;
+    timezone: string;
+    date: string;
+    time: string;
+    weekday: string;
+    /** e.g. +09:00 */
+    utcOffset: string;
+    unixSeconds: number;
+}
+
+export interface Duration {
+    years: number;
+    months: number;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    /** -1 for durations written with a leading minus */
+    sign: 1 | -1;
+}
+
+export interface DurationSummary {
+    input: string;
+    parts: Omit<Duration, 'sign'>;
+    negative: boolean;
+    /** Exact length; null when months or years make it depend on the start date */
+    totalSeconds: number | null;
+    iso: string;
+    human: string;
+}
+
+export interface TimeDifference {
+    from: ZonedTime;
+    to: ZonedTime;
+    totalSeconds: number;
+    /** Breakdown of the absolute difference */
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    human: string;
+    direction: 'future' | 'past' | 'same';
+}
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const SECONDS_PER: Record<'weeks' | 'days' | 'hours' | 'minutes' | 'seconds', number> = {
+    weeks: 7 * 86400,
+    days: 86400,
+    hours: 3600,
+    minutes: 60,
+    seconds: 1,
+};
+
+const UNIT_ALIASES: [RegExp, keyof Omit<Duration, 'sign'>][] = [
+    [/^(y|yrs?|years?)$/, 'years'],
+    [/^(mo|mos|months?)$/, 'months'],
+    [/^(w|wks?|weeks?)$/, 'weeks'],
+    [/^(d|days?)$/, 'days'],
+    [/^(h|hrs?|hours?)$/, 'hours'],
+    [/^(m|mins?|minutes?)$/, 'minutes'],
+    [/^(s|secs?|seconds?)$/, 'seconds'],
+];
+
+export function localTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Canonical IANA name; throws TimeError for unknown zones */
+export function resolveTimezone(timezone?: string): string {
+    if (!timezone) return localTimezone();
+    try {
+        return new Intl.DateTimeFormat('en-US', { timeZone: timezone.trim() }).resolvedOptions().timeZone;
+    } catch {
+        throw new TimeError(`Unknown timezone: ${timezone}. Use an IANA name such as "Asia/Tokyo" or "America/New_York".`);
+    }
+}
+
+interface WallTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+function wallTime(date: Date, timezone: string): WallTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/** Minutes the zone is ahead of UTC at that moment */
+function offsetMinutes(date: Date, timezone: string): number {
+    const wall = wallTime(date, timezone);
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/** The moment a wall clock in `timezone` shows the given time (normalizing overflowing fields) */
+function fromWallTime(wall: WallTime, timezone: string): Date {
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    // Two passes settle the offset, also next to DST changes
+    let guess = new Date(asUtc - offsetMinutes(new Date(asUtc), timezone) * 60000);
+    guess = new Date(asUtc - offsetMinutes(guess, timezone) * 60000);
+    return guess;
+}
+
+function pad(value: number, length = 2): string {
+    return String(Math.abs(value)).padStart(length, '0');
+}
+
+function formatOffset(minutes: number): string {
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+}
+
+export function describeTime(date: Date, timezone?: string): ZonedTime {
+    const zone = resolveTimezone(timezone);
+    const wall = wallTime(date, zone);
+    const offset = offsetMinutes(date, zone);
+    const localDate = `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}`;
+    const localTime = `${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+    const weekday = WEEKDAYS[new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay()];
+
+    return {
+        iso: `${localDate}T${localTime}${formatOffset(offset)}`,
+        utc: new Date(Math.floor(date.getTime() / 1000) * 1000).toISOString().replace('.000Z', 'Z'),
+        timezone: zone,
+        date: localDate,
+        time: localTime,
+        weekday: weekday[0].toUpperCase() + weekday.slice(1),
+        utcOffset: formatOffset(offset),
+        unixSeconds: Math.floor(date.getTime() / 1000),
+    };
+}
+
+/**
+ * Parses a point in time. Accepts "now", "today", "tomorrow", "yesterday",
+ * ISO timestamps with an offset or Z (absolute), and dates or clock times
+ * without one ("2026-03-01", "2026-03-01 17:00", "17:00", "5pm"), which are
+ * read as wall time in `timezone`. Bare clock times mean today.
+ */
+export function parseDateTime(input: string | undefined, timezone?: string, now: Date = new Date()): Date {
+    const zone = resolveTimezone(timezone);
+    const text = (input ?? 'now').trim().toLowerCase();
+    const today = wallTime(now, zone);
+    const midnight = (dayOffset: number) => fromWallTime({ ...today, day: today.day + dayOffset, hour: 0, minute: 0, second: 0 }, zone);
+
+    if (text === '' || text === 'now') return now;
+    if (text === 'today') return midnight(0);
+    if (text === 'tomorrow') return midnight(1);
+    if (text === 'yesterday') return midnight(-1);
+
+    // Absolute: carries its own offset
+    if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})$/.test(text)) {
+        const date = new Date(text.toUpperCase());
+        if (!isNaN(date.getTime())) return date;
+    }
+
+    const dateTime = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (dateTime) {
+        const [, year, month, day, hour = '0', minute = '0', second = '0'] = dateTime;
+        const wall = { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second };
+        if (wall.month < 1 || wall.month > 12 || wall.day < 1 || wall.day > 31 || wall.hour > 23 || wall.minute > 59) {
+            throw new TimeError(`Invalid date: ${input}`);
+        }
+        return fromWallTime(wall, zone);
+    }
+
+    const clock = text.match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/);
+    if (clock && (clock[2] !== undefined || clock[4])) {
+        let hour = Number(clock[1]);
+        if (clock[4]) {
+            if (hour < 1 || hour > 12) throw new TimeError(`Invalid time: ${input}`);
+            hour = hour % 12 + (clock[4] === 'pm' ? 12 : 0);
+        }
+        if (hour > 23 || Number(clock[2] ?? 0) > 59) throw new TimeError(`Invalid time: ${input}`);
+        return fromWallTime({ ...today, hour, minute: Number(clock[2] ?? 0), second: Number(clock[3] ?? 0) }, zone);
+    }
+
+    throw new TimeError(`Could not parse date or time: ${input}. Use ISO 8601 (2026-03-01T17:00:00Z), YYYY-MM-DD, HH:MM or words like "tomorrow".`);
+}
+
+/**
+ * Parses durations written as ISO 8601 ("P1DT2H30M"), compact units
+ * ("1h30m", "2d"), words ("2 weeks 3 days", "1.5 hours") or a clock
+ * ("01:30:00"). A leading "-" makes it negative.
+ */
+export function parseDuration(input: string): Duration {
+    let text = input.trim().toLowerCase();
+    const duration: Duration = { years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, sign: 1 };
+
+    if (text.startsWith('-')) {
+        duration.sign = -1;
+        text = text.slice(1).trim();
+    }
+
+    const iso = text.match(/^p(?:(\d+(?:\.\d+)?)y)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)w)?(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/);
+    if (iso && text !== 'p' && text !== 'pt') {
+        const [, y, mo, w, d, h, m, s] = iso.map(Number);
+        Object.assign(duration, { years: y || 0, months: mo || 0, weeks: w || 0, days: d || 0, hours: h || 0, minutes: m || 0, seconds: s || 0 });
+        return duration;
+    }
+
+    const clock = text.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+    if (clock) {
+        duration.hours = Number(clock[1]);
+        duration.minutes = Number(clock[2]);
+        duration.seconds = Number(clock[3] ?? 0);
+        return duration;
+    }
+
+    const pattern = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+    const leftover = text.replace(pattern, '').replace(/\band\b|[,\s]/g, '');
+    const matches = [...text.matchAll(pattern)];
+    if (matches.length === 0 || leftover) {
+        throw new TimeError(`Could not parse duration: ${input}. Use forms like "90m", "1h30m", "2 days 4 hours" or "PT1H30M".`);
+    }
+
+    for (const [, amount, unit] of matches) {
+        const field = UNIT_ALIASES.find(([alias]) => alias.test(unit))?.[1];
+        if (!field) throw new TimeError(`Unknown duration unit "${unit}" in: ${input}`);
+        duration[field] += Number(amount);
+    }
+    return duration;
+}
+
+/** Seconds in the fixed-length part of the duration (weeks and smaller) */
+function fixedSeconds(duration: Duration): number {
+    return (Object.keys(SECONDS_PER) as (keyof typeof SECONDS_PER)[])
+        .reduce((total, unit) => total + duration[unit] * SECONDS_PER[unit], 0);
+}
+
+function humanize(parts: [number, string][]): string {
+    const shown = parts.filter(([value]) => value !== 0).map(([value, unit]) => `${value} ${unit}${value === 1 ? '' : 's'}`);
+    return shown.length ? shown.join(' ') : '0 seconds';
+}
+
+export function summarizeDuration(input: string): DurationSummary {
+    const duration = parseDuration(input);
+    const { sign, ...parts } = duration;
+    const variable = parts.years !== 0 || parts.months !== 0;
+    const date = [parts.years && `${parts.years}Y`, parts.months && `${parts.months}M`, parts.weeks && `${parts.weeks}W`, parts.days && `${parts.days}D`].filter(Boolean).join('');
+    const time = [parts.hours && `${parts.hours}H`, parts.minutes && `${parts.minutes}M`, parts.seconds && `${parts.seconds}S`].filter(Boolean).join('');
+
+    return {
+        input,
+        parts,
+        negative: sign === -1,
+        totalSeconds: variable ? null : sign * fixedSeconds(duration),
+        iso: `${sign === -1 ? '-' : ''}P${date}${time ? `T${time}` : ''}` + (date || time ? '' : 'T0S'),
+        human: humanize([[parts.years, 'year'], [parts.months, 'month'], [parts.weeks, 'week'], [parts.days, 'day'], [parts.hours, 'hour'], [parts.minutes, 'minute'], [parts.seconds, 'second']]),
+    };
+}
+
+/**
+ * Adds a duration (`direction` -1 subtracts). Years, months, weeks and days
+ * move the calendar date in `timezone`, keeping the wall-clock time across
+ * DST changes; hours and smaller are exact elapsed time.
+ */
+export function addDuration(date: Date, input: string, timezone?: string, direction: 1 | -1 = 1): Date {
+    const zone = resolveTimezone(timezone);
+    const duration = parseDuration(input);
+    const sign = duration.sign * direction;
+    const wall = wallTime(date, zone);
+
+    const targetMonth = wall.month - 1 + sign * Math.trunc(duration.years * 12 + duration.months);
+    // Clamp to the end of shorter months: Jan 31 + 1 month = Feb 28/29
+    const daysInTarget = new Date(Date.UTC(wall.year, targetMonth + 1, 0)).getUTCDate();
+    // Whole days move the calendar; a fraction ("1.5 days") is added as elapsed time
+    const days = duration.weeks * 7 + duration.days;
+    const calendar = fromWallTime({
+        ...wall,
+        month: targetMonth + 1,
+        day: Math.min(wall.day, daysInTarget) + sign * Math.trunc(days),
+    }, zone);
+
+    const exactSeconds = (days - Math.trunc(days)) * 86400 + duration.hours * 3600 + duration.minutes * 60 + duration.seconds;
+    const exactMs = sign * exactSeconds * 1000;
+    return new Date(calendar.getTime() + (date.getTime() % 1000) + exactMs);
+}
+
+/** The next (or previous) given weekday in `timezone`, at midnight; never today unless `includeToday` */
+export function nearestWeekday(from: Date, weekday: string, timezone?: string, direction: 1 | -1 = 1, includeToday = false): Date {
+    const zone = resolveTimezone(timezone);
+    const target = WEEKDAYS.indexOf(weekday.trim().toLowerCase() as Weekday);
+    if (target < 0) throw new TimeError(`Unknown weekday: ${weekday}`);
+
+    const wall = wallTime(from, zone);
+    const current = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+    let delta = direction === 1 ? (target - current + 7) % 7 : -((current - target + 7) % 7);
+    if (delta === 0 && !includeToday) delta = 7 * direction;
+
+    return fromWallTime({ ...wall, day: wall.day + delta, hour: 0, minute: 0, second: 0 }, zone);
+}
+
+export function timeDifference(from: Date, to: Date, timezone?: string): TimeDifference {
+    const totalSeconds = Math.round((to.getTime() - from.getTime()) / 1000);
+    let remaining = Math.abs(totalSeconds);
+    const days = Math.floor(remaining / 86400);
+    remaining -= days * 86400;
+    const hours = Math.floor(remaining / 3600);
+    remaining -= hours * 3600;
+    const minutes = Math.floor(remaining / 60);
+    const seconds = remaining - minutes * 60;
+
+    return {
+        from: describeTime(from, timezone),
+        to: describeTime(to, timezone),
+        totalSeconds,
+        days,
+        hours,
+        minutes,
+        seconds,
+        human: humanize([[days, 'day'], [hours, 'hour'], [minutes, 'minute'], [seconds, 'second']]),
+        direction: totalSeconds > 0 ? 'future' : totalSeconds < 0 ? 'past' : 'same',
+    };
+}
@@ -1,55 +1,154 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import type { SessionManager } from './session-manager';
+import { MemoryStore, type MemoryEntry } from './memory-store';
+import { TimeError, describeTime, parseDateTime, addDuration, nearestWeekday, timeDifference, summarizeDuration } from './time';
+import { createWeatherProvider, WeatherError, MAX_FORECAST_DAYS, type WeatherConfig } from './weather';
+import { Workspace, WorkspaceError, type WritePlan } from './workspace';
+import { CommandRunner, CommandError, type CommandConfig, type CommandRecord } from './command-runner';
+import type { ToolPermissions } from './permissions';
+const memoryStore = new MemoryStore();
 
-const MEMORY_FILE = path.join(process.cwd(), 'MEMORY.md');
+/** Weather backed by the profile's provider; without one it says so instead of guessing */
+export function createWeatherTool(config?: WeatherConfig) {
+    const provider = createWeatherProvider(config);
 
-import { SessionManager } from './session-manager';
-const sessionManager = new SessionManager();
+    return createTool({
+        id: 'get-weather',
+        description: `Get current weather and a daily forecast of up to ${MAX_FORECAST_DAYS} days for a location`,
+        inputSchema: z.object({
+            location: z.string().describe('The city or location to get the weather for, e.g. "Paris" or "Portland, Oregon"'),
+            days: z.number().int().min(1).max(MAX_FORECAST_DAYS).optional().describe('Days of forecast including today (default 1)'),
+            units: z.enum(['metric', 'imperial']).optional().describe('metric (°C, km/h) or imperial (°F, mph); defaults to the configured units'),
+        }),
+        execute: async (input) => {
+            if (!provider) {
+                return {
+                    error: 'WEATHER_UNAVAILABLE',
+                    message: 'No weather provider is configured, so live weather is unavailable. Tell the user; do not guess the weather.',
+                };
+            }
+
+            try {
+                return await provider.getWeather(input.location, {
+                    units: input.units ?? config?.units ?? 'metric',
+                    days: input.days ?? 1,
+                });
+            } catch (error) {
+                return {
+                    error: 'WEATHER_ERROR',
+                    message: error instanceof WeatherError ? error.message : 'Failed to fetch the weather.',
+                };
+            }
+        },
+    });
+}
 
-export const weatherTool = createTool({
-    id: 'get-weather',
-    description: 'Get the current weather for a location',
+/** Runs a time helper, returning TimeErrors as tool errors the model can correct */
+function timeResult<T>(compute: () => T): T | { error: string; message: string } {
+    try {
+        return compute();
+    } catch (error) {
+        if (error instanceof TimeError) return { error: 'INVALID_TIME_INPUT', message: error.message };
+        throw error;
+    }
+}
+
+export const timeTool = createTool({
+    id: 'get-time',
+    description: 'Get the current date, time and weekday, locally or in any IANA timezone',
     inputSchema: z.object({
-        location: z.string().describe('The city or location to get the weather for'),
+        timezone: z.string().optional().describe('IANA timezone such as "Asia/Tokyo"; defaults to the local zone'),
     }),
-    execute: async (input) => {
-        const location = input.location;
-        return {
-            location,
-            temperature: '72°F',
-            condition: 'Sunny',
-            description: `It is currently sunny and 72°F in ${location}.`,
-        };
-    },
+    execute: async (input) => timeResult(() => describeTime(new Date(), input.timezone)),
 });
 
-export const timeTool = createTool({
-    id: 'get-time',
-    description: 'Get the current time',
-    inputSchema: z.object({}),
-    execute: async () => {
-        return {
-            time: new Date().toLocaleTimeString(),
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        };
-    },
+export const convertTimeTool = createTool({
+    id: 'convert-time',
+    description: 'Convert a date/time from one IANA timezone to another',
+    inputSchema: z.object({
+        time: z.string().describe('The time to convert: "now", "17:00", "5pm", "2026-03-01 09:30" or ISO 8601'),
+        from: z.string().optional().describe('IANA timezone the time is given in; defaults to the local zone'),
+        to: z.string().describe('IANA timezone to convert to, e.g. "America/New_York"'),
+    }),
+    execute: async (input) => timeResult(() => {
+        const date = parseDateTime(input.time, input.from);
+        return { from: describeTime(date, input.from), to: describeTime(date, input.to) };
+    }),
 });
 
+export const dateCalcTool = createTool({
+    id: 'date-calc',
+    description: 'Date arithmetic: add or subtract a duration, find the next or previous weekday, or measure the time between two dates (e.g. "how long until 5pm UTC")',
+    inputSchema: z.object({
+        operation: z.enum(['add', 'subtract', 'next-weekday', 'previous-weekday', 'difference']),
+        date: z.string().optional().describe('Start date/time: "now" (default), "today", "tomorrow", "2026-03-01", "17:00" or ISO 8601'),
+        duration: z.string().optional().describe('For add/subtract: e.g. "3 days", "2w", "1h30m", "P1M"'),
+        weekday: z.string().optional().describe('For next-weekday/previous-weekday: e.g. "friday"'),
+        until: z.string().optional().describe('For difference: the end date/time, same formats as date'),
+        timezone: z.string().optional().describe('IANA timezone for reading and reporting dates; defaults to the local zone'),
+    }),
+    execute: async (input) => timeResult(() => {
+        const start = parseDateTime(input.date, input.timezone);
+        switch (input.operation) {
+            case 'add':
+            case 'subtract': {
+                if (!input.duration) throw new TimeError('duration is required for add and subtract');
+                const result = addDuration(start, input.duration, input.timezone, input.operation === 'add' ? 1 : -1);
+                return { start: describeTime(start, input.timezone), duration: summarizeDuration(input.duration), result: describeTime(result, input.timezone) };
+            }
+            case 'next-weekday':
+            case 'previous-weekday': {
+                if (!input.weekday) throw new TimeError('weekday is required for next-weekday and previous-weekday');
+                const result = nearestWeekday(start, input.weekday, input.timezone, input.operation === 'next-weekday' ? 1 : -1);
+                return { start: describeTime(start, input.timezone), result: describeTime(result, input.timezone) };
+            }
+            case 'difference': {
+                if (!input.until) throw new TimeError('until is required for difference');
+                return timeDifference(start, parseDateTime(input.until, input.timezone), input.timezone);
+            }
+        }
+    }),
+});
+
+export const parseDurationTool = createTool({
+    id: 'parse-duration',
+    description: 'Parse a duration such as "1h30m", "2 weeks 3 days" or "PT45M" into its parts, total seconds and ISO 8601 form',
+    inputSchema: z.object({
+        duration: z.string().describe('The duration to parse'),
+    }),
+    execute: async (input) => timeResult(() => summarizeDuration(input.duration)),
+});
+
+function describeEntry(entry: MemoryEntry) {
+    return {
+        id: entry.id,
+        content: entry.content,
+        category: entry.category,
+        tags: entry.tags,
+        updatedAt: entry.updatedAt,
+    };
+}
+
 export const saveMemoryTool = createTool({
     id: 'save-memory',
-    description: 'Save important information to long-term memory',
+    description: 'Save important information to long-term memory. Returns the existing entry instead if a near-duplicate is already stored.',
     inputSchema: z.object({
         memory: z.string().describe('The information to remember'),
+        category: z.string().optional().describe('A short category such as preference, fact, person or project'),
+        tags: z.array(z.string()).optional().describe('Optional keywords to help find this memory later'),
     }),
     execute: async (input) => {
-        const timestamp = new Date().toISOString();
-        const entry = `\n- [${timestamp}] ${input.memory}`;
-
         try {
-            await fs.appendFile(MEMORY_FILE, entry);
-            return { success: true, message: 'Memory saved.' };
+            const { entry, duplicate } = await memoryStore.save(input.memory, { category: input.category, tags: input.tags });
+            if (duplicate) {
+                return {
+                    success: false,
+                    message: `A similar memory already exists (${entry.id}). Use replace-memory with that ID to update it.`,
+                    existing: describeEntry(entry),
+                };
+            }
+            return { success: true, message: 'Memory saved.', memory: describeEntry(entry) };
         } catch (error) {
             return { success: false, message: 'Failed to save memory.' };
         }
@@ -58,37 +157,57 @@ export const saveMemoryTool = createTool({
 
 export const readMemoryTool = createTool({
     id: 'read-memory',
-    description: 'Read all saved long-term memories',
-    inputSchema: z.object({}),
-    execute: async () => {
+    description: 'List saved long-term memories, most recently updated first. Prefer search-memory when looking for something specific.',
+    inputSchema: z.object({
+        category: z.string().optional().describe('Only list memories in this category'),
+        limit: z.number().int().positive().optional().describe('Maximum number of memories to return (default 20)'),
+    }),
+    execute: async (input) => {
+        try {
+            const entries = await memoryStore.list({ category: input.category });
+            const recent = entries
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+                .slice(0, input.limit ?? 20);
+            if (recent.length === 0) return { memories: [], message: 'No memories found.' };
+            return { memories: recent.map(describeEntry), total: entries.length };
+        } catch (error) {
+            return { memories: [], message: 'Failed to read memories.' };
+        }
+    },
+});
+
+export const searchMemoryTool = createTool({
+    id: 'search-memory',
+    description: 'Search long-term memory and return only the most relevant entries',
+    inputSchema: z.object({
+        query: z.string().describe('Keywords describing what to look for'),
+        category: z.string().optional().describe('Only search this category'),
+        tag: z.string().optional().describe('Only search memories with this tag'),
+        limit: z.number().int().positive().optional().describe('Maximum number of results (default 5)'),
+    }),
+    execute: async (input) => {
         try {
-            const data = await fs.readFile(MEMORY_FILE, 'utf-8');
-            return { memories: data };
+            const results = await memoryStore.search(input.query, { category: input.category, tag: input.tag, limit: input.limit });
+            if (results.length === 0) return { results: [], message: 'No matching memories found.' };
+            return { results: results.map(r => ({ ...describeEntry(r.entry), score: r.score })) };
         } catch (error) {
-            return { memories: 'No memories found.' };
+            return { results: [], message: 'Failed to search memories.' };
         }
     },
 });
 
 export const deleteMemoryTool = createTool({
     id: 'delete-memory',
-    description: 'Delete a specific memory from long-term storage',
+    description: 'Delete a specific memory from long-term storage by its ID',
     inputSchema: z.object({
-        memory: z.string().describe('The content of the memory to delete (exact or partial match)'),
+        id: z.string().describe('The ID of the memory to delete (e.g. mem-1a2b3c4d)'),
     }),
     execute: async (input) => {
         try {
-            const data = await fs.readFile(MEMORY_FILE, 'utf-8');
-            const lines = data.split('\n');
-            const memoryToDelete = input.memory.trim();
-
-            const newLines = lines.filter(line => !line.includes(memoryToDelete));
-
-            if (newLines.length === lines.length) {
-                return { success: false, message: 'Memory not found.' };
+            const deleted = await memoryStore.delete(input.id.trim());
+            if (!deleted) {
+                return { success: false, message: `Memory not found: ${input.id}` };
             }
-
-            await fs.writeFile(MEMORY_FILE, newLines.join('\n'));
             return { success: true, message: 'Memory deleted.' };
         } catch (error) {
             return { success: false, message: 'Failed to delete memory.' };
@@ -98,80 +217,278 @@ export const deleteMemoryTool = createTool({
 
 export const replaceMemoryTool = createTool({
     id: 'replace-memory',
-    description: 'Replace an existing memory with new content',
+    description: 'Replace an existing memory with new content. The old entry is kept as superseded history.',
     inputSchema: z.object({
-        originalContent: z.string().describe('The content of the existing memory to find (exact or partial match)'),
+        id: z.string().describe('The ID of the memory to replace'),
         newContent: z.string().describe('The new content to replace it with'),
+        category: z.string().optional().describe('New category (defaults to the existing one)'),
+        tags: z.array(z.string()).optional().describe('New tags (defaults to the existing ones)'),
     }),
     execute: async (input) => {
         try {
-            const data = await fs.readFile(MEMORY_FILE, 'utf-8');
-            const lines = data.split('\n');
-            const memoryToFind = input.originalContent.trim();
-            const timestamp = new Date().toISOString();
-
-            let found = false;
-            const newLines = lines.map(line => {
-                if (line.includes(memoryToFind)) {
-                    found = true;
-                    // Preserve existing format if possible, or just overwrite
-                    // We'll standard format: - [Timestamp] Content
-                    return `- [${timestamp}] ${input.newContent}`;
-                }
-                return line;
-            });
-
-            if (!found) {
-                return { success: false, message: 'Original memory not found.' };
+            const entry = await memoryStore.replace(input.id.trim(), input.newContent, { category: input.category, tags: input.tags });
+            if (!entry) {
+                return { success: false, message: `Memory not found or already superseded: ${input.id}` };
             }
-
-            await fs.writeFile(MEMORY_FILE, newLines.join('\n'));
-            return { success: true, message: 'Memory replaced.' };
+            return { success: true, message: 'Memory replaced.', memory: describeEntry(entry) };
         } catch (error) {
             return { success: false, message: 'Failed to replace memory.' };
         }
     },
 });
 
-export const listSessionsTool = createTool({
-    id: 'list-sessions',
-    description: 'List all available past conversation sessions',
-    inputSchema: z.object({}),
-    execute: async () => {
-        const sessions = await sessionManager.listSessions();
-        return {
-            sessions: sessions.map(s => ({
-                id: s.id,
-                created: s.createdAt,
-                messageCount: s.messages.length
-            }))
-        };
-    },
-});
+/**
+ * Tools over saved sessions, on the chat's own SessionManager so that
+ * renaming the active session keeps the chat writing to it.
+ */
+export function createSessionTools(sessionManager: SessionManager) {
+    const listSessionsTool = createTool({
+        id: 'list-sessions',
+        description: 'List all available past conversation sessions',
+        inputSchema: z.object({}),
+        execute: async () => {
+            const sessions = await sessionManager.listSessions();
+            return {
+                sessions: sessions.map(s => ({
+                    id: s.id,
+                    title: s.title,
+                    created: s.createdAt,
+                    updated: s.updatedAt,
+                    model: s.model,
+                    tags: s.tags,
+                    pinned: s.pinned,
+                    messageCount: s.messages.length
+                }))
+            };
+        },
+    });
 
-export const readSessionTool = createTool({
-    id: 'read-session',
-    description: 'Read the content of a past conversation session',
-    inputSchema: z.object({
-        sessionId: z.string().describe('The ID of the session to read'),
-    }),
-    execute: async (input) => {
-        const session = await sessionManager.loadSession(input.sessionId);
-        if (!session) return { error: 'Session not found' };
-        return { session };
-    },
-});
+    const searchSessionsTool = createTool({
+        id: 'search-sessions',
+        description: 'Full-text search over past conversation sessions, returning ranked matches with session ID, snippet and date',
+        inputSchema: z.object({
+            query: z.string().describe('Keywords to look for in past messages'),
+            limit: z.number().int().positive().optional().describe('Maximum number of sessions to return (default 5)'),
+        }),
+        execute: async (input) => {
+            try {
+                const results = await sessionManager.searchSessions(input.query, { limit: input.limit });
+                if (results.length === 0) return { results: [], message: 'No matching sessions found.' };
+                return {
+                    results: results.map(r => ({
+                        sessionId: r.sessionId,
+                        date: r.date,
+                        snippet: r.snippet,
+                        role: r.role,
+                        matchingMessages: r.matches,
+                        score: r.score,
+                    })),
+                };
+            } catch (error) {
+                return { results: [], message: 'Failed to search sessions.' };
+            }
+        },
+    });
 
-export const renameSessionTool = createTool({
-    id: 'rename-session',
-    description: 'Rename a conversation session',
-    inputSchema: z.object({
-        sessionId: z.string().describe('The ID of the session to rename'),
-        newName: z.string().describe('The new name for the session'),
-    }),
-    execute: async (input) => {
-        const success = await sessionManager.renameSession(input.sessionId, input.newName);
-        if (success) return { success: true, message: `Session renamed to ${input.newName}` };
-        return { success: false, message: 'Failed to rename session' };
-    },
-});
+    const readSessionTool = createTool({
+        id: 'read-session',
+        description: 'Read the content of a past conversation session',
+        inputSchema: z.object({
+            sessionId: z.string().describe('The ID of the session to read'),
+        }),
+        execute: async (input) => {
+            const session = await sessionManager.getSession(input.sessionId);
+            if (!session) return { error: 'Session not found' };
+            return { session };
+        },
+    });
+
+    const renameSessionTool = createTool({
+        id: 'rename-session',
+        description: 'Rename a conversation session',
+        inputSchema: z.object({
+            sessionId: z.string().describe('The ID of the session to rename'),
+            newName: z.string().describe('The new name for the session'),
+        }),
+        execute: async (input) => {
+            const success = await sessionManager.renameSession(input.sessionId, input.newName);
+            if (success) return { success: true, message: `Session renamed to ${input.newName}` };
+            return { success: false, message: 'Failed to rename session' };
+        },
+    });
+
+    return { listSessionsTool, searchSessionsTool, readSessionTool, renameSessionTool };
+}
+
+/** Runs a workspace operation, returning WorkspaceErrors as tool errors the model can correct */
+async function workspaceResult<T>(compute: () => Promise<T>): Promise<T | { error: string; message: string }> {
+    try {
+        return await compute();
+    } catch (error) {
+        if (error instanceof WorkspaceError) return { error: 'WORKSPACE_ERROR', message: error.message };
+        throw error;
+    }
+}
+
+/**
+ * File tools confined to `root`. Reads run freely; writes show their diff
+ * through `permissions.confirm` and are only applied once the user accepts,
+ * so without permissions (or a prompt) every write is refused.
+ */
+export function createFileTools(root: string, permissions?: ToolPermissions) {
+    const workspace = new Workspace(root);
+
+    const applyIfConfirmed = async (toolId: string, plan: WritePlan) => {
+        if (!plan.diff && !plan.created) {
+            return { success: true, path: plan.path, message: 'The file already has this content; nothing was written.' };
+        }
+
+        const { allowed, reason } = permissions
+            ? await permissions.confirm(toolId, { path: plan.path }, plan.diff || `+++ b/${plan.path} (new empty file)`)
+            : { allowed: false, reason: 'File writes require user confirmation, which is not available here.' };
+        if (!allowed) {
+            return {
+                error: 'WRITE_REJECTED',
+                path: plan.path,
+                message: `${reason} The file was not changed. Do not retry the same change; ask the user how to proceed.`,
+            };
+        }
+
+        await workspace.applyWrite(plan);
+        return { success: true, path: plan.path, created: plan.created, linesAdded: plan.additions, linesRemoved: plan.deletions };
+    };
+
+    const readFileTool = createTool({
+        id: 'read-file',
+        description: 'Read a text file from the workspace, optionally only a range of lines',
+        inputSchema: z.object({
+            path: z.string().describe('File path relative to the workspace root'),
+            startLine: z.number().int().positive().optional().describe('First line to read (1-based)'),
+            endLine: z.number().int().positive().optional().describe('Last line to read, inclusive'),
+        }),
+        execute: async (input) => workspaceResult(() => workspace.readFile(input.path, {
+            startLine: input.startLine ?? undefined,
+            endLine: input.endLine ?? undefined,
+        })),
+    });
+
+    const listDirectoryTool = createTool({
+        id: 'list-directory',
+        description: 'List files and folders in a workspace directory',
+        inputSchema: z.object({
+            path: z.string().optional().describe('Directory relative to the workspace root (default ".")'),
+            recursive: z.boolean().optional().describe('Include subdirectories (skips .git and node_modules)'),
+        }),
+        execute: async (input) => workspaceResult(() => workspace.listDirectory(input.path || '.', { recursive: !!input.recursive })),
+    });
+
+    const searchFilesTool = createTool({
+        id: 'search-files',
+        description: 'Search file contents in the workspace, like grep; returns matching lines with paths and line numbers',
+        inputSchema: z.object({
+            query: z.string().describe('Text to look for'),
+            path: z.string().optional().describe('Directory or file to search, relative to the workspace root (default ".")'),
+            include: z.string().optional().describe('Only search files matching this glob, e.g. "*.ts" or "docs/**/*.md"'),
+            regex: z.boolean().optional().describe('Treat the query as a regular expression'),
+            caseSensitive: z.boolean().optional().describe('Match case exactly (default false)'),
+            maxResults: z.number().int().positive().optional().describe('Maximum matching lines to return (default 50)'),
+        }),
+        execute: async (input) => workspaceResult(() => workspace.searchFiles(input.query, {
+            path: input.path || '.',
+            include: input.include || undefined,
+            regex: !!input.regex,
+            caseSensitive: !!input.caseSensitive,
+            maxResults: input.maxResults ?? undefined,
+        })),
+    });
+
+    const writeFileTool = createTool({
+        id: 'write-file',
+        description: 'Create a file or replace its whole content in the workspace. The user sees a diff and must approve it.',
+        inputSchema: z.object({
+            path: z.string().describe('File path relative to the workspace root'),
+            content: z.string().describe('The complete new file content'),
+        }),
+        execute: async (input) => workspaceResult(async () => applyIfConfirmed('write-file', await workspace.planWrite(input.path, input.content))),
+    });
+
+    const patchFileTool = createTool({
+        id: 'patch-file',
+        description: 'Edit part of an existing workspace file by replacing exact text. Each "find" must match exactly once. The user sees a diff and must approve it.',
+        inputSchema: z.object({
+            path: z.string().describe('File path relative to the workspace root'),
+            edits: z.array(z.object({
+                find: z.string().describe('Exact existing text, including enough surrounding lines to be unique'),
+                replace: z.string().describe('Text to put in its place'),
+            })).min(1),
+        }),
+        execute: async (input) => workspaceResult(async () => applyIfConfirmed('patch-file', await workspace.planPatch(input.path, input.edits))),
+    });
+
+    return { readFileTool, listDirectoryTool, searchFilesTool, writeFileTool, patchFileTool };
+}
+
+/**
+ * Runs allowlisted commands in the workspace after the user confirms each
+ * one. Every call, whether it ran, was refused or was blocked, is passed to
+ * `audit` so the session keeps a record.
+ */
+export function createRunCommandTool(config: CommandConfig, root: string, permissions?: ToolPermissions, audit?: (record: CommandRecord) => Promise<void>) {
+    const runner = new CommandRunner(config, new Workspace(root));
+
+    return createTool({
+        id: 'run-command',
+        description: `Run a program in the workspace and get its output and exit code. No shell: no pipes, redirects or "&&". Allowed: ${config.allow.join(', ')}. The user must approve every command.`,
+        inputSchema: z.object({
+            command: z.string().describe('The command line, e.g. "git status"'),
+            cwd: z.string().optional().describe('Directory to run in, relative to the workspace root (default ".")'),
+        }),
+        execute: async (input, context) => {
+            const record = async (entry: Omit<CommandRecord, 'timestamp'>) => {
+                await audit?.({ ...entry, timestamp: new Date().toISOString() });
+            };
+
+            let prepared;
+            try {
+                prepared = await runner.prepare(input.command, input.cwd || '.');
+            } catch (error) {
+                if (!(error instanceof CommandError)) throw error;
+                await record({ command: input.command, cwd: input.cwd || '.', status: 'blocked', reason: error.message });
+                return { error: 'COMMAND_NOT_ALLOWED', message: error.message };
+            }
+
+            const preview = `$ ${prepared.command}\n  in ${prepared.displayCwd}, timeout ${runner.timeoutSeconds}s, network ${runner.allowNetwork ? 'allowed' : 'off'}`;
+            const { allowed, reason } = permissions
+                ? await permissions.confirm('run-command', { command: prepared.command, cwd: prepared.displayCwd }, preview)
+                : { allowed: false, reason: 'Commands require user confirmation, which is not available here.' };
+            if (!allowed) {
+                await record({ command: prepared.command, cwd: prepared.displayCwd, status: 'rejected', reason });
+                return {
+                    error: 'COMMAND_REJECTED',
+                    message: `${reason} The command did not run. Do not retry it; ask the user how to proceed.`,
+                };
+            }
+
+            try {
+                // Ctrl+C during the reply stops the command too
+                const result = await runner.run(prepared, context?.abortSignal);
+                await record({
+                    command: result.command,
+                    cwd: result.cwd,
+                    status: result.timedOut ? 'timed-out' : 'completed',
+                    exitCode: result.exitCode,
+                    durationMs: result.durationMs,
+                });
+                return {
+                    ...result,
+                    ...(result.timedOut && { message: `The command was stopped after ${runner.timeoutSeconds} seconds.` }),
+                    ...(result.truncated && { message: 'Output exceeded the size limit; the command was stopped and output cut off.' }),
+                };
+            } catch (error) {
+                if (!(error instanceof CommandError)) throw error;
+                await record({ command: prepared.command, cwd: prepared.displayCwd, status: 'failed', reason: error.message });
+                return { error: 'COMMAND_FAILED', message: error.message };
+            }
+        },
+    });
+}
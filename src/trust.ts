@@ -0,0 +1,29 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { resolvePaths } from './paths';
+
+/**
+ * A project's .safellm directory comes with the repository, so what it can
+ * make safellm execute (plugins, and the MCP servers, commands and tool
+ * permissions in its config.json) only takes effect once the user trusts
+ * the project. The answer is asked once and kept per project directory.
+ */
+async function trustedProjects(): Promise<string[]> {
+    try {
+        return JSON.parse(await fs.readFile(resolvePaths().trustedProjectsFile, 'utf-8'));
+    } catch {
+        return [];
+    }
+}
+
+export async function isProjectTrusted(projectDir: string): Promise<boolean> {
+    return (await trustedProjects()).includes(projectDir);
+}
+
+export async function trustProject(projectDir: string): Promise<void> {
+    const trusted = await trustedProjects();
+    if (trusted.includes(projectDir)) return;
+    const file = resolvePaths().trustedProjectsFile;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify([...trusted, projectDir], null, 2));
+}
@@ -0,0 +1,313 @@
+import * as fs from 'fs/promises';
+
+export type WeatherUnits = 'metric' | 'imperial';
+
+/** `weather` section of a profile; without it the weather tool reports itself unavailable */
+export interface WeatherConfig {
+    /** "open-meteo" calls the Open-Meteo API (no key needed); "fixture" serves canned data offline */
+    provider: 'open-meteo' | 'fixture';
+    /** Default units when the model doesn't ask for specific ones (metric) */
+    units?: WeatherUnits;
+    /** How long fetched reports are reused, in minutes (10) */
+    cacheMinutes?: number;
+    /** Overrides for the Open-Meteo endpoints, e.g. a self-hosted instance */
+    forecastUrl?: string;
+    geocodingUrl?: string;
+    /** JSON file with fixture reports; the built-in fixtures are used when unset */
+    fixturePath?: string;
+}
+
+export interface DailyForecast {
+    date: string;
+    conditions: string;
+    high: number;
+    low: number;
+    /** Percent chance of precipitation, when the provider knows it */
+    precipitationChance?: number;
+}
+
+export interface WeatherReport {
+    location: string;
+    latitude?: number;
+    longitude?: number;
+    units: WeatherUnits;
+    /** Temperatures are in °C (metric) or °F (imperial), wind in km/h or mph */
+    current: {
+        temperature: number;
+        feelsLike?: number;
+        humidity?: number;
+        windSpeed?: number;
+        conditions: string;
+        time: string;
+    };
+    forecast: DailyForecast[];
+    /** Where the data came from, so fixture data is never mistaken for a real report */
+    source: string;
+}
+
+export interface WeatherRequest {
+    units: WeatherUnits;
+    /** Days of forecast including today, 1-7 */
+    days: number;
+}
+
+export interface WeatherProvider {
+    readonly name: string;
+    getWeather(location: string, request: WeatherRequest): Promise<WeatherReport>;
+}
+
+/** Raised for unknown locations and upstream failures; its message is safe to show the model */
+export class WeatherError extends Error { }
+
+export const MAX_FORECAST_DAYS = 7;
+
+const DEFAULT_CACHE_MINUTES = 10;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const OPEN_METEO_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const OPEN_METEO_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+// WMO weather interpretation codes used by Open-Meteo
+const WEATHER_CODES: Record<number, string> = {
+    0: 'Clear sky',
+    1: 'Mainly clear',
+    2: 'Partly cloudy',
+    3: 'Overcast',
+    45: 'Fog',
+    48: 'Depositing rime fog',
+    51: 'Light drizzle',
+    53: 'Drizzle',
+    55: 'Dense drizzle',
+    56: 'Light freezing drizzle',
+    57: 'Freezing drizzle',
+    61: 'Slight rain',
+    63: 'Rain',
+    65: 'Heavy rain',
+    66: 'Light freezing rain',
+    67: 'Freezing rain',
+    71: 'Slight snowfall',
+    73: 'Snowfall',
+    75: 'Heavy snowfall',
+    77: 'Snow grains',
+    80: 'Slight rain showers',
+    81: 'Rain showers',
+    82: 'Violent rain showers',
+    85: 'Slight snow showers',
+    86: 'Heavy snow showers',
+    95: 'Thunderstorm',
+    96: 'Thunderstorm with slight hail',
+    99: 'Thunderstorm with heavy hail',
+};
+
+function describeCode(code: number): string {
+    return WEATHER_CODES[code] ?? `Unknown (code ${code})`;
+}
+
+async function fetchJson(url: string): Promise<any> {
+    let response: Response;
+    try {
+        response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+        throw new WeatherError(`Weather service unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!response.ok) {
+        throw new WeatherError(`Weather service answered with status ${response.status}`);
+    }
+    return response.json();
+}
+
+/**
+ * Open-Meteo (https://open-meteo.com): geocodes the location name, then
+ * fetches current conditions and a daily forecast. Reports and geocoding
+ * results are cached in memory for `cacheMinutes`.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+    readonly name = 'open-meteo';
+    private cache = new Map<string, { expires: number; report: WeatherReport }>();
+    private places = new Map<string, { name: string; latitude: number; longitude: number }>();
+
+    constructor(private config: Omit<WeatherConfig, 'provider'> = {}) { }
+
+    async getWeather(location: string, request: WeatherRequest): Promise<WeatherReport> {
+        const key = `${location.trim().toLowerCase()}|${request.units}|${request.days}`;
+        const cached = this.cache.get(key);
+        if (cached && cached.expires > Date.now()) return cached.report;
+
+        const place = await this.geocode(location);
+        const imperial = request.units === 'imperial';
+        const params = new URLSearchParams({
+            latitude: String(place.latitude),
+            longitude: String(place.longitude),
+            current: 'temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,weather_code',
+            daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+            timezone: 'auto',
+            forecast_days: String(request.days),
+            temperature_unit: imperial ? 'fahrenheit' : 'celsius',
+            wind_speed_unit: imperial ? 'mph' : 'kmh',
+        });
+        const data = await fetchJson(`${this.config.forecastUrl ?? OPEN_METEO_FORECAST_URL}?${params}`);
+        if (!data?.current || !data?.daily) {
+            throw new WeatherError('Weather service returned an unexpected response');
+        }
+
+        const daily = data.daily;
+        const report: WeatherReport = {
+            location: place.name,
+            latitude: place.latitude,
+            longitude: place.longitude,
+            units: request.units,
+            current: {
+                temperature: data.current.temperature_2m,
+                feelsLike: data.current.apparent_temperature,
+                humidity: data.current.relative_humidity_2m,
+                windSpeed: data.current.wind_speed_10m,
+                conditions: describeCode(data.current.weather_code),
+                time: data.current.time,
+            },
+            forecast: (daily.time as string[]).map((date, i) => ({
+                date,
+                conditions: describeCode(daily.weather_code[i]),
+                high: daily.temperature_2m_max[i],
+                low: daily.temperature_2m_min[i],
+                ...(daily.precipitation_probability_max?.[i] != null && { precipitationChance: daily.precipitation_probability_max[i] }),
+            })),
+            source: 'Open-Meteo',
+        };
+
+        const ttl = (this.config.cacheMinutes ?? DEFAULT_CACHE_MINUTES) * 60 * 1000;
+        this.cache.set(key, { expires: Date.now() + ttl, report });
+        return report;
+    }
+
+    private async geocode(location: string) {
+        const key = location.trim().toLowerCase();
+        const known = this.places.get(key);
+        if (known) return known;
+
+        // The geocoder matches place names only, so "Paris, France" is searched as "Paris"
+        const name = location.split(',')[0].trim();
+        const params = new URLSearchParams({ name, count: '1', language: 'en', format: 'json' });
+        const data = await fetchJson(`${this.config.geocodingUrl ?? OPEN_METEO_GEOCODING_URL}?${params}`);
+        const match = data?.results?.[0];
+        if (!match) {
+            throw new WeatherError(`Location not found: ${location}`);
+        }
+
+        const place = {
+            name: [match.name, match.admin1, match.country].filter(Boolean).join(', '),
+            latitude: match.latitude,
+            longitude: match.longitude,
+        };
+        this.places.set(key, place);
+        return place;
+    }
+}
+
+/** Fixture data is stored in metric units */
+interface Fixture {
+    location: string;
+    current: { temperature: number; feelsLike?: number; humidity?: number; windSpeed?: number; conditions: string };
+    forecast: { conditions: string; high: number; low: number; precipitationChance?: number }[];
+}
+
+const BUILT_IN_FIXTURES: Record<string, Fixture> = {
+    london: {
+        location: 'London, England, United Kingdom',
+        current: { temperature: 12, feelsLike: 10, humidity: 81, windSpeed: 18, conditions: 'Overcast' },
+        forecast: [
+            { conditions: 'Slight rain', high: 13, low: 8, precipitationChance: 70 },
+            { conditions: 'Partly cloudy', high: 15, low: 9, precipitationChance: 20 },
+            { conditions: 'Rain showers', high: 12, low: 7, precipitationChance: 60 },
+        ],
+    },
+    'new york': {
+        location: 'New York, New York, United States',
+        current: { temperature: 22, feelsLike: 23, humidity: 55, windSpeed: 12, conditions: 'Mainly clear' },
+        forecast: [
+            { conditions: 'Clear sky', high: 25, low: 17, precipitationChance: 5 },
+            { conditions: 'Thunderstorm', high: 27, low: 19, precipitationChance: 80 },
+            { conditions: 'Partly cloudy', high: 24, low: 18, precipitationChance: 15 },
+        ],
+    },
+    tokyo: {
+        location: 'Tokyo, Japan',
+        current: { temperature: 18, feelsLike: 18, humidity: 65, windSpeed: 9, conditions: 'Partly cloudy' },
+        forecast: [
+            { conditions: 'Partly cloudy', high: 20, low: 14, precipitationChance: 10 },
+            { conditions: 'Rain', high: 17, low: 13, precipitationChance: 90 },
+            { conditions: 'Clear sky', high: 21, low: 12, precipitationChance: 0 },
+        ],
+    },
+};
+
+function toFahrenheit(celsius: number): number {
+    return Math.round((celsius * 9 / 5 + 32) * 10) / 10;
+}
+
+function toMph(kmh: number): number {
+    return Math.round(kmh / 1.609344 * 10) / 10;
+}
+
+/**
+ * Canned reports for offline use and tests. Only locations present in the
+ * fixtures are answered; anything else is "not found", never invented.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+    readonly name = 'fixture';
+    private fixtures: Promise<Record<string, Fixture>> | null = null;
+
+    constructor(private fixturePath?: string, private now: () => Date = () => new Date()) { }
+
+    async getWeather(location: string, request: WeatherRequest): Promise<WeatherReport> {
+        const fixtures = await (this.fixtures ??= this.loadFixtures());
+        const key = location.split(',')[0].trim().toLowerCase();
+        const fixture = fixtures[key];
+        if (!fixture) {
+            throw new WeatherError(`Location not found in weather fixtures: ${location}`);
+        }
+
+        const imperial = request.units === 'imperial';
+        const temperature = (celsius: number) => imperial ? toFahrenheit(celsius) : celsius;
+        const speed = (kmh?: number) => kmh === undefined ? undefined : imperial ? toMph(kmh) : kmh;
+        const today = this.now();
+
+        return {
+            location: fixture.location,
+            units: request.units,
+            current: {
+                ...fixture.current,
+                temperature: temperature(fixture.current.temperature),
+                feelsLike: fixture.current.feelsLike === undefined ? undefined : temperature(fixture.current.feelsLike),
+                windSpeed: speed(fixture.current.windSpeed),
+                time: today.toISOString(),
+            },
+            forecast: fixture.forecast.slice(0, request.days).map((day, i) => {
+                const date = new Date(today);
+                date.setDate(date.getDate() + i);
+                return { ...day, date: date.toISOString().slice(0, 10), high: temperature(day.high), low: temperature(day.low) };
+            }),
+            source: 'fixture (offline test data, not a real observation)',
+        };
+    }
+
+    private async loadFixtures(): Promise<Record<string, Fixture>> {
+        if (!this.fixturePath) return BUILT_IN_FIXTURES;
+
+        let data: Record<string, Fixture>;
+        try {
+            data = JSON.parse(await fs.readFile(this.fixturePath, 'utf-8'));
+        } catch (error) {
+            throw new WeatherError(`Could not read weather fixtures from ${this.fixturePath}`);
+        }
+        return Object.fromEntries(Object.entries(data).map(([name, fixture]) => [name.toLowerCase(), fixture]));
+    }
+}
+
+/** The provider a profile's weather config asks for, or null when weather isn't configured */
+export function createWeatherProvider(config?: WeatherConfig): WeatherProvider | null {
+    switch (config?.provider) {
+        case 'open-meteo': return new OpenMeteoProvider(config);
+        case 'fixture': return new FixtureWeatherProvider(config.fixturePath);
+        default: return null;
+    }
+}
@@ -0,0 +1,435 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { resolvePaths } from './paths';
+import { countRedactionMarkers } from './guardrails';
+
+/** Raised for paths outside the workspace, protected files and bad edits; safe to show the model */
+export class WorkspaceError extends Error { }
+
+const MAX_READ_BYTES = 256 * 1024;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_LIST_ENTRIES = 500;
+const MAX_MATCH_LENGTH = 200;
+
+// Not descended into when listing recursively or searching
+const SKIPPED_DIRS = new Set(['.git', 'node_modules', '.safellm']);
+
+// Never read or written, wherever the workspace root is: credentials and this app's own state
+const PROTECTED_NAMES = [/^\.env(\..+)?$/];
+const PROTECTED_DIRS = new Set(['.git', '.safellm']);
+
+/** The config files and data directory in effect, plus a config.json left in the working directory by older versions */
+function isAppFile(absolute: string): boolean {
+    const paths = resolvePaths();
+    if (absolute === path.join(process.cwd(), 'config.json')) return true;
+    if (paths.configLayers.some(layer => layer.file === absolute)) return true;
+    return [paths.globalConfigDir, paths.dataDir].some(dir => absolute === dir || absolute.startsWith(dir + path.sep));
+}
+
+export interface FileContent {
+    path: string;
+    content: string;
+    startLine: number;
+    endLine: number;
+    totalLines: number;
+    /** True when only part of the file was returned because of the size limit */
+    truncated: boolean;
+}
+
+export interface DirectoryEntry {
+    path: string;
+    type: 'file' | 'directory' | 'symlink' | 'other';
+    size?: number;
+}
+
+export interface SearchMatch {
+    path: string;
+    line: number;
+    text: string;
+}
+
+export interface SearchOptions {
+    /** Directory to search, relative to the workspace root */
+    path?: string;
+    /** Glob such as "*.ts" or "src/**\/*.md" */
+    include?: string;
+    regex?: boolean;
+    caseSensitive?: boolean;
+    maxResults?: number;
+}
+
+export interface FileEdit {
+    find: string;
+    replace: string;
+}
+
+/** A pending write, shown to the user as `diff` before it is applied */
+export interface WritePlan {
+    path: string;
+    absolutePath: string;
+    created: boolean;
+    content: string;
+    diff: string;
+    additions: number;
+    deletions: number;
+}
+
+function isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function isBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, 8000).includes(0);
+}
+
+/** Glob to regex: `**` spans directories, `*` and `?` stay within one path segment */
+function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+type DiffOp = [' ' | '-' | '+', string];
+
+/** Line diff via LCS on the part between the common prefix and suffix */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+    const middle: DiffOp[] = [];
+
+    if (a.length * b.length > 4_000_000) {
+        // Too large to align line by line; show it as a block replacement
+        a.forEach(line => middle.push(['-', line]));
+        b.forEach(line => middle.push(['+', line]));
+    } else {
+        const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                middle.push([' ', a[i++]]);
+                j++;
+            } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                middle.push(['-', a[i++]]);
+            } else {
+                middle.push(['+', b[j++]]);
+            }
+        }
+    }
+
+    return [
+        ...before.slice(0, start).map((line): DiffOp => [' ', line]),
+        ...middle,
+        ...before.slice(endBefore).map((line): DiffOp => [' ', line]),
+    ];
+}
+
+/** Unified diff with three lines of context; empty when nothing changed */
+export function unifiedDiff(before: string, after: string, filePath: string, created = false): string {
+    const split = (text: string) => text === '' ? [] : text.replace(/\n$/, '').split('\n');
+    const ops = diffLines(split(before), split(after));
+    const context = 3;
+
+    const changed = ops.map((op, i) => op[0] !== ' ' ? i : -1).filter(i => i >= 0);
+    if (changed.length === 0) return '';
+
+    const lines = [`--- ${created ? '/dev/null' : `a/${filePath}`}`, `+++ b/${filePath}`];
+    let index = 0;
+    while (index < changed.length) {
+        // Extend the hunk while the next change is within the context window
+        const first = changed[index];
+        let last = first;
+        while (index + 1 < changed.length && changed[index + 1] - last <= context * 2) {
+            last = changed[++index];
+        }
+        index++;
+
+        const from = Math.max(0, first - context);
+        const to = Math.min(ops.length, last + context + 1);
+        const oldStart = ops.slice(0, from).filter(op => op[0] !== '+').length;
+        const newStart = ops.slice(0, from).filter(op => op[0] !== '-').length;
+        const hunk = ops.slice(from, to);
+        const oldCount = hunk.filter(op => op[0] !== '+').length;
+        const newCount = hunk.filter(op => op[0] !== '-').length;
+
+        lines.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`);
+        hunk.forEach(([sign, line]) => lines.push(`${sign}${line}`));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * File access confined to one directory. Every path is resolved against the
+ * root and rejected if it leaves it, either lexically (`../`) or through a
+ * symlink anywhere along the way.
+ */
+export class Workspace {
+    readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    /** Absolute, symlink-free path for `relativePath`; throws WorkspaceError if it escapes the root */
+    async resolve(relativePath: string): Promise<string> {
+        const input = relativePath.trim() || '.';
+        if (input.includes('\0')) throw new WorkspaceError('Invalid path');
+
+        const target = path.resolve(this.root, input);
+        if (!isInside(this.root, target)) {
+            throw new WorkspaceError(`Path is outside the workspace: ${relativePath}`);
+        }
+
+        let realRoot: string;
+        try {
+            realRoot = await fs.realpath(this.root);
+        } catch {
+            throw new WorkspaceError(`Workspace root does not exist: ${this.root}`);
+        }
+
+        // Resolve symlinks along the longest existing prefix; the rest doesn't exist yet
+        let existing = target;
+        const missing: string[] = [];
+        let resolved: string;
+        while (true) {
+            try {
+                resolved = path.join(await fs.realpath(existing), ...missing);
+                break;
+            } catch {
+                if (await fs.lstat(existing).then(() => true, () => false)) {
+                    // lstat works but realpath doesn't: a dangling symlink, which a write would follow
+                    throw new WorkspaceError(`Path is a broken symlink: ${relativePath}`);
+                }
+                missing.unshift(path.basename(existing));
+                existing = path.dirname(existing);
+            }
+        }
+
+        if (!isInside(realRoot, resolved)) {
+            throw new WorkspaceError(`Path resolves outside the workspace through a symlink: ${relativePath}`);
+        }
+        if (this.isProtected(realRoot, resolved)) {
+            throw new WorkspaceError(`Access to ${relativePath} is not allowed`);
+        }
+        return resolved;
+    }
+
+    async readFile(relativePath: string, options: { startLine?: number; endLine?: number } = {}): Promise<FileContent> {
+        const absolute = await this.resolve(relativePath);
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (!stat) throw new WorkspaceError(`File not found: ${relativePath}`);
+        if (!stat.isFile()) throw new WorkspaceError(`Not a file: ${relativePath}`);
+
+        const buffer = await fs.readFile(absolute);
+        if (isBinary(buffer)) throw new WorkspaceError(`Binary file not shown: ${relativePath}`);
+
+        const lines = buffer.toString('utf-8').split('\n');
+        const startLine = Math.max(1, options.startLine ?? 1);
+        const requestedEnd = Math.min(lines.length, options.endLine ?? lines.length);
+
+        // Stop at the size limit, on a line boundary
+        let endLine = startLine - 1;
+        let bytes = 0;
+        while (endLine < requestedEnd && bytes + lines[endLine].length + 1 <= MAX_READ_BYTES) {
+            bytes += lines[endLine].length + 1;
+            endLine++;
+        }
+
+        return {
+            path: this.display(absolute),
+            content: lines.slice(startLine - 1, endLine).join('\n'),
+            startLine,
+            endLine,
+            totalLines: lines.length,
+            truncated: endLine < requestedEnd,
+        };
+    }
+
+    async listDirectory(relativePath = '.', options: { recursive?: boolean; maxDepth?: number } = {}): Promise<{ path: string; entries: DirectoryEntry[]; truncated: boolean }> {
+        const absolute = await this.resolve(relativePath);
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (!stat?.isDirectory()) throw new WorkspaceError(`Not a directory: ${relativePath}`);
+
+        const entries: DirectoryEntry[] = [];
+        const maxDepth = options.recursive ? options.maxDepth ?? 5 : 1;
+
+        const walk = async (dir: string, depth: number) => {
+            const children = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+            for (const child of children) {
+                if (entries.length >= MAX_LIST_ENTRIES) return;
+                const childPath = path.join(dir, child.name);
+                const type = child.isSymbolicLink() ? 'symlink' : child.isDirectory() ? 'directory' : child.isFile() ? 'file' : 'other';
+                const size = type === 'file' ? (await fs.stat(childPath).catch(() => null))?.size : undefined;
+                entries.push({ path: this.display(childPath), type, ...(size !== undefined && { size }) });
+
+                // Symlinked directories aren't followed
+                if (type === 'directory' && depth < maxDepth && !SKIPPED_DIRS.has(child.name)) {
+                    await walk(childPath, depth + 1);
+                }
+            }
+        };
+        await walk(absolute, 1);
+
+        return { path: this.display(absolute), entries, truncated: entries.length >= MAX_LIST_ENTRIES };
+    }
+
+    async searchFiles(query: string, options: SearchOptions = {}): Promise<{ matches: SearchMatch[]; filesSearched: number; truncated: boolean }> {
+        const absolute = await this.resolve(options.path ?? '.');
+        const maxResults = options.maxResults ?? 50;
+        const flags = options.caseSensitive ? 'g' : 'gi';
+
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+        } catch (error) {
+            throw new WorkspaceError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        const include = options.include ? globToRegExp(options.include) : null;
+        const matchesPathOnly = !!options.include && !options.include.includes('/');
+
+        const realRoot = await fs.realpath(this.root);
+        const matches: SearchMatch[] = [];
+        let filesSearched = 0;
+        let truncated = false;
+
+        const searchFile = async (file: string) => {
+            const relative = this.display(file);
+            if (include && !include.test(matchesPathOnly ? path.basename(file) : relative)) return;
+            if (this.isProtected(realRoot, file)) return;
+
+            const stat = await fs.stat(file).catch(() => null);
+            if (!stat || stat.size > MAX_SEARCH_FILE_BYTES) return;
+            const buffer = await fs.readFile(file);
+            if (isBinary(buffer)) return;
+
+            filesSearched++;
+            const lines = buffer.toString('utf-8').split('\n');
+            for (let i = 0; i < lines.length; i++) {
+                pattern.lastIndex = 0;
+                if (!pattern.test(lines[i])) continue;
+                if (matches.length >= maxResults) {
+                    truncated = true;
+                    return;
+                }
+                matches.push({ path: relative, line: i + 1, text: lines[i].trim().slice(0, MAX_MATCH_LENGTH) });
+            }
+        };
+
+        const walk = async (dir: string) => {
+            const children = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+            for (const child of children) {
+                if (truncated) return;
+                const childPath = path.join(dir, child.name);
+                if (child.isDirectory() && !SKIPPED_DIRS.has(child.name)) await walk(childPath);
+                else if (child.isFile()) await searchFile(childPath);
+            }
+        };
+
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (!stat) throw new WorkspaceError(`Path not found: ${options.path}`);
+        if (stat.isDirectory()) await walk(absolute);
+        else await searchFile(absolute);
+
+        return { matches, filesSearched, truncated };
+    }
+
+    /** Plans replacing (or creating) a file with `content` */
+    async planWrite(relativePath: string, content: string): Promise<WritePlan> {
+        const absolute = await this.resolve(relativePath);
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (stat && !stat.isFile()) throw new WorkspaceError(`Not a file: ${relativePath}`);
+
+        const before = stat ? await fs.readFile(absolute, 'utf-8') : '';
+        return this.plan(absolute, before, content, !stat);
+    }
+
+    /** Plans search-and-replace edits; each `find` must match exactly once */
+    async planPatch(relativePath: string, edits: FileEdit[]): Promise<WritePlan> {
+        const absolute = await this.resolve(relativePath);
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (!stat?.isFile()) throw new WorkspaceError(`File not found: ${relativePath}`);
+
+        const before = await fs.readFile(absolute, 'utf-8');
+        let after = before;
+        edits.forEach((edit, i) => {
+            if (!edit.find) throw new WorkspaceError(`Edit ${i + 1}: "find" must not be empty`);
+            const count = after.split(edit.find).length - 1;
+            if (count === 0) {
+                throw new WorkspaceError(`Edit ${i + 1}: text not found in ${relativePath}. Read the file again and copy the text exactly.`);
+            }
+            if (count > 1) {
+                throw new WorkspaceError(`Edit ${i + 1}: text matches ${count} places in ${relativePath}; include more surrounding lines so it is unique.`);
+            }
+            after = after.replace(edit.find, () => edit.replace);
+        });
+
+        return this.plan(absolute, before, after, false);
+    }
+
+    async applyWrite(plan: WritePlan): Promise<void> {
+        await fs.mkdir(path.dirname(plan.absolutePath), { recursive: true });
+        await fs.writeFile(plan.absolutePath, plan.content);
+    }
+
+    private plan(absolute: string, before: string, after: string, created: boolean): WritePlan {
+        const display = this.display(absolute);
+        // Reads reach the model with secrets swapped for markers; writing those back would erase the real secrets
+        if (countRedactionMarkers(after) > countRedactionMarkers(before)) {
+            throw new WorkspaceError(`The new content of ${display} contains [REDACTED:...] markers, which stand for text the file really holds. Nothing was written. Use patch-file with find and replace text that leaves the redacted parts out.`);
+        }
+        const diff = unifiedDiff(before, after, display, created);
+        const lines = diff.split('\n').slice(2);
+        return {
+            path: display,
+            absolutePath: absolute,
+            created,
+            content: after,
+            diff,
+            additions: lines.filter(line => line.startsWith('+')).length,
+            deletions: lines.filter(line => line.startsWith('-')).length,
+        };
+    }
+
+    private isProtected(realRoot: string, absolute: string): boolean {
+        if (isAppFile(absolute)) return true;
+        if (PROTECTED_NAMES.some(pattern => pattern.test(path.basename(absolute)))) return true;
+        return path.relative(realRoot, absolute).split(path.sep).some(segment => PROTECTED_DIRS.has(segment));
+    }
+
+    /** Path relative to the root with forward slashes, as shown to the model */
+    private display(absolute: string): string {
+        const relative = path.relative(this.root, absolute);
+        if (relative.startsWith('..')) {
+            // Realpath of a root that is itself behind a symlink
+            return path.basename(absolute);
+        }
+        return relative.split(path.sep).join('/') || '.';
+    }
+}